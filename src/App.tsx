@@ -1,5 +1,6 @@
-import { MapContainer } from '@/components/Map';
+import { MapContainer, HistoryToolbar } from '@/components/Map';
 import { Sidebar } from '@/components/Sidebar';
+import { SessionRestorePrompt } from '@/components/Session';
 import { useGeoLocation } from '@/hooks/useGeoLocation';
 
 /**
@@ -13,6 +14,7 @@ import { useGeoLocation } from '@/hooks/useGeoLocation';
  * - Sidebar: Contains all controls organized in tabs
  * - Zustand store: Centralized state management
  * - useGeoLocation: Auto-detects user's country and centers map on capital
+ * - SessionRestorePrompt: Offers to restore the last autosaved session
  * 
  * MVP Scope:
  * - [x] Interactive map with Mapbox GL JS
@@ -21,6 +23,8 @@ import { useGeoLocation } from '@/hooks/useGeoLocation';
  * - [x] Route animation with moving marker
  * - [x] Video export via Canvas + MediaRecorder
  * - [x] Auto-detect user location
+ * - [x] Autosave with session restore
+ * - [x] Undo/redo for route edits
  * 
  * TODOs for SaaS Scaling:
  * - [ ] Backend API for route persistence
@@ -40,7 +44,9 @@ function App() {
   return (
     <div className="app-layout">
       <MapContainer />
+      <HistoryToolbar />
       <Sidebar />
+      <SessionRestorePrompt />
     </div>
   );
 }
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { useRouteStore } from '@/store/routeStore';
+import { Undo2, Redo2 } from 'lucide-react';
+
+/**
+ * Floating undo/redo toolbar over the map
+ *
+ * Shortcuts: Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo.
+ * Ignored while typing in inputs so text fields keep their own undo.
+ */
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+}
+
+export function HistoryToolbar() {
+  const { route, history, undo, redo } = useRouteStore();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+
+  if (!route) return null;
+
+  return (
+    <div className="history-toolbar">
+      <button
+        className="btn-segment-action"
+        onClick={undo}
+        disabled={history.past.length === 0}
+        title="Deshacer (Ctrl+Z)"
+      >
+        <Undo2 size={16} />
+      </button>
+      <button
+        className="btn-segment-action"
+        onClick={redo}
+        disabled={history.future.length === 0}
+        title="Rehacer (Ctrl+Shift+Z)"
+      >
+        <Redo2 size={16} />
+      </button>
+    </div>
+  );
+}
@@ -4,49 +4,27 @@ import * as turf from '@turf/turf';
 import { useRouteStore } from '@/store/routeStore';
 import { useAnimation } from '@/hooks/useAnimation';
 import { MAPBOX_ACCESS_TOKEN, MAP_STYLES } from '@/config/map';
-import { getTransportConfig } from '@/config/transport';
-import { Coordinates } from '@/types';
+import { getTransportConfig, TRANSPORT_MODES } from '@/config/transport';
+import { CameraState, Coordinates } from '@/types';
+import { unwrapLongitudes } from '@/utils/geodesic';
+import { getAnimationTimeline } from '@/utils/timing';
+import { getCameraKeyframes } from '@/utils/camera';
+import { frameAt } from '@/utils/frame';
+import { setActiveMap } from './mapInstance';
+import { MapLabelOverlay } from './MapLabelOverlay';
+import { MapFramingOverlay } from './MapFramingOverlay';
+import { addRouteLayers, getRouteFeatures, toRouteFeature } from './routeLayers';
 
 /**
- * Smooths a path using bezier spline interpolation
- * Only applies to paths with more than 2 points
+ * Bounds of a path, or null if empty
+ * Continuous longitudes keep bounds tight for paths crossing ±180°
  */
-function smoothPath(coordinates: Coordinates[], transportMode: string): Coordinates[] {
-  // Don't smooth plane routes (they use arc) or simple 2-point lines
-  if (transportMode === 'plane' || coordinates.length <= 2) {
-    return coordinates;
-  }
-
-  try {
-    const line = turf.lineString(coordinates);
-    // Resolution controls smoothness (higher = more points = smoother)
-    // Sharpness controls how close to original points (lower = smoother curves)
-    const smoothed = turf.bezierSpline(line, { resolution: 10000, sharpness: 0.85 });
-    return smoothed.geometry.coordinates as Coordinates[];
-  } catch (e) {
-    // If smoothing fails, return original
-    return coordinates;
-  }
-}
-
-function lerp(start: number, end: number, amt: number): number {
-  return (1 - amt) * start + amt * end;
-}
-
-function lerpBearing(start: number, end: number, amt: number): number {
-  let diff = end - start;
-  while (diff > 180) diff -= 360;
-  while (diff < -180) diff += 360;
-  return start + diff * amt;
-}
-
-function calculateFollowZoom(routeLengthKm: number): number {
-  if (routeLengthKm < 2) return 16;
-  if (routeLengthKm < 10) return 14;
-  if (routeLengthKm < 50) return 12;
-  if (routeLengthKm < 200) return 10;
-  if (routeLengthKm < 1000) return 8;
-  return 6;
+function pathBounds(path: Coordinates[]): mapboxgl.LngLatBounds | null {
+  const coords = unwrapLongitudes(path);
+  if (coords.length === 0) return null;
+  const bounds = new mapboxgl.LngLatBounds(coords[0], coords[0]);
+  coords.forEach((c) => bounds.extend(c as mapboxgl.LngLatLike));
+  return bounds;
 }
 
 /**
@@ -58,7 +36,12 @@ function calculateFollowZoom(routeLengthKm: number): number {
  * - Route lines
  * - Animation overlay
  * - Path node editing
- * - Cinematic camera follow
+ * - Camera modes: cinematic follow, overview, north-up chase, orbit and
+ *   per-segment framing
+ * - Directed camera from camera keyframes (optionally mixed with the
+ *   vehicle camera)
+ * - Label keyframes (title cards) over the map
+ * - Export framing while the export panel is open
  */
 
 mapboxgl.accessToken = MAPBOX_ACCESS_TOKEN;
@@ -70,10 +53,10 @@ export function MapContainer() {
   const animationMarkerRef = useRef<mapboxgl.Marker | null>(null);
 
   // Camera follow refs
-  const savedCameraRef = useRef<{ center: Coordinates; zoom: number; bearing: number; pitch: number } | null>(null);
-  const lerpedCameraRef = useRef<{ lng: number; lat: number; bearing: number; zoom: number; pitch: number } | null>(null);
+  const savedCameraRef = useRef<CameraState | null>(null);
+  // Where playback started: frames blend from this view into the camera mode
+  const introRef = useRef<{ camera: CameraState; time: number } | null>(null);
   const wasPlayingRef = useRef(false);
-  const followZoomRef = useRef(13);
 
   const {
     route,
@@ -88,7 +71,7 @@ export function MapContainer() {
   } = useRouteStore();
 
   const { sidebarOpen } = ui;
-  const { getAnimationFrame, isPlaying, progress } = useAnimation();
+  const { isPlaying, progress } = useAnimation();
 
   // Get the currently selected segment
   const selectedSegment = route?.segments.find(s => s.id === selectedSegmentId);
@@ -124,84 +107,7 @@ export function MapContainer() {
     map.addControl(new mapboxgl.NavigationControl(), 'top-right');
 
     map.on('load', () => {
-      // Add route source
-      map.addSource('route', {
-        type: 'geojson',
-        data: {
-          type: 'FeatureCollection',
-          features: [],
-        },
-      });
-
-      // Add animated path source
-      map.addSource('animated-path', {
-        type: 'geojson',
-        data: {
-          type: 'Feature',
-          properties: {},
-          geometry: {
-            type: 'LineString',
-            coordinates: [],
-          },
-        },
-      });
-
-      // Add route layers for each transport mode
-      ['car', 'motorcycle', 'train', 'plane'].forEach((mode) => {
-        const config = getTransportConfig(mode as any);
-        
-        // Visible route layer
-        map.addLayer({
-          id: `route-${mode}`,
-          type: 'line',
-          source: 'route',
-          filter: ['==', ['get', 'transportMode'], mode],
-          layout: {
-            'line-join': 'round',
-            'line-cap': 'round',
-          },
-          paint: {
-            'line-color': config.color,
-            'line-width': config.lineWidth,
-            'line-opacity': 0.6,
-            'line-dasharray': config.lineStyle === 'dashed' ? [2, 2] : [1, 0],
-          },
-        });
-
-        // Invisible wider layer for easier clicking (only for ground transport)
-        if (mode !== 'plane') {
-          map.addLayer({
-            id: `route-${mode}-hitarea`,
-            type: 'line',
-            source: 'route',
-            filter: ['==', ['get', 'transportMode'], mode],
-            layout: {
-              'line-join': 'round',
-              'line-cap': 'round',
-            },
-            paint: {
-              'line-color': 'transparent',
-              'line-width': 20, // Wide hit area
-              'line-opacity': 0,
-            },
-          });
-        }
-      });
-
-      // Add animated path layer (drawn on top)
-      map.addLayer({
-        id: 'animated-path',
-        type: 'line',
-        source: 'animated-path',
-        layout: {
-          'line-join': 'round',
-          'line-cap': 'round',
-        },
-        paint: {
-          'line-color': '#EF4444',
-          'line-width': 4,
-        },
-      });
+      addRouteLayers(map);
 
       // Add source for editable path nodes (native Mapbox circles)
       map.addSource('edit-nodes', {
@@ -251,7 +157,9 @@ export function MapContainer() {
 
     // Handle clicks on route lines in edit-path mode to add draggable nodes
     // Use hitarea layers for easier clicking
-    const routeHitLayers = ['route-car-hitarea', 'route-motorcycle-hitarea', 'route-train-hitarea'];
+    const routeHitLayers = TRANSPORT_MODES
+      .filter((mode) => getTransportConfig(mode).category !== 'air')
+      .map((mode) => `route-${mode}-hitarea`);
     
     routeHitLayers.forEach(layerId => {
       // Change cursor on hover when in edit mode
@@ -309,8 +217,11 @@ export function MapContainer() {
     });
 
     // ========== Native node dragging system ==========
+    // The path is only committed on mouseup, so each drag is a single
+    // store update (and a single undo step)
     let draggingNodeIndex: number | null = null;
     let dragPath: Coordinates[] | null = null;
+    let dragMoved = false;
 
     // Cursor and hover for draggable nodes
     map.on('mouseenter', 'edit-nodes-layer', () => {
@@ -341,7 +252,7 @@ export function MapContainer() {
       
       if (segment && typeof nodeIndex === 'number') {
         const newPath = [...segment.path];
-        const coords = (feature.geometry as any).coordinates as Coordinates;
+        const coords = (feature.geometry as GeoJSON.Point).coordinates as Coordinates;
         newPath.splice(nodeIndex + 1, 0, coords);
         updateSegmentPathRef.current(segment.id, newPath);
       }
@@ -361,6 +272,7 @@ export function MapContainer() {
         e.preventDefault();
         draggingNodeIndex = nodeIndex;
         dragPath = [...segment.path];
+        dragMoved = false;
         map.getCanvas().style.cursor = 'grabbing';
         
         // Disable map dragging while dragging node
@@ -377,26 +289,19 @@ export function MapContainer() {
       
       // Update the path with new position
       dragPath[draggingNodeIndex] = [e.lngLat.lng, e.lngLat.lat];
+      dragMoved = true;
       
       // Update route visual in real-time
       if (map.getSource('route')) {
         const route = useRouteStore.getState().route;
         const allSegments = route?.segments || [];
-        const features = allSegments.map((seg) => ({
-          type: 'Feature' as const,
-          properties: {
-            transportMode: seg.transportMode,
-            id: seg.id,
-          },
-          geometry: {
-            type: 'LineString' as const,
-            coordinates: seg.id === segment.id ? dragPath : seg.path,
-          },
-        }));
+        const features = allSegments.map((seg, index) =>
+          toRouteFeature(seg, index, seg.id === segment.id ? dragPath! : seg.path)
+        );
         
         (map.getSource('route') as mapboxgl.GeoJSONSource).setData({
           type: 'FeatureCollection',
-          features: features as GeoJSON.Feature[],
+          features,
         });
       }
       
@@ -439,7 +344,7 @@ export function MapContainer() {
     map.on('mouseup', () => {
       if (draggingNodeIndex !== null && dragPath) {
         const segment = selectedSegmentRef.current;
-        if (segment) {
+        if (segment && dragMoved) {
           updateSegmentPathRef.current(segment.id, dragPath);
         }
         
@@ -451,8 +356,10 @@ export function MapContainer() {
     });
 
     mapRef.current = map;
+    setActiveMap(map);
 
     return () => {
+      setActiveMap(null);
       map.remove();
       mapRef.current = null;
     };
@@ -612,34 +519,26 @@ export function MapContainer() {
   useEffect(() => {
     if (!mapRef.current || !mapRef.current.getSource('route')) return;
 
-    const features = route?.segments.map((segment) => ({
-      type: 'Feature' as const,
-      properties: {
-        transportMode: segment.transportMode,
-        id: segment.id,
-      },
-      geometry: {
-        type: 'LineString' as const,
-        // Apply smoothing to the path for visual display
-        coordinates: smoothPath(segment.path, segment.transportMode),
-      },
-    })) || [];
-
-    (mapRef.current.getSource('route') as mapboxgl.GeoJSONSource).setData({
-      type: 'FeatureCollection',
-      features,
-    });
+    // Apply smoothing to the path for visual display
+    (mapRef.current.getSource('route') as mapboxgl.GeoJSONSource).setData(getRouteFeatures(route?.segments ?? []));
   }, [route?.segments]);
 
   // Helper function to update animation visuals on map
   const updateAnimationVisuals = () => {
-    if (!mapRef.current) return;
+    const map = mapRef.current;
+    const { route: currentRoute, animation: currentAnimation } = useRouteStore.getState();
+    if (!map || !currentRoute) return;
+
+    const { totalDuration } = getAnimationTimeline(currentRoute, currentAnimation);
+    const container = map.getContainer();
+    const frame = frameAt(currentRoute, currentAnimation, currentAnimation.currentProgress * totalDuration, {
+      viewport: { width: container.clientWidth, height: container.clientHeight },
+      intro: introRef.current ?? undefined,
+    });
 
-    const frame = getAnimationFrame();
-    
-    if (frame && frame.drawnPath.length > 0 && mapRef.current.getSource('animated-path')) {
+    if (frame && frame.drawnPath.length > 0 && map.getSource('animated-path')) {
       // Update animated path
-      (mapRef.current.getSource('animated-path') as mapboxgl.GeoJSONSource).setData({
+      (map.getSource('animated-path') as mapboxgl.GeoJSONSource).setData({
         type: 'Feature',
         properties: {},
         geometry: {
@@ -656,57 +555,23 @@ export function MapContainer() {
         
         animationMarkerRef.current = new mapboxgl.Marker({ element: el })
           .setLngLat(frame.markerPosition)
-          .addTo(mapRef.current!);
+          .addTo(map);
       } else {
         animationMarkerRef.current.setLngLat(frame.markerPosition);
       }
 
       // Update marker icon based on current segment transport mode
-      if (route?.segments[frame.currentSegmentIndex]) {
+      if (currentRoute.segments[frame.currentSegmentIndex]) {
         const config = getTransportConfig(
-          route.segments[frame.currentSegmentIndex].transportMode
+          currentRoute.segments[frame.currentSegmentIndex].transportMode
         );
         animationMarkerRef.current.getElement().innerHTML = config.icon;
       }
 
-      // Cinematic camera follow with LERP smoothing
-      const currentAnimation = useRouteStore.getState().animation;
-      if (currentAnimation.cameraFollow && currentAnimation.isPlaying) {
-        const map = mapRef.current;
-        const targetLng = frame.markerPosition[0];
-        const targetLat = frame.markerPosition[1];
-        const targetBearing = frame.bearing;
-        const targetZoom = followZoomRef.current + currentAnimation.cameraZoomExtra;
-        const targetPitch = 50;
-
-        if (!lerpedCameraRef.current) {
-          lerpedCameraRef.current = {
-            lng: map.getCenter().lng,
-            lat: map.getCenter().lat,
-            bearing: map.getBearing(),
-            zoom: map.getZoom(),
-            pitch: map.getPitch(),
-          };
-        }
-
-        // Adaptive LERP: at higher zoom the camera must track tighter to keep vehicle centered
-        const currentZoom = lerpedCameraRef.current.zoom;
-        const posLerp = 0.04 + Math.max(0, (currentZoom - 12) * 0.02);
-        const bearingLerp = 0.006;
-        const zoomPitchLerp = 0.03;
-
-        lerpedCameraRef.current.lng = lerp(lerpedCameraRef.current.lng, targetLng, posLerp);
-        lerpedCameraRef.current.lat = lerp(lerpedCameraRef.current.lat, targetLat, posLerp);
-        lerpedCameraRef.current.bearing = lerpBearing(lerpedCameraRef.current.bearing, targetBearing, bearingLerp);
-        lerpedCameraRef.current.zoom = lerp(lerpedCameraRef.current.zoom, targetZoom, zoomPitchLerp);
-        lerpedCameraRef.current.pitch = lerp(lerpedCameraRef.current.pitch, targetPitch, zoomPitchLerp);
-
-        map.jumpTo({
-          center: [lerpedCameraRef.current.lng, lerpedCameraRef.current.lat],
-          bearing: lerpedCameraRef.current.bearing,
-          zoom: lerpedCameraRef.current.zoom,
-          pitch: lerpedCameraRef.current.pitch,
-        });
+      // Camera keyframes direct the shot while scrubbing too; the camera
+      // mode only moves the map during playback
+      if (frame.camera && (frame.cameraSource === 'keyframes' || currentAnimation.isPlaying)) {
+        map.jumpTo(frame.camera);
       }
     }
   };
@@ -740,15 +605,19 @@ export function MapContainer() {
     }
   }, [progress, route?.segments, isPlaying]);
 
-  // Camera follow: handle play start (save state, calc zoom) and play end (zoom-out or restore)
+  // Camera modes: handle play start (save state, calc zoom, initial framing) and play end (zoom-out or restore)
   useEffect(() => {
     const map = mapRef.current;
     const state = useRouteStore.getState();
     const currentAnimation = state.animation;
     const currentRoute = state.route;
 
-    if (isPlaying && !wasPlayingRef.current && currentAnimation.cameraFollow) {
-      if (map) {
+    const hasCameraKeyframes = getCameraKeyframes(currentRoute?.keyframes).length > 0;
+
+    const { cameraMode, cameraParams } = currentAnimation;
+
+    if (isPlaying && !wasPlayingRef.current && (cameraMode !== 'off' || hasCameraKeyframes)) {
+      if (map && currentRoute) {
         savedCameraRef.current = {
           center: [map.getCenter().lng, map.getCenter().lat] as Coordinates,
           zoom: map.getZoom(),
@@ -756,30 +625,21 @@ export function MapContainer() {
           pitch: map.getPitch(),
         };
 
-        if (currentRoute) {
-          let totalLength = 0;
-          currentRoute.segments.forEach(seg => {
-            try {
-              const line = turf.lineString(seg.path);
-              totalLength += turf.length(line, { units: 'kilometers' });
-            } catch { /* skip invalid segments */ }
-          });
-          followZoomRef.current = calculateFollowZoom(totalLength);
-        }
-
-        lerpedCameraRef.current = null;
+        const { totalDuration } = getAnimationTimeline(currentRoute, currentAnimation);
+        introRef.current = {
+          camera: savedCameraRef.current,
+          time: currentAnimation.currentProgress * totalDuration,
+        };
       }
     }
 
-    if (!isPlaying && wasPlayingRef.current && currentAnimation.cameraFollow) {
+    // Keyframed routes end on their last authored shot
+    if (!isPlaying && wasPlayingRef.current && cameraMode !== 'off' && !hasCameraKeyframes) {
       if (map && currentRoute) {
         const animProgress = currentAnimation.currentProgress;
         if (animProgress >= 0.99) {
-          const allCoords: Coordinates[] = currentRoute.segments.flatMap(s => s.path);
-          if (allCoords.length > 0) {
-            const bounds = new mapboxgl.LngLatBounds(allCoords[0], allCoords[0]);
-            allCoords.forEach(c => bounds.extend(c as mapboxgl.LngLatLike));
-
+          const bounds = pathBounds(currentRoute.segments.flatMap(s => s.path));
+          if (bounds) {
             map.once('moveend', () => {
               setTimeout(() => {
                 const latest = useRouteStore.getState();
@@ -789,10 +649,9 @@ export function MapContainer() {
               }, 1000);
             });
 
+            // End on the overview framing
             map.fitBounds(bounds, {
-              padding: 80,
-              pitch: 0,
-              bearing: 0,
+              ...cameraParams.overview,
               duration: 2500,
             });
           }
@@ -807,7 +666,7 @@ export function MapContainer() {
         }
       }
 
-      lerpedCameraRef.current = null;
+      introRef.current = null;
       savedCameraRef.current = null;
     }
 
@@ -830,13 +689,18 @@ export function MapContainer() {
     return () => {
       cancelAnimationFrame(animationId);
     };
-  }, [isPlaying, getAnimationFrame, route?.segments]);
+  }, [isPlaying, route?.segments]);
 
+  // Overlays are siblings: Mapbox expects an empty container
   return (
-    <div 
-      ref={containerRef} 
-      className="map-container"
-      id="map-container"
-    />
+    <div className="map-area">
+      <div
+        ref={containerRef}
+        className="map-container"
+        id="map-container"
+      />
+      <MapFramingOverlay />
+      <MapLabelOverlay />
+    </div>
   );
 }
@@ -0,0 +1,48 @@
+import { useEffect, useRef, useState } from 'react';
+import { useRouteStore } from '@/store/routeStore';
+import { getExportSize, getFramingRect } from '@/utils/exportSize';
+
+/**
+ * Export framing over the live map
+ *
+ * Shown while the export panel is open: the area outside the export
+ * aspect is dimmed, so what is inside the frame is what gets exported.
+ */
+
+export function MapFramingOverlay() {
+  const { exportConfig, ui } = useRouteStore();
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+  const visible = ui.sidebarOpen && ui.activePanel === 'export';
+
+  useEffect(() => {
+    const overlay = overlayRef.current;
+    if (!overlay) return;
+    const measure = () => setViewport({ width: overlay.clientWidth, height: overlay.clientHeight });
+    const observer = new ResizeObserver(measure);
+    observer.observe(overlay);
+    measure();
+    return () => observer.disconnect();
+  }, [visible]);
+
+  if (!visible) return null;
+
+  const size = getExportSize(exportConfig);
+  const rect = getFramingRect(viewport, size);
+
+  return (
+    <div ref={overlayRef} className="map-framing-overlay">
+      {viewport.width > 0 && (
+        <div
+          className="map-framing"
+          style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+        >
+          <span className="map-framing-label">
+            {size.width} x {size.height}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
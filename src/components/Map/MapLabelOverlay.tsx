@@ -0,0 +1,29 @@
+import { useRouteStore } from '@/store/routeStore';
+import { getAnimationTimeline } from '@/utils/timing';
+import { getVisibleLabels } from '@/utils/keyframes';
+
+/**
+ * Title cards from label keyframes, shown over the map
+ *
+ * Follows the animation clock, so scrubbing and playback show the same
+ * labels at the same time.
+ */
+
+export function MapLabelOverlay() {
+  const { route, animation } = useRouteStore();
+  if (!route?.keyframes?.length) return null;
+
+  const { totalDuration } = getAnimationTimeline(route, animation);
+  const labels = getVisibleLabels(route, animation.currentProgress * totalDuration);
+  if (labels.length === 0) return null;
+
+  return (
+    <div className="map-label-overlay">
+      {labels.map(({ keyframe, opacity }) => (
+        <div key={keyframe.id} className="map-label" style={{ opacity }}>
+          {keyframe.text}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import mapboxgl from 'mapbox-gl';
+import type { Map as MapboxMap } from 'mapbox-gl';
+import { Route } from '@/types';
+import { ExportError } from '@/utils/exportError';
+import { addRouteLayers, getRouteFeatures } from './routeLayers';
+
+/**
+ * Offscreen map for exports
+ *
+ * Exports render on their own map, sized so that its canvas is exactly
+ * the export size: frames are drawn at full resolution instead of
+ * scaling the live map's canvas, and the live map keeps its view.
+ *
+ * The canvas size is the CSS size times the device pixel ratio, so the
+ * container is sized in device pixels. Its last pixel may round off on
+ * fractional ratios; the renderer scales that away.
+ */
+
+// Give up if the style has not loaded by then
+const LOAD_TIMEOUT_MS = 30000;
+
+export interface ExportMapOptions {
+  style: string;
+  size: { width: number; height: number };
+  route: Route;
+}
+
+export async function createExportMap({ style, size, route }: ExportMapOptions): Promise<MapboxMap> {
+  const pixelRatio = window.devicePixelRatio || 1;
+  const container = document.createElement('div');
+  // Off the page but laid out: Mapbox needs a sized container
+  Object.assign(container.style, {
+    position: 'fixed',
+    top: '0',
+    left: '-100000px',
+    width: `${size.width / pixelRatio}px`,
+    height: `${size.height / pixelRatio}px`,
+    pointerEvents: 'none',
+  });
+  document.body.appendChild(container);
+
+  const map = new mapboxgl.Map({
+    container,
+    style,
+    interactive: false,
+    attributionControl: false,
+    trackResize: false,
+    preserveDrawingBuffer: true,
+  });
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const fail = (message: string) => {
+        clearTimeout(timeout);
+        reject(new ExportError('map', message));
+      };
+      const timeout = setTimeout(() => fail('Export map did not load'), LOAD_TIMEOUT_MS);
+      // Before 'load', errors are about the style itself (token, network)
+      map.once('error', (event) => fail(event.error?.message ?? 'Export map failed to load'));
+      map.once('load', () => {
+        clearTimeout(timeout);
+        resolve();
+      });
+    });
+  } catch (error) {
+    removeExportMap(map);
+    throw error;
+  }
+
+  addRouteLayers(map);
+  (map.getSource('route') as mapboxgl.GeoJSONSource).setData(getRouteFeatures(route.segments));
+  return map;
+}
+
+export function removeExportMap(map: MapboxMap) {
+  const container = map.getContainer();
+  map.remove();
+  container.remove();
+}
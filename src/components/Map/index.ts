@@ -1 +1,2 @@
 export { MapContainer } from './MapContainer';
+export { HistoryToolbar } from './HistoryToolbar';
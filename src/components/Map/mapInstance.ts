@@ -0,0 +1,30 @@
+import type { Map as MapboxMap } from 'mapbox-gl';
+import { CameraState } from '@/types';
+
+/**
+ * The live map, for panels that need to read or set the camera
+ * (e.g. capturing a camera keyframe from the current view)
+ *
+ * MapContainer registers the map on creation and clears it on unmount.
+ */
+
+let activeMap: MapboxMap | null = null;
+
+export function setActiveMap(map: MapboxMap | null) {
+  activeMap = map;
+}
+
+export function getActiveMap(): MapboxMap | null {
+  return activeMap;
+}
+
+export function getMapCamera(): CameraState | null {
+  if (!activeMap) return null;
+  const center = activeMap.getCenter().wrap();
+  return {
+    center: [center.lng, center.lat],
+    zoom: activeMap.getZoom(),
+    bearing: activeMap.getBearing(),
+    pitch: activeMap.getPitch(),
+  };
+}
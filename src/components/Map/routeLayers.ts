@@ -0,0 +1,118 @@
+import type { Map as MapboxMap } from 'mapbox-gl';
+import { getTransportConfig, TRANSPORT_MODES } from '@/config/transport';
+import { Coordinates, RouteSegment } from '@/types';
+import { segmentToFeature } from '@/utils/geojson';
+import { smoothPath } from '@/utils/path';
+import { splitAtAntimeridian } from '@/utils/geodesic';
+
+/**
+ * Route sources and layers, shared by the live map and the export map
+ *
+ * Layer ids: `route-<mode>` (plus `route-<mode>-hitarea` for editable
+ * paths) and `animated-path`, drawn on top.
+ */
+
+/**
+ * Route source feature for a segment, split at the antimeridian so lines
+ * crossing ±180° are drawn across the Pacific, not back across the map
+ */
+export function toRouteFeature(segment: RouteSegment, order: number, path: Coordinates[]): GeoJSON.Feature {
+  const feature = segmentToFeature(segment, order, path);
+  const parts = splitAtAntimeridian(path);
+  return parts.length > 1
+    ? { ...feature, geometry: { type: 'MultiLineString', coordinates: parts } }
+    : { ...feature, geometry: { type: 'LineString', coordinates: parts[0] ?? path } };
+}
+
+/**
+ * Route lines as drawn on the map, with smoothed paths
+ */
+export function getRouteFeatures(segments: RouteSegment[]): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: segments.map((segment, index) =>
+      toRouteFeature(segment, index, smoothPath(segment.path, segment.transportMode))
+    ),
+  };
+}
+
+export function addRouteLayers(map: MapboxMap) {
+  // Add route source
+  map.addSource('route', {
+    type: 'geojson',
+    data: {
+      type: 'FeatureCollection',
+      features: [],
+    },
+  });
+
+  // Add animated path source
+  map.addSource('animated-path', {
+    type: 'geojson',
+    data: {
+      type: 'Feature',
+      properties: {},
+      geometry: {
+        type: 'LineString',
+        coordinates: [],
+      },
+    },
+  });
+
+  // Add route layers for each transport mode
+  TRANSPORT_MODES.forEach((mode) => {
+    const config = getTransportConfig(mode);
+
+    // Visible route layer
+    map.addLayer({
+      id: `route-${mode}`,
+      type: 'line',
+      source: 'route',
+      filter: ['==', ['get', 'transportMode'], mode],
+      layout: {
+        'line-join': 'round',
+        'line-cap': 'round',
+      },
+      paint: {
+        'line-color': config.color,
+        'line-width': config.lineWidth,
+        'line-opacity': 0.6,
+        'line-dasharray': config.lineStyle === 'dashed' ? [2, 2] : [1, 0],
+      },
+    });
+
+    // Invisible wider layer for easier clicking (only for editable paths)
+    if (config.category !== 'air') {
+      map.addLayer({
+        id: `route-${mode}-hitarea`,
+        type: 'line',
+        source: 'route',
+        filter: ['==', ['get', 'transportMode'], mode],
+        layout: {
+          'line-join': 'round',
+          'line-cap': 'round',
+        },
+        paint: {
+          'line-color': 'transparent',
+          'line-width': 20, // Wide hit area
+          'line-opacity': 0,
+        },
+      });
+    }
+  });
+
+  // Add animated path layer (drawn on top)
+  map.addLayer({
+    id: 'animated-path',
+    type: 'line',
+    source: 'animated-path',
+    layout: {
+      'line-join': 'round',
+      'line-cap': 'round',
+    },
+    paint: {
+      'line-color': '#EF4444',
+      'line-width': 4,
+    },
+  });
+}
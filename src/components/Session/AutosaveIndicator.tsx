@@ -0,0 +1,18 @@
+import { useRouteStore } from '@/store/routeStore';
+import { Save } from 'lucide-react';
+
+/**
+ * Small "saved at" label for the last successful autosave
+ */
+export function AutosaveIndicator() {
+  const lastSavedAt = useRouteStore((state) => state.ui.lastSavedAt);
+
+  if (!lastSavedAt) return null;
+
+  return (
+    <div className="autosave-indicator" title={lastSavedAt.toLocaleString()}>
+      <Save size={14} />
+      Guardado a las {lastSavedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+    </div>
+  );
+}
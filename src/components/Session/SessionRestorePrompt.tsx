@@ -0,0 +1,32 @@
+import { useAutosave } from '@/hooks/useAutosave';
+import { History } from 'lucide-react';
+
+/**
+ * Startup prompt offering to restore the last autosaved session
+ */
+export function SessionRestorePrompt() {
+  const { pendingSession, restore, discard } = useAutosave();
+
+  if (!pendingSession) return null;
+
+  return (
+    <div className="session-restore-prompt" role="dialog" aria-live="polite">
+      <History size={20} className="session-restore-icon" />
+      <div className="session-restore-content">
+        <strong>¿Restaurar la última sesión?</strong>
+        <span className="text-muted text-sm">
+          {pendingSession.routeName || 'Ruta sin nombre'} · {pendingSession.waypointCount} puntos ·
+          guardada {pendingSession.savedAt.toLocaleString()}
+        </span>
+      </div>
+      <div className="session-restore-actions">
+        <button className="btn btn-secondary btn-sm" onClick={discard}>
+          Descartar
+        </button>
+        <button className="btn btn-primary btn-sm" onClick={restore}>
+          Restaurar
+        </button>
+      </div>
+    </div>
+  );
+}
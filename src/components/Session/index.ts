@@ -0,0 +1,2 @@
+export { SessionRestorePrompt } from './SessionRestorePrompt';
+export { AutosaveIndicator } from './AutosaveIndicator';
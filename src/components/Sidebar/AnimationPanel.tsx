@@ -1,5 +1,20 @@
 import { useRouteStore } from '@/store/routeStore';
 import { useAnimation } from '@/hooks/useAnimation';
+import {
+  CAMERA_MODE_LABELS,
+  CAMERA_MODES,
+  CAMERA_PARAM_FIELDS,
+  EASING_LABELS,
+  EASINGS,
+  TIMING_MODEL_LABELS,
+  TIMING_MODELS,
+} from '@/config/animation';
+import { CameraMode, Easing, TimingModel } from '@/types';
+import { getAnimationTimeline } from '@/utils/timing';
+import { getSegmentEasing } from '@/utils/easing';
+import { SegmentTimingList } from './SegmentTimingList';
+import { EasingPreview } from './EasingPreview';
+import { Timeline } from './Timeline';
 import { 
   Play, 
   Pause, 
@@ -7,7 +22,8 @@ import {
   Clock,
   Video,
   VideoOff,
-  ZoomIn
+  Timer,
+  Spline
 } from 'lucide-react';
 
 /**
@@ -16,12 +32,27 @@ import {
  * Features:
  * - Play/Pause controls
  * - Reset to beginning
- * - Progress slider (scrubbing updates map in real-time)
- * - Duration control (5-30 seconds)
+ * - Timeline with segment clips, dwell gaps and keyframes (scrubbing
+ *   updates the map in real time)
+ * - Total time (segments + dwell pauses) with per-stop overrides
+ * - Timing model: how the automatic duration is shared between segments
+ * - Easing (global, overridable per segment) with a preview of the
+ *   current segment's curve
+ * - Camera mode with the selected mode's parameters
  */
 
+const formatSeconds = (seconds: number) =>
+  `${seconds.toFixed(seconds < 10 && seconds % 1 !== 0 ? 1 : 0)} s`;
+
 export function AnimationPanel() {
-  const { route, setAnimationProgress, setAnimationDuration, setCameraFollow, setCameraZoomExtra } = useRouteStore();
+  const {
+    route,
+    setAnimationDuration,
+    setTimingModel,
+    setEasing,
+    setCameraMode,
+    setCameraParams,
+  } = useRouteStore();
   const { 
     animation, 
     play, 
@@ -32,16 +63,17 @@ export function AnimationPanel() {
   } = useAnimation();
 
   const hasRoute = route && route.segments.length > 0;
-  const progressPercent = Math.round(progress * 100);
-
-  const handleProgressChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseFloat(e.target.value) / 100;
-    setAnimationProgress(value);
-  };
+  const timeline = route ? getAnimationTimeline(route, animation) : null;
+  const movingTime = timeline ? timeline.segmentDurations.reduce((sum, seconds) => sum + seconds, 0) : 0;
+  const dwellTime = timeline ? timeline.totalDuration - movingTime : 0;
+  const hasAutomaticSegments = route?.segments.some((segment) => segment.animationDuration === undefined);
+  const currentSegment = route?.segments[animation.currentSegmentIndex];
+  const currentEasing = currentSegment ? getSegmentEasing(currentSegment, animation.easing) : animation.easing;
+  const { cameraMode } = animation;
 
   const handleDurationChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseInt(e.target.value, 10);
-    setAnimationDuration(value);
+    const value = parseFloat(e.target.value);
+    if (Number.isFinite(value) && value > 0) setAnimationDuration(value);
   };
 
   const handlePlayPause = () => {
@@ -88,78 +120,126 @@ export function AnimationPanel() {
             </button>
           </div>
 
-          {/* Progress Slider */}
-          <div className="animation-progress">
+          {/* Timeline: scrubbing, retiming and keyframes */}
+          <Timeline />
+
+          {/* Timing: totals, automatic duration and per-stop times */}
+          <div className="animation-duration">
             <label className="form-label">
-              Progreso: {progressPercent}%
+              <Clock size={16} />
+              Duración total: {formatSeconds(movingTime + dwellTime)}
             </label>
-            <input
-              type="range"
-              min="0"
-              max="100"
-              value={progressPercent}
-              onChange={handleProgressChange}
-              className="slider"
-            />
+            <div className="timing-summary text-muted">
+              Tramos {formatSeconds(movingTime)}
+              {dwellTime > 0 && <> · Pausas {formatSeconds(dwellTime)}</>}
+            </div>
+            {hasAutomaticSegments && (
+              <div className="duration-slider-container">
+                <span className="duration-label">Tramos automáticos</span>
+                <input
+                  type="number"
+                  min="1"
+                  max="600"
+                  value={animation.duration}
+                  onChange={handleDurationChange}
+                  className="input timing-input"
+                />
+                <span className="duration-label">s</span>
+              </div>
+            )}
           </div>
 
-          {/* Duration Control */}
-          <div className="animation-duration">
+          {/* Timing Model */}
+          <div className="animation-timing">
             <label className="form-label">
-              <Clock size={16} />
-              Duración: {animation.duration}s
+              <Timer size={16} />
+              Reparto del tiempo
             </label>
-            <div className="duration-slider-container">
-              <span className="duration-label">5s</span>
-              <input
-                type="range"
-                min="5"
-                max="30"
-                value={animation.duration}
-                onChange={handleDurationChange}
-                className="slider duration-slider"
-              />
-              <span className="duration-label">30s</span>
+            <select
+              className="select"
+              value={animation.timingModel}
+              onChange={(e) => setTimingModel(e.target.value as TimingModel)}
+            >
+              {TIMING_MODELS.map((model) => (
+                <option key={model} value={model}>
+                  {TIMING_MODEL_LABELS[model]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Easing */}
+          <div className="animation-timing">
+            <label className="form-label">
+              <Spline size={16} />
+              Aceleración
+            </label>
+            <select
+              className="select"
+              value={animation.easing}
+              onChange={(e) => setEasing(e.target.value as Easing)}
+            >
+              {EASINGS.map((easing) => (
+                <option key={easing} value={easing}>
+                  {EASING_LABELS[easing]}
+                </option>
+              ))}
+            </select>
+            <div className="easing-preview-container">
+              <EasingPreview easing={currentEasing} progress={animation.segmentProgress} />
+              <span className="text-muted text-sm">
+                Tramo {animation.currentSegmentIndex + 1}: {EASING_LABELS[currentEasing]}
+                {currentSegment?.easing && ' (propia)'}
+              </span>
             </div>
           </div>
 
-          {/* Camera Follow Toggle */}
-          <div className="animation-camera">
+          {/* Per-stop times (dwells and segment overrides) */}
+          <SegmentTimingList />
+
+          {/* Camera Mode */}
+          <div className="animation-timing">
             <label className="form-label">
-              {animation.cameraFollow ? <Video size={16} /> : <VideoOff size={16} />}
-              Cámara cinemática
+              {animation.cameraMode !== 'off' ? <Video size={16} /> : <VideoOff size={16} />}
+              Cámara
             </label>
-            <button
-              className={`btn btn-sm ${animation.cameraFollow ? 'btn-primary' : 'btn-secondary'}`}
-              onClick={() => setCameraFollow(!animation.cameraFollow)}
+            <select
+              className="select"
+              value={animation.cameraMode}
+              onChange={(e) => setCameraMode(e.target.value as CameraMode)}
               disabled={isPlaying}
-              title={animation.cameraFollow ? 'Desactivar seguimiento de cámara' : 'Activar seguimiento de cámara'}
             >
-              {animation.cameraFollow ? 'Activado' : 'Desactivado'}
-            </button>
+              {CAMERA_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {CAMERA_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+            {route.keyframes?.some((kf) => kf.type === 'camera') && (
+              <span className="text-muted text-sm">Las claves de cámara de la línea de tiempo tienen prioridad</span>
+            )}
           </div>
 
-          {/* Camera Zoom Control (only when camera follow is on) */}
-          {animation.cameraFollow && (
-            <div className="animation-camera-zoom">
-              <label className="form-label">
-                <ZoomIn size={16} />
-                Acercamiento: +{animation.cameraZoomExtra}
-              </label>
-              <div className="duration-slider-container">
-                <span className="duration-label">Lejos</span>
+          {/* Camera Mode Parameters */}
+          {cameraMode !== 'off' && CAMERA_PARAM_FIELDS[cameraMode].map(({ key, label, min, max, step, unit }) => {
+            const value = (animation.cameraParams[cameraMode] as Record<string, number>)[key];
+            return (
+              <div key={`${cameraMode}-${key}`} className="animation-camera-zoom">
+                <label className="form-label">
+                  {label}: {key === 'zoomExtra' ? `+${value}` : value}{unit && ` ${unit}`}
+                </label>
                 <input
                   type="range"
-                  min="0"
-                  max="8"
-                  value={animation.cameraZoomExtra}
-                  onChange={(e) => setCameraZoomExtra(parseInt(e.target.value, 10))}
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={value}
+                  onChange={(e) => setCameraParams(cameraMode, { [key]: parseFloat(e.target.value) })}
                   className="slider duration-slider"
                 />
-                <span className="duration-label">Cerca</span>
               </div>
-            </div>
-          )}
+            );
+          })}
 
           {/* Animation Info */}
           <div className="animation-info">
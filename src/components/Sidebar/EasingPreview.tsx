@@ -0,0 +1,42 @@
+import { Easing } from '@/types';
+import { applyEasing } from '@/utils/easing';
+
+/**
+ * Easing curve preview (inline SVG)
+ *
+ * Features:
+ * - Distance travelled (vertical) against segment time (horizontal)
+ * - Dashed diagonal for linear motion as a reference
+ * - Optional marker at the current segment progress
+ */
+
+interface EasingPreviewProps {
+  easing: Easing;
+  progress?: number; // 0-1 time progress within the segment
+  size?: number;
+}
+
+const PADDING = 6;
+const SAMPLES = 48;
+
+export function EasingPreview({ easing, progress, size = 96 }: EasingPreviewProps) {
+  const inner = size - PADDING * 2;
+  const x = (t: number) => PADDING + t * inner;
+  const y = (value: number) => PADDING + (1 - value) * inner;
+
+  const curve = Array.from({ length: SAMPLES + 1 }, (_, i) => {
+    const t = i / SAMPLES;
+    return `${x(t).toFixed(1)},${y(applyEasing(easing, t)).toFixed(1)}`;
+  }).join(' L');
+
+  return (
+    <svg className="easing-preview" width={size} height={size} viewBox={`0 0 ${size} ${size}`} role="img">
+      <rect x={PADDING} y={PADDING} width={inner} height={inner} className="easing-preview-frame" />
+      <path d={`M${x(0)},${y(0)} L${x(1)},${y(1)}`} className="easing-preview-reference" />
+      <path d={`M${curve}`} className="easing-preview-curve" />
+      {progress !== undefined && (
+        <circle cx={x(progress)} cy={y(applyEasing(easing, progress))} r={3.5} className="easing-preview-marker" />
+      )}
+    </svg>
+  );
+}
@@ -0,0 +1,62 @@
+import { DistanceUnit } from '@/types';
+import { ElevationProfile } from '@/hooks/useRouteStats';
+import { formatDistance } from '@/utils/format';
+
+/**
+ * Elevation profile chart (inline SVG)
+ *
+ * Features:
+ * - Area chart of elevation against distance along the route
+ * - Gaps where non-ground segments (flights, ferries) interrupt the profile
+ * - Min/max elevation and total route distance labels
+ */
+
+interface ElevationChartProps {
+  profile: ElevationProfile;
+  distanceUnit: DistanceUnit;
+  width?: number;
+  height?: number;
+}
+
+const PADDING = { top: 8, right: 4, bottom: 4, left: 4 };
+
+export function ElevationChart({ profile, distanceUnit, width = 280, height = 120 }: ElevationChartProps) {
+  const { points, min, max } = profile;
+  const totalDistance = points[points.length - 1].distance;
+  const range = Math.max(1, max - min);
+
+  const x = (distance: number) =>
+    PADDING.left + (distance / Math.max(1, totalDistance)) * (width - PADDING.left - PADDING.right);
+  const y = (elevation: number) =>
+    PADDING.top + (1 - (elevation - min) / range) * (height - PADDING.top - PADDING.bottom);
+
+  // One area per segment so gaps between ground segments stay empty
+  const runs: typeof points[] = [];
+  points.forEach((point, i) => {
+    if (i === 0 || point.segmentIndex !== points[i - 1].segmentIndex) runs.push([]);
+    runs[runs.length - 1].push(point);
+  });
+
+  const baseline = height - PADDING.bottom;
+
+  return (
+    <div className="elevation-chart">
+      <svg width="100%" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" role="img">
+        {runs.map((run, i) => {
+          const line = run.map((p) => `${x(p.distance).toFixed(1)},${y(p.elevation).toFixed(1)}`).join(' L');
+          const area = `M${x(run[0].distance).toFixed(1)},${baseline} L${line} L${x(run[run.length - 1].distance).toFixed(1)},${baseline} Z`;
+          return (
+            <g key={i}>
+              <path d={area} className="elevation-area" />
+              <path d={`M${line}`} className="elevation-line" />
+            </g>
+          );
+        })}
+      </svg>
+      <div className="elevation-axis">
+        <span>{Math.round(min)} – {Math.round(max)} m</span>
+        <span>{formatDistance(totalDistance, distanceUnit)}</span>
+      </div>
+    </div>
+  );
+}
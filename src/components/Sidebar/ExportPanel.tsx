@@ -1,156 +1,95 @@
-import { useState, useRef, useCallback } from 'react';
 import { useRouteStore } from '@/store/routeStore';
-import { useAnimation } from '@/hooks/useAnimation';
-import { EXPORT_QUALITY_PRESETS } from '@/config/map';
-import { ExportConfig } from '@/types';
+import { useVideoExport } from '@/hooks/useVideoExport';
+import {
+  EXPORT_ASPECT_PRESETS,
+  EXPORT_MAX_SIZE,
+  EXPORT_MIN_SIZE,
+  EXPORT_QUALITY_LABELS,
+  EXPORT_QUALITY_PRESETS,
+} from '@/config/map';
+import { Dithering, ExportAspect, ExportConfig, ExportQuality } from '@/types';
+import { getAnimationTimeline } from '@/utils/timing';
+import { getFrameCount } from '@/utils/exportRenderer';
+import { estimateFileSize, getExportFps, isAnimatedImage, supportsWebCodecs } from '@/utils/encoders';
+import { formatFileSize, formatTimecode } from '@/utils/format';
+import { getExportSize } from '@/utils/exportSize';
+import { ExportError } from '@/utils/exportError';
 import { 
-  Download, 
   Film,
-  Loader2
+  Loader2,
+  X
 } from 'lucide-react';
 
 /**
  * Video export panel
  * 
- * Uses Canvas + MediaRecorder for client-side video generation
+ * Renders the animation frame by frame (see useVideoExport), so the
+ * video is smooth at any FPS regardless of how fast the machine is
  * 
- * Limitations:
- * - Only WebM supported natively (MP4 needs transcoding)
- * - Quality depends on browser support
- * - May be slow for long animations
+ * Formats:
+ * - MP4 (H.264) with WebCodecs, or ffmpeg.wasm where WebCodecs is missing
+ * - WebM with MediaRecorder (takes at least as long as the animation)
+ * - GIF and APNG, quantized per frame with optional dithering; they
+ *   skip frames to stay a manageable size
+ * - PNG sequence in a ZIP with a JSON timing sidecar, optionally with a
+ *   transparent background, for video editors
+ * 
+ * Sizes: aspect presets (landscape, vertical, square, 4:5) at 480p to
+ * 4K, or a custom size. While the panel is open the live map shows the
+ * export framing.
  * 
- * TODO: Add server-side encoding for better format support
  * TODO: Add preview before export
  */
 
-export function ExportPanel() {
-  const { route, exportConfig, setExportConfig, ui, setExporting } = useRouteStore();
-  const { play, stop, progress } = useAnimation();
-  
-  const [isExporting, setIsExportingLocal] = useState(false);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-
-  const hasRoute = route && route.segments.length > 0;
-
-  const handleConfigChange = (key: keyof ExportConfig, value: any) => {
-    setExportConfig({ [key]: value });
-  };
-
-  const handleExport = useCallback(async () => {
-    if (!hasRoute) return;
-
-    const mapContainer = document.getElementById('map-container');
-    if (!mapContainer) return;
-
-    // Find the map canvas
-    const mapCanvas = mapContainer.querySelector('canvas');
-    if (!mapCanvas) {
-      console.error('Could not find map canvas');
-      return;
-    }
-
-    setIsExportingLocal(true);
-    setExporting(true, 0);
-
-    try {
-      const preset = EXPORT_QUALITY_PRESETS[exportConfig.quality];
-      
-      // Create export canvas
-      const exportCanvas = document.createElement('canvas');
-      exportCanvas.width = preset.width;
-      exportCanvas.height = preset.height;
-      const ctx = exportCanvas.getContext('2d');
-
-      if (!ctx) {
-        throw new Error('Could not get canvas context');
-      }
-
-      // Setup MediaRecorder
-      const stream = exportCanvas.captureStream(exportConfig.fps);
-      const mimeType = 'video/webm;codecs=vp9';
-
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: MediaRecorder.isTypeSupported(mimeType) ? mimeType : 'video/webm',
-        videoBitsPerSecond: preset.bitrate,
-      });
-
-      chunksRef.current = [];
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
-        }
-      };
-
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-        downloadBlob(blob, `${route?.name || 'route'}-animation.webm`);
-        setIsExportingLocal(false);
-        setExporting(false);
-        stop();
-      };
-
-      mediaRecorderRef.current = mediaRecorder;
-      mediaRecorder.start(100);
-
-      // Start animation and capture frames
-      stop(); // Reset animation
-      play();
-
-      const captureFrame = () => {
-        // Draw map canvas to export canvas (scaled)
-        ctx.drawImage(
-          mapCanvas,
-          0, 0, mapCanvas.width, mapCanvas.height,
-          0, 0, preset.width, preset.height
-        );
-
-        // Update progress
-        setExporting(true, progress);
-      };
+// User-facing message for a failed export
+function describeExportError(error: Error): string {
+  if (!(error instanceof ExportError)) {
+    return `La exportación falló (${error.message}).`;
+  }
+  switch (error.code) {
+    case 'map':
+      return 'No se pudo cargar el mapa para la exportación. Revisa la conexión y el token de Mapbox.';
+    case 'encoder':
+      return 'El navegador no pudo codificar el video con este formato o tamaño. Prueba otro formato o una calidad menor.';
+    case 'encoder-load':
+      return 'No se pudo descargar el codificador de MP4 (ffmpeg.wasm). Revisa la conexión o exporta en WebM.';
+    case 'too-large':
+      return 'La exportación es demasiado grande para el navegador. Reduce el tamaño, los FPS o la duración.';
+  }
+}
 
-      // Capture loop
-      const frameInterval = 1000 / exportConfig.fps;
-      const captureInterval = setInterval(() => {
-        captureFrame();
+const DITHERING_LABELS: Record<Dithering, string> = {
+  none: 'Ninguno',
+  ordered: 'Ordenado',
+  'floyd-steinberg': 'Floyd–Steinberg',
+};
 
-        // Check if animation is complete
-        if (progress >= 0.99) {
-          clearInterval(captureInterval);
-          setTimeout(() => {
-            mediaRecorder.stop();
-          }, 500); // Small delay to capture final frames
-        }
-      }, frameInterval);
+const LOOP_OPTIONS = [0, 1, 2, 3, 5];
 
-      // Safety timeout (max 5 minutes)
-      setTimeout(() => {
-        if (mediaRecorder.state !== 'inactive') {
-          clearInterval(captureInterval);
-          mediaRecorder.stop();
-        }
-      }, 300000);
+export function ExportPanel() {
+  const { route, animation, exportConfig, setExportConfig, ui } = useRouteStore();
+  const { exportVideo, cancelExport, exportError, clearExportError } = useVideoExport();
 
-    } catch (error) {
-      console.error('Export error:', error);
-      setIsExportingLocal(false);
-      setExporting(false);
-    }
-  }, [hasRoute, exportConfig, route, play, stop, progress, setExporting]);
+  const hasRoute = route && route.segments.length > 0;
+  const isExporting = ui.isExporting;
+  const totalDuration = route ? getAnimationTimeline(route, animation).totalDuration : 0;
 
-  const downloadBlob = (blob: Blob, filename: string) => {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleConfigChange = <K extends keyof ExportConfig>(key: K, value: ExportConfig[K]) => {
+    setExportConfig({ [key]: value });
   };
 
-  const qualityInfo = EXPORT_QUALITY_PRESETS[exportConfig.quality];
+  const qualityInfo = getExportSize(exportConfig);
+  const isCustomSize = exportConfig.aspect === 'custom';
+  const isImage = isAnimatedImage(exportConfig.format);
+  const outputFps = getExportFps(exportConfig);
+  const frameCount = route ? getFrameCount(route, animation, outputFps) : 0;
+  const estimatedSize = estimateFileSize(
+    exportConfig,
+    qualityInfo.width,
+    qualityInfo.height,
+    frameCount,
+    qualityInfo.bitrate
+  );
 
   return (
     <div className="panel export-panel">
@@ -168,6 +107,18 @@ export function ExportPanel() {
           <div className="form-group">
             <label className="form-label">Formato</label>
             <div className="radio-group">
+              <label className="radio-label">
+                <input
+                  type="radio"
+                  name="format"
+                  value="mp4"
+                  checked={exportConfig.format === 'mp4'}
+                  onChange={() => handleConfigChange('format', 'mp4')}
+                  disabled={isExporting}
+                />
+                <span>MP4 (H.264)</span>
+                <span className="badge badge-success">Recomendado</span>
+              </label>
               <label className="radio-label">
                 <input
                   type="radio"
@@ -175,47 +126,125 @@ export function ExportPanel() {
                   value="webm"
                   checked={exportConfig.format === 'webm'}
                   onChange={() => handleConfigChange('format', 'webm')}
+                  disabled={isExporting}
                 />
                 <span>WebM</span>
-                <span className="badge badge-success">Recomendado</span>
               </label>
-              <label className="radio-label disabled">
+              <label className="radio-label">
                 <input
                   type="radio"
                   name="format"
-                  value="mp4"
-                  disabled
+                  value="gif"
+                  checked={exportConfig.format === 'gif'}
+                  onChange={() => handleConfigChange('format', 'gif')}
+                  disabled={isExporting}
+                />
+                <span>GIF animado</span>
+              </label>
+              <label className="radio-label">
+                <input
+                  type="radio"
+                  name="format"
+                  value="apng"
+                  checked={exportConfig.format === 'apng'}
+                  onChange={() => handleConfigChange('format', 'apng')}
+                  disabled={isExporting}
                 />
-                <span>MP4</span>
-                <span className="badge badge-muted">Próximamente</span>
+                <span>APNG</span>
+              </label>
+              <label className="radio-label">
+                <input
+                  type="radio"
+                  name="format"
+                  value="png-sequence"
+                  checked={exportConfig.format === 'png-sequence'}
+                  onChange={() => handleConfigChange('format', 'png-sequence')}
+                  disabled={isExporting}
+                />
+                <span>Secuencia PNG (ZIP)</span>
+                <span className="badge badge-muted">Edición</span>
               </label>
             </div>
+            {exportConfig.format === 'mp4' && !supportsWebCodecs() && (
+              <p className="text-muted text-sm">
+                Tu navegador no tiene WebCodecs: el MP4 se codificará con ffmpeg.wasm (más lento)
+              </p>
+            )}
           </div>
 
-          {/* Quality Selection */}
+          {/* Aspect Selection */}
           <div className="form-group">
-            <label className="form-label">Calidad</label>
-            <div className="quality-options">
-              {(['low', 'medium', 'high'] as const).map((quality) => {
-                const preset = EXPORT_QUALITY_PRESETS[quality];
-                return (
-                  <button
-                    key={quality}
-                    className={`quality-btn ${exportConfig.quality === quality ? 'active' : ''}`}
-                    onClick={() => handleConfigChange('quality', quality)}
-                  >
-                    <span className="quality-name">
-                      {quality === 'low' ? 'Baja' : quality === 'medium' ? 'Media' : 'Alta'}
-                    </span>
-                    <span className="quality-resolution">
-                      {preset.width}x{preset.height}
-                    </span>
-                  </button>
-                );
-              })}
-            </div>
+            <label className="form-label">Proporción</label>
+            <select
+              className="select"
+              value={exportConfig.aspect}
+              onChange={(e) => handleConfigChange('aspect', e.target.value as ExportAspect)}
+              disabled={isExporting}
+            >
+              {(Object.keys(EXPORT_ASPECT_PRESETS) as ExportAspect[]).map((aspect) => (
+                <option key={aspect} value={aspect}>
+                  {EXPORT_ASPECT_PRESETS[aspect].label}
+                </option>
+              ))}
+            </select>
           </div>
 
+          {/* Quality Selection */}
+          {isCustomSize ? (
+            <div className="form-group">
+              <label className="form-label">Tamaño (px)</label>
+              <div className="custom-size">
+                <input
+                  type="number"
+                  className="input"
+                  min={EXPORT_MIN_SIZE}
+                  max={EXPORT_MAX_SIZE}
+                  step={2}
+                  value={exportConfig.width}
+                  onChange={(e) => handleConfigChange('width', parseInt(e.target.value) || 0)}
+                  onBlur={() => handleConfigChange('width', qualityInfo.width)}
+                  disabled={isExporting}
+                  aria-label="Ancho"
+                />
+                <span className="text-muted">x</span>
+                <input
+                  type="number"
+                  className="input"
+                  min={EXPORT_MIN_SIZE}
+                  max={EXPORT_MAX_SIZE}
+                  step={2}
+                  value={exportConfig.height}
+                  onChange={(e) => handleConfigChange('height', parseInt(e.target.value) || 0)}
+                  onBlur={() => handleConfigChange('height', qualityInfo.height)}
+                  disabled={isExporting}
+                  aria-label="Alto"
+                />
+              </div>
+            </div>
+          ) : (
+            <div className="form-group">
+              <label className="form-label">Calidad</label>
+              <div className="quality-options">
+                {(Object.keys(EXPORT_QUALITY_PRESETS) as ExportQuality[]).map((quality) => {
+                  const preset = getExportSize({ ...exportConfig, quality });
+                  return (
+                    <button
+                      key={quality}
+                      className={`quality-btn ${exportConfig.quality === quality ? 'active' : ''}`}
+                      onClick={() => handleConfigChange('quality', quality)}
+                      disabled={isExporting}
+                    >
+                      <span className="quality-name">{EXPORT_QUALITY_LABELS[quality]}</span>
+                      <span className="quality-resolution">
+                        {preset.width}x{preset.height}
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
           {/* FPS Selection */}
           <div className="form-group">
             <label className="form-label">FPS</label>
@@ -230,6 +259,85 @@ export function ExportPanel() {
             </select>
           </div>
 
+          {/* Animated image options */}
+          {isImage && (
+            <div className="form-group image-options">
+              <div className="image-option">
+                <label className="form-label">Colores: {exportConfig.colors}</label>
+                <input
+                  type="range"
+                  className="slider"
+                  min={16}
+                  max={256}
+                  step={16}
+                  value={exportConfig.colors}
+                  onChange={(e) => handleConfigChange('colors', parseInt(e.target.value))}
+                  disabled={isExporting}
+                />
+              </div>
+
+              <label className="form-label">Tramado</label>
+              <select
+                className="select"
+                value={exportConfig.dithering}
+                onChange={(e) => handleConfigChange('dithering', e.target.value as Dithering)}
+                disabled={isExporting}
+              >
+                {(Object.keys(DITHERING_LABELS) as Dithering[]).map((dithering) => (
+                  <option key={dithering} value={dithering}>
+                    {DITHERING_LABELS[dithering]}
+                  </option>
+                ))}
+              </select>
+
+              <label className="form-label">Fotogramas</label>
+              <select
+                className="select"
+                value={exportConfig.frameSkip}
+                onChange={(e) => handleConfigChange('frameSkip', parseInt(e.target.value))}
+                disabled={isExporting}
+              >
+                {[1, 2, 3, 4].map((skip) => (
+                  <option key={skip} value={skip}>
+                    {skip === 1 ? 'Todos' : `1 de cada ${skip}`} ({+(exportConfig.fps / skip).toFixed(1)} fps)
+                  </option>
+                ))}
+              </select>
+
+              <label className="form-label">Repeticiones</label>
+              <select
+                className="select"
+                value={exportConfig.loopCount}
+                onChange={(e) => handleConfigChange('loopCount', parseInt(e.target.value))}
+                disabled={isExporting}
+              >
+                {LOOP_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count === 0 ? 'Infinito' : count === 1 ? 'Una vez' : `${count} veces`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Image sequence options */}
+          {exportConfig.format === 'png-sequence' && (
+            <div className="form-group">
+              <label className="radio-label">
+                <input
+                  type="checkbox"
+                  checked={exportConfig.transparentBackground}
+                  onChange={(e) => handleConfigChange('transparentBackground', e.target.checked)}
+                  disabled={isExporting}
+                />
+                <span>Fondo transparente (solo ruta y vehículo)</span>
+              </label>
+              <p className="text-muted text-sm">
+                Incluye timing.json con los tiempos y fotogramas de cada punto y tramo
+              </p>
+            </div>
+          )}
+
           {/* Export Info */}
           <div className="export-info">
             <div className="info-row">
@@ -237,15 +345,25 @@ export function ExportPanel() {
               <span>{qualityInfo.width} x {qualityInfo.height}</span>
             </div>
             <div className="info-row">
-              <span>Bitrate:</span>
-              <span>{(qualityInfo.bitrate / 1000000).toFixed(1)} Mbps</span>
+              <span>Duración:</span>
+              <span>{formatTimecode(totalDuration)} · {frameCount} fotogramas</span>
+            </div>
+            {!isImage && (
+              <div className="info-row">
+                <span>Bitrate:</span>
+                <span>{(qualityInfo.bitrate / 1000000).toFixed(1)} Mbps</span>
+              </div>
+            )}
+            <div className="info-row">
+              <span>Tamaño estimado:</span>
+              <span>~{formatFileSize(estimatedSize)}</span>
             </div>
           </div>
 
           {/* Export Button */}
           <button
             className="btn btn-primary btn-export"
-            onClick={handleExport}
+            onClick={exportVideo}
             disabled={isExporting}
           >
             {isExporting ? (
@@ -262,11 +380,26 @@ export function ExportPanel() {
           </button>
 
           {isExporting && (
-            <div className="export-progress">
-              <div 
-                className="export-progress-bar"
-                style={{ width: `${ui.exportProgress * 100}%` }}
-              />
+            <>
+              <div className="export-progress">
+                <div 
+                  className="export-progress-bar"
+                  style={{ width: `${ui.exportProgress * 100}%` }}
+                />
+              </div>
+              <button className="btn btn-secondary btn-sm" onClick={cancelExport}>
+                <X size={16} />
+                Cancelar
+              </button>
+            </>
+          )}
+
+          {exportError && !isExporting && (
+            <div className="info-box info-box-error">
+              <p>{describeExportError(exportError)}</p>
+              <button className="info-box-dismiss" onClick={clearExportError} title="Cerrar">
+                <X size={16} />
+              </button>
             </div>
           )}
 
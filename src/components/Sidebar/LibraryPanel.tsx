@@ -0,0 +1,218 @@
+import { useEffect, useState } from 'react';
+import { useRouteStore } from '@/store/routeStore';
+import { captureMapThumbnail } from '@/utils/routeLibrary';
+import { RouteValidationError } from '@/utils/routeSchema';
+import { LibraryEntry } from '@/types';
+import {
+  Library,
+  Save,
+  FolderOpen,
+  Copy,
+  Pencil,
+  Trash2,
+  Check,
+  X,
+  ImageOff,
+  Loader2
+} from 'lucide-react';
+
+/**
+ * Route library panel
+ *
+ * Features:
+ * - List saved routes with thumbnail, waypoint count and last-modified date
+ * - Save the current route (stored in IndexedDB, no localStorage quota)
+ * - Open, duplicate, rename and delete saved routes
+ */
+
+export function LibraryPanel() {
+  const {
+    route,
+    library,
+    refreshLibrary,
+    saveRouteToLibrary,
+    openLibraryRoute,
+    duplicateLibraryRoute,
+    renameLibraryRoute,
+    deleteLibraryRoute,
+    setLibraryError,
+    setActivePanel,
+  } = useRouteStore();
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  useEffect(() => {
+    refreshLibrary();
+  }, [refreshLibrary]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveRouteToLibrary(captureMapThumbnail());
+    } catch (error) {
+      console.error('Error saving route to library:', error);
+      setLibraryError('No se pudo guardar la ruta en la biblioteca');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleOpen = async (entry: LibraryEntry) => {
+    try {
+      await openLibraryRoute(entry.id);
+      setActivePanel('waypoints');
+    } catch (error) {
+      console.error('Error opening library route:', error);
+      setLibraryError(
+        error instanceof RouteValidationError
+          ? `La ruta guardada no es válida: ${error.issues[0]?.path}: ${error.issues[0]?.message}`
+          : `No se pudo abrir "${entry.name}"`
+      );
+    }
+  };
+
+  const handleDuplicate = async (entry: LibraryEntry) => {
+    try {
+      await duplicateLibraryRoute(entry.id);
+    } catch (error) {
+      console.error('Error duplicating library route:', error);
+      setLibraryError(`No se pudo duplicar "${entry.name}"`);
+    }
+  };
+
+  const startRename = (entry: LibraryEntry) => {
+    setRenamingId(entry.id);
+    setRenameValue(entry.name);
+  };
+
+  const confirmRename = async () => {
+    const name = renameValue.trim();
+    if (renamingId && name) {
+      try {
+        await renameLibraryRoute(renamingId, name);
+      } catch (error) {
+        console.error('Error renaming library route:', error);
+        setLibraryError('No se pudo renombrar la ruta');
+      }
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (entry: LibraryEntry) => {
+    if (!confirm(`¿Eliminar "${entry.name}" de la biblioteca?`)) return;
+    try {
+      await deleteLibraryRoute(entry.id);
+    } catch (error) {
+      console.error('Error deleting library route:', error);
+      setLibraryError(`No se pudo eliminar "${entry.name}"`);
+    }
+  };
+
+  return (
+    <div className="panel library-panel">
+      <div className="panel-header">
+        <h2>Biblioteca</h2>
+        <span className="badge">{library.entries.length} rutas</span>
+      </div>
+
+      <button
+        className="btn btn-primary"
+        onClick={handleSave}
+        disabled={!route || isSaving}
+      >
+        {isSaving ? <Loader2 size={18} className="spinning" /> : <Save size={18} />}
+        Guardar ruta actual
+      </button>
+
+      {library.error && (
+        <div className="info-box info-box-error">
+          <p>{library.error}</p>
+          <button className="info-box-dismiss" onClick={() => setLibraryError(null)} title="Cerrar">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
+      {library.isLoading && library.entries.length === 0 ? (
+        <div className="panel-message">
+          <Loader2 size={24} className="spinning" />
+        </div>
+      ) : library.entries.length === 0 ? (
+        <div className="panel-empty">
+          <Library size={48} className="panel-empty-icon" />
+          <h3>Biblioteca vacía</h3>
+          <p>Guarda tu ruta para poder abrirla más tarde</p>
+        </div>
+      ) : (
+        <ul className="library-list">
+          {library.entries.map((entry) => {
+            const isRenaming = renamingId === entry.id;
+            const isOpen = route?.id === entry.id;
+
+            return (
+              <li key={entry.id} className={`library-item ${isOpen ? 'active' : ''}`}>
+                <div className="library-thumbnail">
+                  {entry.thumbnail ? (
+                    <img src={entry.thumbnail} alt="" />
+                  ) : (
+                    <ImageOff size={20} />
+                  )}
+                </div>
+
+                <div className="library-item-content">
+                  {isRenaming ? (
+                    <input
+                      className="library-rename-input"
+                      value={renameValue}
+                      autoFocus
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') confirmRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                    />
+                  ) : (
+                    <span className="library-item-name">{entry.name}</span>
+                  )}
+                  <span className="library-item-meta">
+                    {entry.waypointCount} puntos · {entry.updatedAt.toLocaleString()}
+                  </span>
+                </div>
+
+                <div className="segment-actions">
+                  {isRenaming ? (
+                    <>
+                      <button className="btn-segment-action" onClick={confirmRename} title="Confirmar">
+                        <Check size={14} />
+                      </button>
+                      <button className="btn-segment-action" onClick={() => setRenamingId(null)} title="Cancelar">
+                        <X size={14} />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button className="btn-segment-action" onClick={() => handleOpen(entry)} title="Abrir">
+                        <FolderOpen size={14} />
+                      </button>
+                      <button className="btn-segment-action" onClick={() => handleDuplicate(entry)} title="Duplicar">
+                        <Copy size={14} />
+                      </button>
+                      <button className="btn-segment-action" onClick={() => startRename(entry)} title="Renombrar">
+                        <Pencil size={14} />
+                      </button>
+                      <button className="btn-segment-action" onClick={() => handleDelete(entry)} title="Eliminar">
+                        <Trash2 size={14} />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Text input for a number of seconds
+ *
+ * Commits on blur/Enter (not on every keystroke) so each edit is a single
+ * store update and a single undo step. Empty input commits undefined.
+ */
+
+interface SecondsInputProps {
+  value: number | undefined;
+  placeholder?: string;
+  onCommit: (value: number | undefined) => void;
+  title: string;
+}
+
+export function SecondsInput({ value, placeholder, onCommit, title }: SecondsInputProps) {
+  const [text, setText] = useState(value !== undefined ? String(value) : '');
+
+  useEffect(() => {
+    setText(value !== undefined ? String(value) : '');
+  }, [value]);
+
+  const commit = () => {
+    const parsed = parseFloat(text.replace(',', '.'));
+    const next = text.trim() === '' || !Number.isFinite(parsed) ? undefined : Math.max(0, parsed);
+    if (next !== value) onCommit(next);
+    else setText(value !== undefined ? String(value) : '');
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      className="input timing-input"
+      value={text}
+      placeholder={placeholder}
+      title={title}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+      }}
+    />
+  );
+}
@@ -0,0 +1,93 @@
+import { useRouteStore } from '@/store/routeStore';
+import { getTransportConfig } from '@/config/transport';
+import { EASING_LABELS, EASINGS } from '@/config/animation';
+import { Easing } from '@/types';
+import { getAnimationTimeline } from '@/utils/timing';
+import { SecondsInput } from './SecondsInput';
+import { Hourglass, RotateCcw } from 'lucide-react';
+
+/**
+ * Per-stop animation timing
+ *
+ * Features:
+ * - Dwell time (pause) at each waypoint
+ * - Fixed time per segment, or automatic (shares the animation duration
+ *   according to the timing model)
+ * - Easing per segment, or the global one
+ * - Values are committed on blur/Enter so each edit is one undo step
+ */
+
+export function SegmentTimingList() {
+  const {
+    route,
+    animation,
+    setSegmentAnimationDuration,
+    setWaypointDwell,
+    setSegmentEasing,
+  } = useRouteStore();
+  if (!route) return null;
+
+  const { segmentDurations } = getAnimationTimeline(route, animation);
+
+  return (
+    <ul className="timing-list">
+      {route.waypoints.map((waypoint, index) => {
+        const segment = route.segments[index];
+        const config = segment ? getTransportConfig(segment.transportMode) : null;
+
+        return (
+          <li key={waypoint.id}>
+            <div className="timing-row timing-row-waypoint">
+              <span className="timing-row-label">{waypoint.label || `Punto ${index + 1}`}</span>
+              <Hourglass size={12} className="text-muted" />
+              <SecondsInput
+                value={waypoint.dwell}
+                placeholder="0"
+                title="Pausa en este punto (segundos)"
+                onCommit={(seconds) => setWaypointDwell(waypoint.id, seconds ?? 0)}
+              />
+              <span className="duration-label">s</span>
+            </div>
+
+            {segment && config && (
+              <div className="timing-row timing-row-segment">
+                <span className="timing-row-label">
+                  {config.icon} {config.label}
+                </span>
+                <select
+                  className="select timing-easing"
+                  value={segment.easing ?? ''}
+                  onChange={(e) => setSegmentEasing(segment.id, (e.target.value || undefined) as Easing | undefined)}
+                  title="Aceleración del tramo"
+                >
+                  <option value="">Global</option>
+                  {EASINGS.map((easing) => (
+                    <option key={easing} value={easing}>
+                      {EASING_LABELS[easing]}
+                    </option>
+                  ))}
+                </select>
+                {segment.animationDuration !== undefined && (
+                  <button
+                    className="btn-segment-action"
+                    onClick={() => setSegmentAnimationDuration(segment.id, undefined)}
+                    title="Volver a tiempo automático"
+                  >
+                    <RotateCcw size={12} />
+                  </button>
+                )}
+                <SecondsInput
+                  value={segment.animationDuration}
+                  placeholder={segmentDurations[index].toFixed(1)}
+                  title="Tiempo del tramo en segundos (vacío = automático)"
+                  onCommit={(seconds) => setSegmentAnimationDuration(segment.id, seconds)}
+                />
+                <span className="duration-label">s</span>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -1,11 +1,23 @@
 import { useRouteStore } from '@/store/routeStore';
 import { MAP_STYLE_LABELS } from '@/config/map';
-import { MapStyle } from '@/types';
+import { ROUTING_PROVIDER_LABELS } from '@/config/routing';
+import { DistanceUnit, MapStyle, RoutingProviderId } from '@/types';
+import { getRouteTotals } from '@/utils/metrics';
+import { formatDistance, formatDuration } from '@/utils/format';
+import { parseGpx, serializeGpx } from '@/utils/gpx';
+import { serializeKml } from '@/utils/kml';
+import { isGeoJson, parseGeoJson, routeToGeoJson } from '@/utils/geojson';
+import { downloadBlob, toFileName } from '@/utils/download';
+import { parseRouteFile, serializeRoute, RouteValidationError } from '@/utils/routeSchema';
+import { deleteStoredNetwork, NetworkKind, parseNetworkFile, putStoredNetwork } from '@/utils/networkStorage';
+import { clearNetworkCache } from '@/services/routing';
 import { 
   Map, 
   Trash2,
   Save,
-  Upload
+  Upload,
+  FileDown,
+  Navigation
 } from 'lucide-react';
 
 /**
@@ -13,11 +25,17 @@ import {
  * 
  * Features:
  * - Map style selection
- * - Save/Load route (localStorage for MVP)
+ * - Distance units (km/mi)
+ * - Routing provider (Mapbox or self-hosted OSRM) and rail/sea networks
+ *   (by URL or from a local file)
+ * - Flight arc curvature (great circle plus optional altitude bow)
+ * - Download/Load route as JSON (saved routes live in the Library tab)
+ * - Import GPX tracks and waypoints
+ * - Export to GPX (Garmin) and KML (Google Earth)
+ * - GeoJSON import/export (QGIS, geojson.io)
  * - Clear route
  * 
  * TODO: Add cloud storage integration
- * TODO: Add multiple saved routes
  */
 
 const MAP_STYLES: MapStyle[] = [
@@ -29,11 +47,39 @@ const MAP_STYLES: MapStyle[] = [
   'satellite-streets'
 ];
 
+interface NetworkField {
+  kind: NetworkKind;
+  urlKey: 'railNetworkUrl' | 'marineNetworkUrl';
+  fileKey: 'railNetworkFile' | 'marineNetworkFile';
+  placeholder: string;
+  title: string;
+}
+
+const NETWORK_FIELDS: NetworkField[] = [
+  {
+    kind: 'rail',
+    urlKey: 'railNetworkUrl',
+    fileKey: 'railNetworkFile',
+    placeholder: 'Red ferroviaria GeoJSON (URL)',
+    title: 'URL de una red ferroviaria GeoJSON para los tramos en tren',
+  },
+  {
+    kind: 'ferry',
+    urlKey: 'marineNetworkUrl',
+    fileKey: 'marineNetworkFile',
+    placeholder: 'Rutas marítimas GeoJSON (URL)',
+    title: 'URL de una red de rutas marítimas GeoJSON para los tramos en ferry',
+  },
+];
+
 export function SettingsPanel() {
   const { 
     route, 
     mapConfig, 
     setMapStyle, 
+    setDistanceUnit,
+    routingConfig,
+    setRoutingConfig,
     clearRoute,
     loadRoute 
   } = useRouteStore();
@@ -45,23 +91,34 @@ export function SettingsPanel() {
   const handleSaveRoute = () => {
     if (!route) return;
     
-    const routeJson = JSON.stringify(route);
-    localStorage.setItem('savedRoute', routeJson);
-    
-    // Also offer download
+    const routeJson = serializeRoute(route);
     const blob = new Blob([routeJson], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${route.name || 'route'}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadBlob(blob, `${route.name || 'route'}.json`);
+  };
+
+  const handleExportGpx = () => {
+    if (!route) return;
+    const blob = new Blob([serializeGpx(route)], { type: 'application/gpx+xml' });
+    downloadBlob(blob, `${toFileName(route.name)}.gpx`);
+  };
+
+  const handleExportKml = () => {
+    if (!route) return;
+    const blob = new Blob([serializeKml(route)], { type: 'application/vnd.google-earth.kml+xml' });
+    downloadBlob(blob, `${toFileName(route.name)}.kml`);
+  };
+
+  const handleExportGeoJson = () => {
+    if (!route) return;
+    const json = JSON.stringify(routeToGeoJson(route), null, 2);
+    const blob = new Blob([json], { type: 'application/geo+json' });
+    downloadBlob(blob, `${toFileName(route.name)}.geojson`);
   };
 
   const handleLoadRoute = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.json';
+    input.accept = '.json,.gpx,.geojson';
     
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
@@ -69,31 +126,84 @@ export function SettingsPanel() {
 
       try {
         const text = await file.text();
+
+        if (file.name.toLowerCase().endsWith('.gpx')) {
+          loadRoute(parseGpx(text, file.name.replace(/\.gpx$/i, '')));
+          return;
+        }
+
         const routeData = JSON.parse(text);
-        
-        // Basic validation
-        if (routeData.waypoints && routeData.segments) {
-          loadRoute({
-            ...routeData,
-            createdAt: new Date(routeData.createdAt),
-            updatedAt: new Date(),
-          });
+        const baseName = file.name.replace(/\.(geo)?json$/i, '');
+
+        if (isGeoJson(routeData)) {
+          loadRoute(parseGeoJson(routeData, baseName));
+          return;
         }
+        
+        // Migrates older files and rejects malformed ones
+        loadRoute({
+          ...parseRouteFile(routeData),
+          updatedAt: new Date(),
+        });
       } catch (error) {
         console.error('Error loading route:', error);
-        alert('Error al cargar el archivo. Asegúrate de que sea un archivo de ruta válido.');
+        if (error instanceof RouteValidationError) {
+          const details = error.issues
+            .slice(0, 5)
+            .map((issue) => `• ${issue.path}: ${issue.message}`)
+            .join('\n');
+          const more = error.issues.length > 5 ? `\n… y ${error.issues.length - 5} errores más` : '';
+          alert(`El archivo de ruta no es válido:\n${details}${more}`);
+        } else {
+          alert('Error al cargar el archivo. Asegúrate de que sea un archivo de ruta válido.');
+        }
       }
     };
 
     input.click();
   };
 
+  const handleLoadNetwork = ({ kind, fileKey }: NetworkField) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.geojson,.json';
+
+    input.onchange = async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const collection = parseNetworkFile(await file.text());
+        await putStoredNetwork(kind, file.name, collection);
+        clearNetworkCache();
+        setRoutingConfig({ [fileKey]: file.name });
+      } catch (error) {
+        console.error('Error loading network:', error);
+        alert('No se pudo cargar la red. Debe ser un GeoJSON FeatureCollection con líneas.');
+      }
+    };
+
+    input.click();
+  };
+
+  const handleRemoveNetwork = async ({ kind, fileKey }: NetworkField) => {
+    try {
+      await deleteStoredNetwork(kind);
+    } catch (error) {
+      console.error('Error removing network:', error);
+    }
+    clearNetworkCache();
+    setRoutingConfig({ [fileKey]: '' });
+  };
+
   const handleClearRoute = () => {
     if (confirm('¿Estás seguro de que quieres borrar la ruta actual?')) {
       clearRoute();
     }
   };
 
+  const totals = route ? getRouteTotals(route) : null;
+
   return (
     <div className="panel settings-panel">
       <div className="panel-header">
@@ -120,6 +230,95 @@ export function SettingsPanel() {
         </div>
       </div>
 
+      {/* Distance Units */}
+      <div className="form-group">
+        <label className="form-label">Unidades de distancia</label>
+        <select
+          className="select"
+          value={mapConfig.distanceUnit}
+          onChange={(e) => setDistanceUnit(e.target.value as DistanceUnit)}
+        >
+          <option value="km">Kilómetros (km)</option>
+          <option value="mi">Millas (mi)</option>
+        </select>
+      </div>
+
+      {/* Routing Provider */}
+      <div className="form-group">
+        <label className="form-label">
+          <Navigation size={16} />
+          Proveedor de Rutas
+        </label>
+        <select
+          className="select"
+          value={routingConfig.provider}
+          onChange={(e) => setRoutingConfig({ provider: e.target.value as RoutingProviderId })}
+        >
+          {(Object.keys(ROUTING_PROVIDER_LABELS) as RoutingProviderId[]).map((provider) => (
+            <option key={provider} value={provider}>
+              {ROUTING_PROVIDER_LABELS[provider]}
+            </option>
+          ))}
+        </select>
+        {routingConfig.provider === 'osrm' && (
+          <input
+            type="url"
+            className="input"
+            placeholder="http://localhost:5000"
+            value={routingConfig.osrmBaseUrl}
+            onChange={(e) => setRoutingConfig({ osrmBaseUrl: e.target.value })}
+            title="URL base del servidor OSRM"
+          />
+        )}
+        {NETWORK_FIELDS.map((field) =>
+          routingConfig[field.fileKey] ? (
+            <div key={field.kind} className="network-file">
+              <span className="network-file-name" title={field.title}>
+                {routingConfig[field.fileKey]}
+              </span>
+              <button className="btn btn-secondary btn-sm" onClick={() => handleRemoveNetwork(field)}>
+                Quitar
+              </button>
+            </div>
+          ) : (
+            <div key={field.kind} className="network-file">
+              <input
+                type="url"
+                className="input"
+                placeholder={field.placeholder}
+                value={routingConfig[field.urlKey]}
+                onChange={(e) => setRoutingConfig({ [field.urlKey]: e.target.value.trim() })}
+                title={field.title}
+              />
+              <button
+                className="btn btn-secondary btn-sm"
+                onClick={() => handleLoadNetwork(field)}
+                title="Cargar la red desde un archivo GeoJSON"
+              >
+                <Upload size={16} />
+                Archivo
+              </button>
+            </div>
+          )
+        )}
+        <label className="form-label">
+          Curvatura de vuelos: {Math.round(routingConfig.flightCurvature * 100)}%
+        </label>
+        <div className="duration-slider-container">
+          <span className="duration-label">Geodésica</span>
+          <input
+            type="range"
+            min="0"
+            max="0.3"
+            step="0.01"
+            value={routingConfig.flightCurvature}
+            onChange={(e) => setRoutingConfig({ flightCurvature: parseFloat(e.target.value) })}
+            className="slider duration-slider"
+          />
+          <span className="duration-label">Arco</span>
+        </div>
+      </div>
+
       {/* Route Management */}
       <div className="form-group">
         <label className="form-label">Gestión de Ruta</label>
@@ -131,9 +330,41 @@ export function SettingsPanel() {
             disabled={!route}
           >
             <Save size={18} />
-            Guardar Ruta
+            Descargar Ruta (JSON)
           </button>
 
+          <div className="button-row">
+            <button
+              className="btn btn-secondary"
+              onClick={handleExportGpx}
+              disabled={!route}
+              title="Exportar para dispositivos Garmin"
+            >
+              <FileDown size={18} />
+              GPX
+            </button>
+
+            <button
+              className="btn btn-secondary"
+              onClick={handleExportKml}
+              disabled={!route}
+              title="Exportar para Google Earth"
+            >
+              <FileDown size={18} />
+              KML
+            </button>
+
+            <button
+              className="btn btn-secondary"
+              onClick={handleExportGeoJson}
+              disabled={!route}
+              title="Exportar para QGIS / geojson.io"
+            >
+              <FileDown size={18} />
+              GeoJSON
+            </button>
+          </div>
+
           <button
             className="btn btn-secondary"
             onClick={handleLoadRoute}
@@ -154,7 +385,7 @@ export function SettingsPanel() {
       </div>
 
       {/* Route Info */}
-      {route && (
+      {route && totals && (
         <div className="route-info">
           <h3>Información de la Ruta</h3>
           <div className="info-row">
@@ -169,6 +400,14 @@ export function SettingsPanel() {
             <span>Segmentos:</span>
             <span>{route.segments.length}</span>
           </div>
+          <div className="info-row">
+            <span>Distancia:</span>
+            <span>{formatDistance(totals.distance, mapConfig.distanceUnit)}</span>
+          </div>
+          <div className="info-row">
+            <span>Duración:</span>
+            <span>{formatDuration(totals.duration)}</span>
+          </div>
           <div className="info-row">
             <span>Creada:</span>
             <span>{new Date(route.createdAt).toLocaleDateString()}</span>
@@ -183,7 +422,6 @@ export function SettingsPanel() {
           <li>☁️ Almacenamiento en la nube</li>
           <li>👥 Compartir rutas</li>
           <li>🎨 Estilos de mapa personalizados</li>
-          <li>📊 Estadísticas de ruta</li>
         </ul>
       </div>
     </div>
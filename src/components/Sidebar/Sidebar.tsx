@@ -1,12 +1,17 @@
 import { useRouteStore } from '@/store/routeStore';
 import { WaypointPanel } from './WaypointPanel';
+import { LibraryPanel } from './LibraryPanel';
 import { AnimationPanel } from './AnimationPanel';
 import { ExportPanel } from './ExportPanel';
+import { StatsPanel } from './StatsPanel';
 import { SettingsPanel } from './SettingsPanel';
+import { AutosaveIndicator } from '@/components/Session';
 import { 
   MapPin, 
+  Library,
   Play, 
   Download, 
+  BarChart3,
   Settings, 
   ChevronLeft,
   ChevronRight 
@@ -18,8 +23,10 @@ import {
 
 const TABS = [
   { id: 'waypoints', label: 'Puntos', icon: MapPin },
+  { id: 'library', label: 'Biblioteca', icon: Library },
   { id: 'animation', label: 'Animación', icon: Play },
   { id: 'export', label: 'Exportar', icon: Download },
+  { id: 'stats', label: 'Estadísticas', icon: BarChart3 },
   { id: 'settings', label: 'Ajustes', icon: Settings },
 ] as const;
 
@@ -31,10 +38,14 @@ export function Sidebar() {
     switch (activePanel) {
       case 'waypoints':
         return <WaypointPanel />;
+      case 'library':
+        return <LibraryPanel />;
       case 'animation':
         return <AnimationPanel />;
       case 'export':
         return <ExportPanel />;
+      case 'stats':
+        return <StatsPanel />;
       case 'settings':
         return <SettingsPanel />;
       default:
@@ -71,6 +82,10 @@ export function Sidebar() {
           <div className="sidebar-content">
             {renderPanel()}
           </div>
+
+          <div className="sidebar-footer">
+            <AutosaveIndicator />
+          </div>
         </>
       ) : (
         /* Collapsed sidebar - show vertical icon buttons */
@@ -0,0 +1,149 @@
+import { useRouteStore } from '@/store/routeStore';
+import { useRouteStats } from '@/hooks/useRouteStats';
+import { TRANSPORT_CONFIGS } from '@/config/transport';
+import { formatDistance, formatDuration, formatDistanceAndDuration } from '@/utils/format';
+import { ElevationChart } from './ElevationChart';
+import {
+  BarChart3,
+  Globe,
+  Leaf,
+  Mountain,
+  Loader2
+} from 'lucide-react';
+
+/**
+ * Route statistics panel
+ *
+ * Features:
+ * - Total distance, duration, stops and longest leg
+ * - Distance, time and CO2 estimate per transport mode
+ * - Countries crossed (reverse geocoding along the route)
+ * - Elevation profile for ground segments (Terrain-RGB DEM)
+ */
+
+function formatCo2(kg: number): string {
+  return kg >= 1000
+    ? `${(kg / 1000).toLocaleString(undefined, { maximumFractionDigits: 1 })} t CO₂`
+    : `${Math.round(kg).toLocaleString()} kg CO₂`;
+}
+
+export function StatsPanel() {
+  const { route, mapConfig } = useRouteStore();
+  const { stats, countries, elevation } = useRouteStats(route);
+  const unit = mapConfig.distanceUnit;
+
+  if (!route || !stats || route.segments.length === 0) {
+    return (
+      <div className="panel-empty">
+        <BarChart3 size={48} className="panel-empty-icon" />
+        <h3>Sin estadísticas</h3>
+        <p>Añade al menos dos puntos a la ruta para ver sus estadísticas</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="panel stats-panel">
+      <div className="panel-header">
+        <h2>Estadísticas</h2>
+      </div>
+
+      {/* Summary */}
+      <div className="stats-grid">
+        <div className="stats-card">
+          <span className="stats-value">{formatDistance(stats.distance, unit)}</span>
+          <span className="stats-label">Distancia</span>
+        </div>
+        <div className="stats-card">
+          <span className="stats-value">{formatDuration(stats.duration)}</span>
+          <span className="stats-label">Duración</span>
+        </div>
+        <div className="stats-card">
+          <span className="stats-value">{stats.stops}</span>
+          <span className="stats-label">Paradas</span>
+        </div>
+        <div className="stats-card">
+          <span className="stats-value">{formatCo2(stats.co2)}</span>
+          <span className="stats-label">Emisiones</span>
+        </div>
+      </div>
+
+      {stats.longestLeg && (
+        <div className="route-info">
+          <h3>Tramo más largo</h3>
+          <div className="info-row">
+            <span>{stats.longestLeg.from} → {stats.longestLeg.to}</span>
+            <span>{formatDistance(stats.longestLeg.distance, unit)}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Per-mode breakdown */}
+      <div className="route-info">
+        <h3>Por medio de transporte</h3>
+        {stats.byMode.map((mode) => {
+          const config = TRANSPORT_CONFIGS[mode.mode];
+          return (
+            <div key={mode.mode} className="stats-mode-row">
+              <span className="stats-mode-name" style={{ borderColor: config.color }}>
+                {config.icon} {config.label}
+              </span>
+              <span className="stats-mode-values">
+                {formatDistanceAndDuration(mode.distance, mode.duration, unit)}
+                <span className="stats-mode-co2">
+                  <Leaf size={12} />
+                  {formatCo2(mode.co2)}
+                </span>
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Countries */}
+      <div className="route-info">
+        <h3>
+          <Globe size={14} />
+          Países
+        </h3>
+        {countries.isLoading ? (
+          <Loader2 size={16} className="spinning" />
+        ) : countries.error ? (
+          <p className="text-muted">{countries.error}</p>
+        ) : (
+          <div className="stats-countries">
+            {countries.value?.map((country) => (
+              <span key={country.code} className="badge" title={country.code}>
+                {country.name}
+              </span>
+            ))}
+            {countries.value?.length === 0 && <span className="text-muted">Ninguno</span>}
+          </div>
+        )}
+      </div>
+
+      {/* Elevation profile */}
+      <div className="route-info">
+        <h3>
+          <Mountain size={14} />
+          Perfil de elevación
+        </h3>
+        {elevation.isLoading ? (
+          <Loader2 size={16} className="spinning" />
+        ) : elevation.error ? (
+          <p className="text-muted">{elevation.error}</p>
+        ) : elevation.value ? (
+          <>
+            <ElevationChart profile={elevation.value} distanceUnit={unit} />
+            <div className="info-row">
+              <span>Desnivel:</span>
+              <span>+{Math.round(elevation.value.ascent)} m / −{Math.round(elevation.value.descent)} m</span>
+            </div>
+          </>
+        ) : (
+          <p className="text-muted">Solo disponible para tramos terrestres</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+import { useEffect, useRef, useState } from 'react';
+import { useRouteStore } from '@/store/routeStore';
+import { getTransportConfig } from '@/config/transport';
+import { Keyframe } from '@/types';
+import { getAnimationTimeline } from '@/utils/timing';
+import { formatTimecode } from '@/utils/format';
+import { generateId } from '@/utils/id';
+import { getActiveMap, getMapCamera } from '@/components/Map/mapInstance';
+import { SecondsInput } from './SecondsInput';
+import { Camera, Type, Eye, RefreshCw, Trash2, LocateFixed } from 'lucide-react';
+
+/**
+ * Animation timeline editor
+ *
+ * Features:
+ * - Segment clips sized by their animation time, dwell pauses as gaps
+ * - Drag a clip's right edge to retime the segment, or the handle at the
+ *   top of a stop to change its dwell time
+ * - Camera and label keyframes on their own track (drag to move); a
+ *   camera keyframe can follow the vehicle until the next one
+ * - Click or drag anywhere else to scrub: it goes through the same store
+ *   actions as playback, so the map updates live
+ *
+ * Each drag is one undo step (history batch). The time scale is frozen
+ * while dragging so handles stay under the pointer as the total changes.
+ */
+
+const MIN_CLIP_SECONDS = 0.1;
+const MIN_TICK_SPACING = 44; // px
+const TICK_STEPS = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300];
+const LABEL_DEFAULT_DURATION = 3;
+
+type DragTarget =
+  | { kind: 'scrub' }
+  | { kind: 'segment'; id: string; start: number }
+  | { kind: 'dwell'; id: string; start: number }
+  | { kind: 'keyframe'; id: string; offset: number };
+
+interface ActiveDrag {
+  target: DragTarget;
+  pxPerSecond: number;
+}
+
+const roundTenth = (seconds: number) => Math.round(seconds * 10) / 10;
+
+export function Timeline() {
+  const {
+    route,
+    animation,
+    setAnimationProgress,
+    pauseAnimation,
+    setSegmentAnimationDuration,
+    setWaypointDwell,
+    addKeyframe,
+    updateKeyframe,
+    removeKeyframe,
+    beginHistoryBatch,
+    endHistoryBatch,
+  } = useRouteStore();
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [viewportWidth, setViewportWidth] = useState(300);
+  const [drag, setDrag] = useState<ActiveDrag | null>(null);
+  const [selectedKeyframeId, setSelectedKeyframeId] = useState<string | null>(null);
+
+  const hasSegments = !!route && route.segments.length > 0;
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const observer = new ResizeObserver(() => setViewportWidth(viewport.clientWidth));
+    observer.observe(viewport);
+    setViewportWidth(viewport.clientWidth);
+    return () => observer.disconnect();
+  }, [hasSegments]);
+
+  if (!route || !hasSegments) return null;
+
+  const { segmentDurations, totalDuration } = getAnimationTimeline(route, animation);
+  const pxPerSecond = drag?.pxPerSecond ?? viewportWidth / Math.max(totalDuration, MIN_CLIP_SECONDS);
+  const currentTime = animation.currentProgress * totalDuration;
+  const keyframes = route.keyframes ?? [];
+  const selectedKeyframe = keyframes.find((kf) => kf.id === selectedKeyframeId);
+
+  // Layout in seconds: [dwell 0][segment 0][dwell 1][segment 1]...[dwell N]
+  let cursor = 0;
+  const stops = route.waypoints.map((waypoint, i) => {
+    const dwellStart = cursor;
+    cursor += waypoint.dwell ?? 0;
+    const segment = route.segments[i];
+    const segmentStart = cursor;
+    if (segment) cursor += segmentDurations[i];
+    return { waypoint, dwellStart, dwellEnd: segmentStart, segment, segmentStart, segmentEnd: cursor };
+  });
+
+  const tickStep = TICK_STEPS.find((step) => step * pxPerSecond >= MIN_TICK_SPACING) ?? 600;
+  const ticks = Array.from({ length: Math.floor(totalDuration / tickStep) + 1 }, (_, i) => i * tickStep);
+
+  const timeAt = (clientX: number) => {
+    const left = contentRef.current?.getBoundingClientRect().left ?? 0;
+    return (clientX - left) / pxPerSecond;
+  };
+
+  const scrubTo = (time: number) => {
+    if (totalDuration <= 0) return;
+    setAnimationProgress(Math.max(0, Math.min(1, time / totalDuration)));
+  };
+
+  const applyDrag = (target: DragTarget, time: number) => {
+    switch (target.kind) {
+      case 'scrub':
+        scrubTo(time);
+        break;
+      case 'segment':
+        setSegmentAnimationDuration(target.id, roundTenth(Math.max(MIN_CLIP_SECONDS, time - target.start)));
+        break;
+      case 'dwell':
+        setWaypointDwell(target.id, roundTenth(Math.max(0, time - target.start)));
+        break;
+      case 'keyframe':
+        updateKeyframe(target.id, { time: roundTenth(Math.max(0, Math.min(totalDuration, time - target.offset))) });
+        break;
+    }
+  };
+
+  const startDrag = (e: React.PointerEvent, target: DragTarget) => {
+    e.stopPropagation();
+    e.preventDefault();
+    contentRef.current?.setPointerCapture(e.pointerId);
+    if (animation.isPlaying) pauseAnimation();
+    if (target.kind !== 'scrub') beginHistoryBatch();
+    setDrag({ target, pxPerSecond });
+    if (target.kind === 'scrub') scrubTo(timeAt(e.clientX));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (drag) applyDrag(drag.target, timeAt(e.clientX));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!drag) return;
+    contentRef.current?.releasePointerCapture(e.pointerId);
+    if (drag.target.kind !== 'scrub') endHistoryBatch();
+    setDrag(null);
+  };
+
+  const addCameraKeyframe = () => {
+    const camera = getMapCamera();
+    if (!camera) return;
+    const keyframe: Keyframe = { id: generateId(), type: 'camera', time: roundTenth(currentTime), camera };
+    addKeyframe(keyframe);
+    setSelectedKeyframeId(keyframe.id);
+  };
+
+  const addLabelKeyframe = () => {
+    const keyframe: Keyframe = {
+      id: generateId(),
+      type: 'label',
+      time: roundTenth(currentTime),
+      text: route.name,
+      duration: LABEL_DEFAULT_DURATION,
+    };
+    addKeyframe(keyframe);
+    setSelectedKeyframeId(keyframe.id);
+  };
+
+  const x = (seconds: number) => seconds * pxPerSecond;
+
+  return (
+    <div className="timeline">
+      <div className="timeline-toolbar">
+        <button className="btn-segment-action" onClick={addCameraKeyframe} title="Añadir clave de cámara (vista actual)">
+          <Camera size={14} />
+        </button>
+        <button className="btn-segment-action" onClick={addLabelKeyframe} title="Añadir texto">
+          <Type size={14} />
+        </button>
+        <span className="timeline-time">
+          {formatTimecode(currentTime)} / {formatTimecode(totalDuration)}
+        </span>
+      </div>
+
+      <div className="timeline-viewport" ref={viewportRef}>
+        <div
+          ref={contentRef}
+          className="timeline-content"
+          style={{ width: Math.max(viewportWidth, x(totalDuration)) }}
+          onPointerDown={(e) => startDrag(e, { kind: 'scrub' })}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          {/* Ruler */}
+          <div className="timeline-ruler">
+            {ticks.map((tick) => (
+              <span key={tick} className="timeline-tick" style={{ left: x(tick) }}>
+                {tickStep < 1 ? tick.toFixed(1) : Math.round(tick)}s
+              </span>
+            ))}
+          </div>
+
+          {/* Segment clips and dwell gaps */}
+          <div className="timeline-track timeline-clips">
+            {stops.map(({ waypoint, dwellStart, dwellEnd, segment, segmentStart, segmentEnd }, i) => (
+              <div key={waypoint.id}>
+                {dwellEnd > dwellStart && (
+                  <div
+                    className="timeline-dwell"
+                    style={{ left: x(dwellStart), width: x(dwellEnd - dwellStart) }}
+                    title={`Pausa en ${waypoint.label || `Punto ${i + 1}`}: ${formatTimecode(dwellEnd - dwellStart)}`}
+                  />
+                )}
+                <div
+                  className="timeline-dwell-handle"
+                  style={{ left: x(dwellEnd) }}
+                  title="Arrastra para cambiar la pausa"
+                  onPointerDown={(e) => startDrag(e, { kind: 'dwell', id: waypoint.id, start: dwellStart })}
+                />
+                {segment && (
+                  <div
+                    className={`timeline-clip ${segment.animationDuration !== undefined ? 'fixed' : ''}`}
+                    style={{
+                      left: x(segmentStart),
+                      width: x(segmentEnd - segmentStart),
+                      background: getTransportConfig(segment.transportMode).color,
+                    }}
+                    title={`${getTransportConfig(segment.transportMode).label}: ${formatTimecode(segmentEnd - segmentStart)}`}
+                  >
+                    <span className="timeline-clip-icon">{getTransportConfig(segment.transportMode).icon}</span>
+                    <div
+                      className="timeline-clip-handle"
+                      title="Arrastra para cambiar la duración del tramo"
+                      onPointerDown={(e) => startDrag(e, { kind: 'segment', id: segment.id, start: segmentStart })}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Keyframes */}
+          <div className="timeline-track timeline-keyframes">
+            {keyframes.map((kf) => (
+              <div
+                key={kf.id}
+                className={`timeline-keyframe timeline-keyframe-${kf.type} ${kf.id === selectedKeyframeId ? 'selected' : ''}`}
+                style={{
+                  left: x(kf.time),
+                  width: kf.type === 'label' ? Math.max(8, x(kf.duration)) : undefined,
+                }}
+                title={kf.type === 'camera' ? 'Cámara' : kf.text}
+                onPointerDown={(e) => {
+                  setSelectedKeyframeId(kf.id);
+                  startDrag(e, { kind: 'keyframe', id: kf.id, offset: timeAt(e.clientX) - kf.time });
+                }}
+              >
+                {kf.type === 'camera' ? <Camera size={10} /> : <Type size={10} />}
+              </div>
+            ))}
+          </div>
+
+          <div className="timeline-playhead" style={{ left: x(currentTime) }} />
+        </div>
+      </div>
+
+      {/* Selected keyframe */}
+      {selectedKeyframe?.type === 'camera' && (
+        <div className="timeline-keyframe-editor">
+          <span className="text-sm">Cámara en {formatTimecode(selectedKeyframe.time)}</span>
+          <button
+            className="btn-segment-action"
+            onClick={() => getActiveMap()?.jumpTo(selectedKeyframe.camera)}
+            title="Ver esta toma"
+          >
+            <Eye size={14} />
+          </button>
+          <button
+            className="btn-segment-action"
+            onClick={() => {
+              const camera = getMapCamera();
+              if (camera) updateKeyframe(selectedKeyframe.id, { camera });
+            }}
+            title="Usar la vista actual"
+          >
+            <RefreshCw size={14} />
+          </button>
+          <button
+            className={`btn-segment-action ${selectedKeyframe.followVehicle ? 'active' : ''}`}
+            onClick={() => updateKeyframe(selectedKeyframe.id, { followVehicle: !selectedKeyframe.followVehicle })}
+            title="Seguir al vehículo hasta la siguiente clave"
+          >
+            <LocateFixed size={14} />
+          </button>
+          <button
+            className="btn-segment-action"
+            onClick={() => removeKeyframe(selectedKeyframe.id)}
+            title="Eliminar"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      )}
+
+      {selectedKeyframe?.type === 'label' && (
+        <div className="timeline-keyframe-editor">
+          <input
+            key={selectedKeyframe.id}
+            className="input timeline-label-input"
+            defaultValue={selectedKeyframe.text}
+            placeholder="Texto"
+            onBlur={(e) => {
+              if (e.target.value !== selectedKeyframe.text) {
+                updateKeyframe(selectedKeyframe.id, { text: e.target.value });
+              }
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+            }}
+          />
+          <SecondsInput
+            value={selectedKeyframe.duration}
+            title="Segundos en pantalla"
+            onCommit={(seconds) => updateKeyframe(selectedKeyframe.id, { duration: seconds ?? LABEL_DEFAULT_DURATION })}
+          />
+          <span className="duration-label">s</span>
+          <button
+            className="btn-segment-action"
+            onClick={() => removeKeyframe(selectedKeyframe.id)}
+            title="Eliminar"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
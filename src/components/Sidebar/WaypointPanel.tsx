@@ -1,6 +1,9 @@
 import { useState, useRef, useEffect } from 'react';
-import { useRouteStore } from '@/store/routeStore';
+import { useRouteStore, SegmentUpdate } from '@/store/routeStore';
 import { useRouting } from '@/hooks/useRouting';
+import { RoutingError } from '@/services/routing';
+import { getRouteTotals, getSegmentMetrics } from '@/utils/metrics';
+import { formatDistanceAndDuration } from '@/utils/format';
 import { TRANSPORT_CONFIGS, TRANSPORT_MODES } from '@/config/transport';
 import { MAPBOX_ACCESS_TOKEN } from '@/config/map';
 import { TransportMode, Coordinates } from '@/types';
@@ -30,8 +33,38 @@ import {
  * - Reorder waypoints (drag & drop could be added)
  * - Change transport mode per segment
  * - Fetch actual routes
+ * - Distance/duration per segment and route totals
  */
 
+// User-facing message for a failed routing request
+function describeRoutingError(error: unknown): string {
+  if (!(error instanceof RoutingError)) {
+    return 'No se pudo calcular la ruta.';
+  }
+  switch (error.code) {
+    case 'network':
+      return 'No se pudo conectar con el servicio de rutas. Revisa la configuración del proveedor.';
+    case 'invalid-response':
+      if (error.provider === 'rail' || error.provider === 'ferry') {
+        return 'La red cargada no es un GeoJSON FeatureCollection válido. Revísala en Ajustes → Proveedor de Rutas.';
+      }
+      return 'El servicio de rutas devolvió una respuesta no válida. Revisa la URL del proveedor.';
+    case 'no-route':
+      return 'No se encontró una ruta entre estos puntos.';
+    case 'unsupported-mode':
+      return 'El proveedor de rutas no admite este medio de transporte.';
+    case 'network-required':
+      return error.provider === 'ferry'
+        ? 'Los tramos en ferry necesitan una red de rutas marítimas. Cárgala en Ajustes → Proveedor de Rutas.'
+        : 'Los tramos en tren necesitan una red ferroviaria. Cárgala en Ajustes → Proveedor de Rutas.';
+    default:
+      return `El servicio de rutas respondió con un error (${error.message}).`;
+  }
+}
+
+// Routing results arrived for a route that was edited, undone or replaced
+const STALE_ROUTE_MESSAGE = 'La ruta cambió mientras se calculaba. Vuelve a calcularla.';
+
 interface SearchResult {
   id: string;
   place_name: string;
@@ -42,6 +75,7 @@ interface SearchResult {
 export function WaypointPanel() {
   const {
     route,
+    mapConfig,
     editMode,
     setEditMode,
     createRoute,
@@ -53,12 +87,14 @@ export function WaypointPanel() {
     selectSegment,
     updateSegmentTransport,
     updateSegmentPath,
+    applySegmentUpdates,
   } = useRouteStore();
 
   const { fetchRoute } = useRouting();
   const [isLoadingRoute, setIsLoadingRoute] = useState(false);
   const [loadingSegmentId, setLoadingSegmentId] = useState<string | null>(null);
   const [expandedTransportId, setExpandedTransportId] = useState<string | null>(null);
+  const [routingError, setRoutingError] = useState<string | null>(null);
   
   // Search state
   const [searchQuery, setSearchQuery] = useState('');
@@ -100,7 +136,7 @@ export function WaypointPanel() {
       if (!response.ok) throw new Error('Search failed');
       
       const data = await response.json();
-      setSearchResults(data.features.map((f: any) => ({
+      setSearchResults(data.features.map((f: SearchResult) => ({
         id: f.id,
         place_name: f.place_name,
         center: f.center as Coordinates,
@@ -158,24 +194,34 @@ export function WaypointPanel() {
     if (!route || route.segments.length === 0) return;
 
     setIsLoadingRoute(true);
+    setRoutingError(null);
+    // Results are applied together, as a single undo step, to the route
+    // they were computed for
+    const base = route;
+    const updates: SegmentUpdate[] = [];
 
     try {
-      for (const segment of route.segments) {
-        const startWp = route.waypoints.find(wp => wp.id === segment.startWaypointId);
-        const endWp = route.waypoints.find(wp => wp.id === segment.endWaypointId);
+      for (const segment of base.segments) {
+        const startWp = base.waypoints.find(wp => wp.id === segment.startWaypointId);
+        const endWp = base.waypoints.find(wp => wp.id === segment.endWaypointId);
 
         if (startWp && endWp) {
-          const path = await fetchRoute(
+          const { path, distance, duration } = await fetchRoute(
             startWp.coordinates,
             endWp.coordinates,
             segment.transportMode
           );
-          updateSegmentPath(segment.id, path);
+          updates.push({ segmentId: segment.id, path, metrics: { distance, duration } });
         }
       }
     } catch (error) {
       console.error('Error fetching routes:', error);
+      setRoutingError(describeRoutingError(error));
     } finally {
+      // Segments routed before an error are kept
+      if (updates.length > 0 && !applySegmentUpdates(base, updates)) {
+        setRoutingError(STALE_ROUTE_MESSAGE);
+      }
       setIsLoadingRoute(false);
     }
   };
@@ -191,29 +237,38 @@ export function WaypointPanel() {
     const changingToPlane = mode === 'plane' && previousMode !== 'plane';
     const changingFromPlane = mode !== 'plane' && previousMode === 'plane';
 
-    // Update transport mode first
-    updateSegmentTransport(segmentId, mode);
-
     const startWp = route.waypoints.find(wp => wp.id === segment.startWaypointId);
     const endWp = route.waypoints.find(wp => wp.id === segment.endWaypointId);
 
-    if (!startWp || !endWp) return;
+    if (!startWp || !endWp || (!changingToPlane && !changingFromPlane)) {
+      updateSegmentTransport(segmentId, mode);
+      return;
+    }
 
-    if (changingToPlane) {
-      // Changing to plane: calculate arc path automatically
-      setLoadingSegmentId(segmentId);
-      try {
-        const path = await fetchRoute(startWp.coordinates, endWp.coordinates, mode);
-        updateSegmentPath(segmentId, path);
-      } catch (error) {
-        console.error('Error calculating flight path:', error);
-      } finally {
-        setLoadingSegmentId(null);
-      }
-    } else if (changingFromPlane) {
+    // Mode change and the path it brings undo together
+    if (changingFromPlane) {
       // Changing from plane to ground: just straight line
       // User can click "Calculate route" button for real route
-      updateSegmentPath(segmentId, [startWp.coordinates, endWp.coordinates]);
+      applySegmentUpdates(route, [
+        { segmentId, transportMode: mode, path: [startWp.coordinates, endWp.coordinates] },
+      ]);
+      return;
+    }
+
+    // Changing to plane: calculate arc path automatically
+    const base = route;
+    let update: SegmentUpdate = { segmentId, transportMode: mode };
+    setLoadingSegmentId(segmentId);
+    try {
+      const { path, distance, duration } = await fetchRoute(startWp.coordinates, endWp.coordinates, mode);
+      update = { ...update, path, metrics: { distance, duration } };
+    } catch (error) {
+      console.error('Error calculating flight path:', error);
+    } finally {
+      setLoadingSegmentId(null);
+    }
+    if (!applySegmentUpdates(base, [update])) {
+      setRoutingError(STALE_ROUTE_MESSAGE);
     }
   };
 
@@ -245,15 +300,19 @@ export function WaypointPanel() {
     if (!startWp || !endWp) return;
 
     setLoadingSegmentId(segmentId);
+    setRoutingError(null);
     try {
-      const path = await fetchRoute(
+      const { path, distance, duration } = await fetchRoute(
         startWp.coordinates,
         endWp.coordinates,
         segment.transportMode
       );
-      updateSegmentPath(segmentId, path);
+      if (!applySegmentUpdates(route, [{ segmentId, path, metrics: { distance, duration } }])) {
+        setRoutingError(STALE_ROUTE_MESSAGE);
+      }
     } catch (error) {
       console.error('Error calculating segment route:', error);
+      setRoutingError(describeRoutingError(error));
     } finally {
       setLoadingSegmentId(null);
     }
@@ -294,6 +353,15 @@ export function WaypointPanel() {
         <span className="badge">{route.waypoints.length} puntos</span>
       </div>
 
+      {route.segments.length > 0 && (() => {
+        const totals = getRouteTotals(route);
+        return (
+          <div className="route-totals" title="Distancia y duración totales">
+            {formatDistanceAndDuration(totals.distance, totals.duration, mapConfig.distanceUnit)}
+          </div>
+        );
+      })()}
+
       {/* Search Places */}
       <div className="search-container" ref={searchRef}>
         <div className="search-input-wrapper">
@@ -364,6 +432,15 @@ export function WaypointPanel() {
         </div>
       )}
 
+      {routingError && (
+        <div className="info-box info-box-error">
+          <p>{routingError}</p>
+          <button className="info-box-dismiss" onClick={() => setRoutingError(null)} title="Cerrar">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       <div className="waypoint-list">
         {route.waypoints.map((waypoint, index) => (
           <div key={waypoint.id} className="waypoint-item-wrapper">
@@ -401,7 +478,9 @@ export function WaypointPanel() {
                 s => s.startWaypointId === waypoint.id
               );
               const isEditing = segment ? isEditingSegment(segment.id) : false;
-              const isGroundTransport = segment?.transportMode !== 'plane';
+              const isGroundTransport = segment
+                ? TRANSPORT_CONFIGS[segment.transportMode].category !== 'air'
+                : false;
               const isLoadingThisSegment = segment?.id === loadingSegmentId;
 
               const isExpanded = expandedTransportId === segment?.id;
@@ -462,7 +541,7 @@ export function WaypointPanel() {
                       )}
                     </div>
                     
-                    {/* Segment action buttons - only for ground transport */}
+                    {/* Segment action buttons - only for ground and water transport */}
                     {isGroundTransport && segment && (
                       <div className="segment-actions">
                         {/* Calculate route for this segment */}
@@ -500,6 +579,15 @@ export function WaypointPanel() {
                         </button>
                       </div>
                     )}
+
+                    {segment && (() => {
+                      const metrics = getSegmentMetrics(segment);
+                      return (
+                        <span className="segment-metrics">
+                          {formatDistanceAndDuration(metrics.distance, metrics.duration, mapConfig.distanceUnit)}
+                        </span>
+                      );
+                    })()}
                   </div>
                   
                   {isEditing && (
@@ -1,5 +1,7 @@
 export { Sidebar } from './Sidebar';
 export { WaypointPanel } from './WaypointPanel';
+export { LibraryPanel } from './LibraryPanel';
 export { AnimationPanel } from './AnimationPanel';
 export { ExportPanel } from './ExportPanel';
+export { StatsPanel } from './StatsPanel';
 export { SettingsPanel } from './SettingsPanel';
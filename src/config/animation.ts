@@ -0,0 +1,64 @@
+import { CameraMode, CameraModeParams, Easing, TimingModel } from '@/types';
+
+/**
+ * Animation configuration
+ */
+
+export const TIMING_MODEL_LABELS: Record<TimingModel, string> = {
+  equal: 'Igual por tramo',
+  distance: 'Según distancia',
+  duration: 'Según duración real',
+  speed: 'Según velocidad del transporte',
+};
+
+export const TIMING_MODELS = Object.keys(TIMING_MODEL_LABELS) as TimingModel[];
+
+export const EASING_LABELS: Record<Easing, string> = {
+  linear: 'Lineal',
+  'ease-in-out': 'Suave (entrada/salida)',
+  cubic: 'Cúbica',
+  'takeoff-landing': 'Despegue/aterrizaje',
+};
+
+export const EASINGS = Object.keys(EASING_LABELS) as Easing[];
+
+export const CAMERA_MODE_LABELS: Record<CameraMode, string> = {
+  off: 'Libre (sin mover)',
+  follow: 'Cinemática (seguir)',
+  overview: 'Vista general',
+  chase: 'Cenital (norte arriba)',
+  orbit: 'Órbita',
+  'segment-fit': 'Encuadre por tramo',
+};
+
+export const CAMERA_MODES = Object.keys(CAMERA_MODE_LABELS) as CameraMode[];
+
+export const DEFAULT_CAMERA_PARAMS: CameraModeParams = {
+  follow: { zoomExtra: 2, pitch: 50 },
+  overview: { padding: 80, pitch: 0, bearing: 0 },
+  chase: { zoomExtra: 2 },
+  orbit: { zoomExtra: 3, pitch: 55, speed: 12 },
+  'segment-fit': { padding: 80, pitch: 30, transition: 1.5 },
+};
+
+export interface CameraParamField {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit?: string;
+}
+
+const ZOOM_EXTRA: CameraParamField = { key: 'zoomExtra', label: 'Acercamiento', min: 0, max: 8, step: 1 };
+const PITCH: CameraParamField = { key: 'pitch', label: 'Inclinación', min: 0, max: 85, step: 5, unit: '°' };
+const PADDING: CameraParamField = { key: 'padding', label: 'Margen', min: 0, max: 300, step: 10, unit: 'px' };
+
+// Controls shown for each mode's parameters (also used to clamp values)
+export const CAMERA_PARAM_FIELDS: { [M in keyof CameraModeParams]: CameraParamField[] } = {
+  follow: [ZOOM_EXTRA, PITCH],
+  overview: [PADDING, PITCH, { key: 'bearing', label: 'Orientación', min: -180, max: 180, step: 15, unit: '°' }],
+  chase: [ZOOM_EXTRA],
+  orbit: [ZOOM_EXTRA, PITCH, { key: 'speed', label: 'Velocidad de giro', min: -60, max: 60, step: 2, unit: '°/s' }],
+  'segment-fit': [PADDING, PITCH, { key: 'transition', label: 'Transición', min: 0, max: 5, step: 0.5, unit: 's' }],
+};
@@ -1,3 +1,5 @@
 export * from './map';
 export * from './transport';
 export * from './capitals';
+export * from './routing';
+export * from './animation';
@@ -1,4 +1,4 @@
-import { MapStyle, Coordinates, ExportConfig } from '@/types';
+import { MapStyle, Coordinates, ExportAspect, ExportConfig, ExportQuality } from '@/types';
 
 /**
  * Mapbox configuration
@@ -35,19 +35,54 @@ export const DEFAULT_MAP_ZOOM = 5;
 // Map bounds for route fitting
 export const FIT_BOUNDS_PADDING = 100;
 
+// ffmpeg.wasm core for MP4 export without WebCodecs. Downloaded only
+// when needed (~32 MB) so it stays out of the build; set
+// VITE_FFMPEG_CORE_URL to self-host the ffmpeg-core.js/.wasm pair.
+export const FFMPEG_CORE_URL =
+  (import.meta.env.VITE_FFMPEG_CORE_URL as string | undefined) ||
+  'https://unpkg.com/@ffmpeg/core@0.12.10/dist/esm';
+
 // Default export configuration
 export const DEFAULT_EXPORT_CONFIG: ExportConfig = {
-  format: 'webm',
+  format: 'mp4',
   quality: 'high',
+  aspect: '16:9',
   fps: 30,
   width: 1920,
   height: 1080,
   includeUI: false,
+  colors: 128,
+  dithering: 'ordered',
+  frameSkip: 2,
+  loopCount: 0,
+  transparentBackground: false,
 };
 
-// Export quality presets
-export const EXPORT_QUALITY_PRESETS = {
+// Export quality presets (16:9; other aspects keep the short side and
+// the bitrate per pixel)
+export const EXPORT_QUALITY_PRESETS: Record<ExportQuality, { width: number; height: number; bitrate: number }> = {
   low: { width: 854, height: 480, bitrate: 1000000 },
   medium: { width: 1280, height: 720, bitrate: 2500000 },
   high: { width: 1920, height: 1080, bitrate: 5000000 },
+  '4k': { width: 3840, height: 2160, bitrate: 20000000 },
+};
+
+export const EXPORT_QUALITY_LABELS: Record<ExportQuality, string> = {
+  low: 'Baja',
+  medium: 'Media',
+  high: 'Alta',
+  '4k': '4K',
 };
+
+// Width:height, null for custom sizes
+export const EXPORT_ASPECT_PRESETS: Record<ExportAspect, { label: string; ratio: [number, number] | null }> = {
+  '16:9': { label: '16:9 Horizontal', ratio: [16, 9] },
+  '9:16': { label: '9:16 Reels / TikTok / Shorts', ratio: [9, 16] },
+  '1:1': { label: '1:1 Cuadrado', ratio: [1, 1] },
+  '4:5': { label: '4:5 Publicación vertical', ratio: [4, 5] },
+  custom: { label: 'Personalizado', ratio: null },
+};
+
+// Custom size limits (px): WebGL canvases beyond 4096 are not reliable
+export const EXPORT_MIN_SIZE = 64;
+export const EXPORT_MAX_SIZE = 4096;
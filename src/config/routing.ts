@@ -0,0 +1,46 @@
+import { RoutingConfig, RoutingProviderId } from '@/types';
+
+/**
+ * Routing provider configuration
+ *
+ * Defaults come from environment variables (see .env.example) and can be
+ * changed at runtime from the settings panel:
+ * - VITE_ROUTING_PROVIDER: 'mapbox' (default) or 'osrm'
+ * - VITE_OSRM_URL: base URL of an OSRM server, e.g. a local container
+ * - VITE_RAIL_NETWORK_URL: rail network GeoJSON used for train segments
+ * - VITE_MARINE_NETWORK_URL: sea lane GeoJSON used for ferry segments
+ *
+ * Networks can also be loaded from a file in the settings. Train and
+ * ferry segments cannot be routed without one.
+ */
+
+export const ROUTING_PROVIDER_LABELS: Record<RoutingProviderId, string> = {
+  mapbox: 'Mapbox',
+  osrm: 'OSRM (propio)',
+};
+
+const envProvider = import.meta.env.VITE_ROUTING_PROVIDER as string | undefined;
+
+export const DEFAULT_ROUTING_CONFIG: RoutingConfig = {
+  provider: envProvider && envProvider in ROUTING_PROVIDER_LABELS
+    ? (envProvider as RoutingProviderId)
+    : 'mapbox',
+  osrmBaseUrl: (import.meta.env.VITE_OSRM_URL as string | undefined) || 'http://localhost:5000',
+  railNetworkUrl: (import.meta.env.VITE_RAIL_NETWORK_URL as string | undefined) || '',
+  marineNetworkUrl: (import.meta.env.VITE_MARINE_NETWORK_URL as string | undefined) || '',
+  railNetworkFile: '',
+  marineNetworkFile: '',
+  flightCurvature: 0.05,
+};
+
+// Waypoints within this distance (meters) of a station start/end there
+export const RAIL_STATION_SNAP_RADIUS = 3000;
+
+// Waypoints further than this (meters) from any track cannot be routed by rail
+export const RAIL_MAX_TRACK_DISTANCE = 30000;
+
+// Waypoints within this distance (meters) of a ferry terminal start/end there
+export const FERRY_PORT_SNAP_RADIUS = 5000;
+
+// Waypoints further than this (meters) from any sea lane cannot be routed by ferry
+export const FERRY_MAX_SEA_LANE_DISTANCE = 200000;
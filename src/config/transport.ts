@@ -3,16 +3,21 @@ import { TransportConfig, TransportMode } from '@/types';
 /**
  * Transport mode configurations
  * 
- * Speed values are relative units for animation (pixels per frame at 60fps)
- * In a real app, these would map to actual speeds for duration calculations
+ * speed is the relative animation speed used by the "speed" timing model
+ * averageSpeed (km/h) estimates durations for segments the router didn't
+ * time, such as hand-drawn paths and flights
+ * co2PerKm are rough per-passenger factors (UK DEFRA 2023 averages)
  */
 export const TRANSPORT_CONFIGS: Record<TransportMode, TransportConfig> = {
   car: {
     mode: 'car',
     label: 'Coche',
     icon: '🚗',
+    category: 'ground',
     color: '#3B82F6', // blue-500
     speed: 2,
+    averageSpeed: 80,
+    co2PerKm: 170,
     lineStyle: 'solid',
     lineWidth: 4,
   },
@@ -20,17 +25,35 @@ export const TRANSPORT_CONFIGS: Record<TransportMode, TransportConfig> = {
     mode: 'motorcycle',
     label: 'Moto',
     icon: '🏍️',
+    category: 'ground',
     color: '#F97316', // orange-500
     speed: 2.5,
+    averageSpeed: 70,
+    co2PerKm: 114,
     lineStyle: 'solid',
     lineWidth: 3,
   },
+  bus: {
+    mode: 'bus',
+    label: 'Autobús',
+    icon: '🚌',
+    category: 'ground',
+    color: '#EAB308', // yellow-500
+    speed: 1.8,
+    averageSpeed: 60,
+    co2PerKm: 100,
+    lineStyle: 'solid',
+    lineWidth: 4,
+  },
   train: {
     mode: 'train',
     label: 'Tren',
     icon: '🚂',
+    category: 'ground',
     color: '#10B981', // emerald-500
     speed: 3,
+    averageSpeed: 120,
+    co2PerKm: 35,
     lineStyle: 'dashed',
     lineWidth: 5,
   },
@@ -38,8 +61,59 @@ export const TRANSPORT_CONFIGS: Record<TransportMode, TransportConfig> = {
     mode: 'plane',
     label: 'Avión',
     icon: '✈️',
+    category: 'air',
     color: '#8B5CF6', // violet-500
     speed: 5,
+    averageSpeed: 800,
+    co2PerKm: 150,
+    lineStyle: 'dashed',
+    lineWidth: 3,
+  },
+  ferry: {
+    mode: 'ferry',
+    label: 'Ferry',
+    icon: '⛴️',
+    category: 'water',
+    color: '#0EA5E9', // sky-500
+    speed: 2,
+    averageSpeed: 30,
+    co2PerKm: 19,
+    lineStyle: 'dashed',
+    lineWidth: 4,
+  },
+  cycling: {
+    mode: 'cycling',
+    label: 'Bicicleta',
+    icon: '🚴',
+    category: 'ground',
+    color: '#14B8A6', // teal-500
+    speed: 1.2,
+    averageSpeed: 18,
+    co2PerKm: 0,
+    lineStyle: 'solid',
+    lineWidth: 3,
+  },
+  walking: {
+    mode: 'walking',
+    label: 'A pie',
+    icon: '🚶',
+    category: 'ground',
+    color: '#EC4899', // pink-500
+    speed: 0.8,
+    averageSpeed: 5,
+    co2PerKm: 0,
+    lineStyle: 'dashed',
+    lineWidth: 3,
+  },
+  hiking: {
+    mode: 'hiking',
+    label: 'Senderismo',
+    icon: '🥾',
+    category: 'ground',
+    color: '#84CC16', // lime-500
+    speed: 0.6,
+    averageSpeed: 4,
+    co2PerKm: 0,
     lineStyle: 'dashed',
     lineWidth: 3,
   },
@@ -49,4 +123,14 @@ export const getTransportConfig = (mode: TransportMode): TransportConfig => {
   return TRANSPORT_CONFIGS[mode];
 };
 
-export const TRANSPORT_MODES: TransportMode[] = ['car', 'motorcycle', 'train', 'plane'];
+export const TRANSPORT_MODES: TransportMode[] = [
+  'car',
+  'motorcycle',
+  'bus',
+  'train',
+  'plane',
+  'ferry',
+  'cycling',
+  'walking',
+  'hiking',
+];
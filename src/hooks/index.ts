@@ -3,3 +3,5 @@ export { useAnimation } from './useAnimation';
 export { useRouting } from './useRouting';
 export { useVideoExport } from './useVideoExport';
 export { useGeoLocation } from './useGeoLocation';
+export { useAutosave } from './useAutosave';
+export { useRouteStats } from './useRouteStats';
@@ -1,48 +1,23 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef } from 'react';
 import { useRouteStore } from '@/store/routeStore';
-import { Coordinates } from '@/types';
-import * as turf from '@turf/turf';
+import { getAnimationTimeline } from '@/utils/timing';
 
 /**
  * Animation hook for route playback
- * 
- * Uses requestAnimationFrame for smooth 60fps animation
- * Calculates marker position along the path using Turf.js
+ *
+ * Uses requestAnimationFrame to advance the animation clock from wall
+ * time: each frame sets the clock to the time elapsed since playback
+ * started, instead of adding up frame deltas, so a slow or dropped frame
+ * never changes where the vehicle is at a given second. What is drawn
+ * at that time comes from frameAt (utils/frame), shared with export.
  */
 
-/**
- * Smooths a path using bezier spline interpolation
- * Only applies to paths with more than 2 points
- */
-function smoothPath(coordinates: Coordinates[], transportMode: string): Coordinates[] {
-  // Don't smooth plane routes (they use arc) or simple 2-point lines
-  if (transportMode === 'plane' || coordinates.length <= 2) {
-    return coordinates;
-  }
-
-  try {
-    const line = turf.lineString(coordinates);
-    const smoothed = turf.bezierSpline(line, { resolution: 10000, sharpness: 0.85 });
-    return smoothed.geometry.coordinates as Coordinates[];
-  } catch (e) {
-    return coordinates;
-  }
-}
-
-export interface AnimationFrame {
-  markerPosition: Coordinates;
-  currentSegmentIndex: number;
-  drawnPath: Coordinates[];
-  progress: number;
-  bearing: number;
-}
-
 export function useAnimation() {
   const animationRef = useRef<number | null>(null);
-  const lastTimeRef = useRef<number>(0);
+  // Wall time (ms) and animation time (s) when playback (re)started
+  const startRef = useRef<{ wall: number; time: number } | null>(null);
 
   const {
-    route,
     animation,
     updateAnimationFrame,
     playAnimation,
@@ -60,20 +35,19 @@ export function useAnimation() {
       return;
     }
 
-    const animate = (time: number) => {
-      if (lastTimeRef.current === 0) {
-        lastTimeRef.current = time;
+    const animate = (now: number) => {
+      if (!startRef.current) {
+        const { route, animation: current } = useRouteStore.getState();
+        const totalDuration = route ? getAnimationTimeline(route, current).totalDuration : 0;
+        startRef.current = { wall: now, time: current.currentProgress * totalDuration };
       }
 
-      const deltaTime = time - lastTimeRef.current;
-      lastTimeRef.current = time;
-
-      updateAnimationFrame(deltaTime);
+      updateAnimationFrame(startRef.current.time + (now - startRef.current.wall) / 1000);
 
       animationRef.current = requestAnimationFrame(animate);
     };
 
-    lastTimeRef.current = 0;
+    startRef.current = null;
     animationRef.current = requestAnimationFrame(animate);
 
     return () => {
@@ -83,79 +57,8 @@ export function useAnimation() {
     };
   }, [animation.isPlaying, updateAnimationFrame]);
 
-  // Calculate current animation frame data
-  const getAnimationFrame = useCallback((): AnimationFrame | null => {
-    if (!route || route.segments.length === 0) return null;
-
-    const { currentSegmentIndex, segmentProgress, currentProgress } = animation;
-    const currentSegment = route.segments[currentSegmentIndex];
-    
-    if (!currentSegment || currentSegment.path.length < 2) {
-      return null;
-    }
-
-    // Apply smoothing to the current segment path for smooth animation
-    const smoothedPath = smoothPath(currentSegment.path, currentSegment.transportMode);
-
-    // Create a line from the smoothed segment path
-    const line = turf.lineString(smoothedPath);
-    const totalLength = turf.length(line, { units: 'kilometers' });
-    const currentDistance = totalLength * segmentProgress;
-
-    // Get point along the line
-    const point = turf.along(line, currentDistance, { units: 'kilometers' });
-    const markerPosition = point.geometry.coordinates as Coordinates;
-
-    // Calculate drawn path (all completed segments + partial current segment)
-    const drawnPath: Coordinates[] = [];
-    
-    // Add all completed segments (smoothed)
-    for (let i = 0; i < currentSegmentIndex; i++) {
-      const seg = route.segments[i];
-      drawnPath.push(...smoothPath(seg.path, seg.transportMode));
-    }
-
-    // Add partial current segment (smoothed)
-    if (smoothedPath.length > 0) {
-      const slicedLine = turf.lineSlice(
-        turf.point(smoothedPath[0]),
-        point,
-        line
-      );
-      drawnPath.push(...(slicedLine.geometry.coordinates as Coordinates[]));
-    }
-
-    // Calculate bearing using proportional look-ahead (15% of segment, clamped 1-8km)
-    let bearing = 0;
-    try {
-      const lookAheadKm = Math.max(1.0, Math.min(totalLength * 0.15, 8.0));
-      const lookAheadDist = Math.min(currentDistance + lookAheadKm, totalLength);
-      if (lookAheadDist > currentDistance + 0.001) {
-        const lookAheadPoint = turf.along(line, lookAheadDist, { units: 'kilometers' });
-        bearing = turf.bearing(point, lookAheadPoint);
-      } else if (smoothedPath.length >= 2) {
-        const lastIdx = smoothedPath.length - 1;
-        bearing = turf.bearing(
-          turf.point(smoothedPath[Math.max(0, lastIdx - 1)]),
-          turf.point(smoothedPath[lastIdx])
-        );
-      }
-    } catch {
-      bearing = 0;
-    }
-
-    return {
-      markerPosition,
-      currentSegmentIndex,
-      drawnPath,
-      progress: currentProgress,
-      bearing,
-    };
-  }, [route, animation]);
-
   return {
     animation,
-    getAnimationFrame,
     play: playAnimation,
     pause: pauseAnimation,
     stop: stopAnimation,
@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useRouteStore, autosaveStorage, AUTOSAVE_KEY } from '@/store/routeStore';
+
+/**
+ * Autosave lifecycle hook
+ *
+ * On startup, looks for a previous session. If one exists, autosave stays
+ * paused until the user restores or discards it, so the first edits of the
+ * new session cannot overwrite it. Pending changes are flushed when the
+ * tab is hidden or closed.
+ */
+
+interface PendingSession {
+  savedAt: Date;
+  routeName: string | null;
+  waypointCount: number;
+}
+
+export function useAutosave() {
+  const [pendingSession, setPendingSession] = useState<PendingSession | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    autosaveStorage
+      .getSavedSession(AUTOSAVE_KEY)
+      .then((session) => {
+        if (cancelled) return;
+        if (session?.state.route) {
+          setPendingSession({
+            savedAt: session.savedAt,
+            routeName: session.state.route.name,
+            waypointCount: session.state.route.waypoints?.length ?? 0,
+          });
+        } else {
+          autosaveStorage.resume();
+        }
+      })
+      .catch((error) => {
+        console.warn('Could not read autosaved session:', error);
+        if (!cancelled) autosaveStorage.resume();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Flush pending writes when the tab goes away
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') {
+        autosaveStorage.flush();
+      }
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', autosaveStorage.flush);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', autosaveStorage.flush);
+    };
+  }, []);
+
+  const restore = useCallback(async () => {
+    await useRouteStore.persist.rehydrate();
+    setPendingSession(null);
+    autosaveStorage.resume();
+  }, []);
+
+  const discard = useCallback(async () => {
+    await autosaveStorage.removeItem(AUTOSAVE_KEY);
+    setPendingSession(null);
+    autosaveStorage.resume();
+  }, []);
+
+  return { pendingSession, restore, discard };
+}
@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Route } from '@/types';
+import { getTransportConfig } from '@/config/transport';
+import { computeRouteStats, samplePath } from '@/utils/routeStats';
+import { getSegmentMetrics } from '@/utils/metrics';
+import { getElevations } from '@/services/elevation';
+import { getCountriesAlong, Country } from '@/services/countries';
+
+/**
+ * Route statistics hook
+ *
+ * Combines the pure statistics (distances, CO2, longest leg) with two
+ * network-backed figures that load in the background:
+ * - countries crossed, from reverse geocoding points along every segment
+ * - an elevation profile for ground segments, sampled from Terrain-RGB
+ *
+ * Lookups start after a short pause so dragging nodes doesn't flood the
+ * APIs; results for an outdated route are discarded.
+ */
+
+// Upper bounds on network lookups per computation
+const MAX_COUNTRY_SAMPLES = 60;
+const MAX_ELEVATION_SAMPLES = 200;
+const COUNTRY_SAMPLE_SPACING = 25000; // meters
+const LOOKUP_DELAY = 600;
+
+export interface ElevationPoint {
+  // Distance from the start of the route, in meters
+  distance: number;
+  elevation: number;
+  segmentIndex: number;
+}
+
+export interface ElevationProfile {
+  points: ElevationPoint[];
+  min: number;
+  max: number;
+  ascent: number;
+  descent: number;
+}
+
+interface AsyncValue<T> {
+  value: T | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const IDLE = { value: null, isLoading: false, error: null };
+
+function buildProfile(points: ElevationPoint[]): ElevationProfile | null {
+  if (points.length < 2) return null;
+
+  let ascent = 0;
+  let descent = 0;
+  for (let i = 1; i < points.length; i++) {
+    // Only climbs within a segment count; jumps between segments are gaps
+    if (points[i].segmentIndex !== points[i - 1].segmentIndex) continue;
+    const delta = points[i].elevation - points[i - 1].elevation;
+    if (delta > 0) ascent += delta;
+    else descent -= delta;
+  }
+
+  const elevations = points.map((p) => p.elevation);
+  return {
+    points,
+    min: Math.min(...elevations),
+    max: Math.max(...elevations),
+    ascent,
+    descent,
+  };
+}
+
+export function useRouteStats(route: Route | null) {
+  const stats = useMemo(() => (route ? computeRouteStats(route) : null), [route]);
+  const segments = route?.segments;
+
+  const [countries, setCountries] = useState<AsyncValue<Country[]>>(IDLE);
+  const [elevation, setElevation] = useState<AsyncValue<ElevationProfile>>(IDLE);
+
+  useEffect(() => {
+    if (!segments || segments.length === 0) {
+      setCountries(IDLE);
+      setElevation(IDLE);
+      return;
+    }
+
+    let cancelled = false;
+    setCountries((prev) => ({ ...prev, isLoading: true, error: null }));
+    setElevation((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    const timer = setTimeout(() => {
+      const metrics = segments.map(getSegmentMetrics);
+      const totalDistance = metrics.reduce((sum, m) => sum + m.distance, 0);
+
+      // Countries: roughly every 25 km, capped, at least both ends of each segment
+      const countrySpacing = Math.max(COUNTRY_SAMPLE_SPACING, totalDistance / MAX_COUNTRY_SAMPLES);
+      const countryPoints = segments.flatMap((segment, i) =>
+        samplePath(segment.path, Math.ceil(metrics[i].distance / countrySpacing) + 1)
+          .map((sample) => sample.coordinates)
+      );
+
+      getCountriesAlong(countryPoints)
+        .then((value) => !cancelled && setCountries({ value, isLoading: false, error: null }))
+        .catch((error) => {
+          console.error('Error looking up countries:', error);
+          if (!cancelled) setCountries({ value: null, isLoading: false, error: 'No se pudieron obtener los países.' });
+        });
+
+      // Elevation: ground segments only, samples shared out by distance
+      const groundDistance = segments.reduce(
+        (sum, segment, i) =>
+          getTransportConfig(segment.transportMode).category === 'ground' ? sum + metrics[i].distance : sum,
+        0
+      );
+      if (groundDistance === 0) {
+        setElevation(IDLE);
+        return;
+      }
+
+      let offset = 0;
+      const samples: Omit<ElevationPoint, 'elevation'>[] = [];
+      const coordinates = segments.flatMap((segment, i) => {
+        const start = offset;
+        offset += metrics[i].distance;
+        if (getTransportConfig(segment.transportMode).category !== 'ground') return [];
+
+        const count = Math.max(2, Math.round((metrics[i].distance / groundDistance) * MAX_ELEVATION_SAMPLES));
+        return samplePath(segment.path, count).map((sample) => {
+          samples.push({ distance: start + sample.distance, segmentIndex: i });
+          return sample.coordinates;
+        });
+      });
+
+      // Coarser tiles for long routes keep the number of requests down
+      const zoom = groundDistance > 500000 ? 9 : groundDistance > 50000 ? 10 : 12;
+
+      getElevations(coordinates, zoom)
+        .then((heights) => {
+          if (cancelled) return;
+          const profile = buildProfile(samples.map((sample, i) => ({ ...sample, elevation: heights[i] })));
+          setElevation({ value: profile, isLoading: false, error: null });
+        })
+        .catch((error) => {
+          console.error('Error sampling elevation:', error);
+          if (!cancelled) setElevation({ value: null, isLoading: false, error: 'No se pudo obtener la elevación.' });
+        });
+    }, LOOKUP_DELAY);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [segments]);
+
+  return { stats, countries, elevation };
+}
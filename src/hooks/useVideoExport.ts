@@ -1,115 +1,133 @@
-import { useCallback, useRef } from 'react';
+import { useCallback, useRef, useState } from 'react';
+import type { Map as MapboxMap } from 'mapbox-gl';
 import { useRouteStore } from '@/store/routeStore';
-import { EXPORT_QUALITY_PRESETS } from '@/config/map';
+import { MAP_STYLES } from '@/config/map';
+import { getActiveMap, getMapCamera } from '@/components/Map/mapInstance';
+import { createExportMap, removeExportMap } from '@/components/Map/exportMap';
+import { getFrameCount, renderFrames } from '@/utils/exportRenderer';
+import { createEncoder, EXPORT_FILE_EXTENSIONS, FrameEncoder, getExportFps, isAnimatedImage } from '@/utils/encoders';
+import { getExportSidecar } from '@/utils/exportSidecar';
+import { getExportSize, getFramingRect } from '@/utils/exportSize';
+import { downloadBlob, toFileName } from '@/utils/download';
+import { ExportError } from '@/utils/exportError';
 
 /**
- * Video export hook using Canvas + MediaRecorder API
- * 
+ * Video export hook
+ *
+ * Frames are rendered one at a time from the animation clock (see
+ * exportRenderer) and handed to an encoder, so the video has every
+ * frame at its exact time however slow the machine is.
+ *
+ * A failed export is kept in `exportError` (cancelling is not an error)
+ * until the next export starts.
+ *
  * Limitations:
- * - MP4 requires additional encoding (WebM is native)
- * - Quality depends on browser MediaRecorder support
- * - Large exports may hit memory limits
- * 
- * TODO: Consider server-side encoding for MP4 support
- * TODO: Add progress streaming for large exports
+ * - WebM takes at least as long as the animation (MediaRecorder records
+ *   in real time); MP4 through WebCodecs does not
+ * - GIF and APNG read every frame back from the canvas and quantize it
+ *   on the main thread, so large sizes are slow
+ * - PNG sequences are stored uncompressed in the ZIP (up to 4 GB)
+ * - Frames render on a separate offscreen map of the export size (see
+ *   exportMap), which loads its tiles again; the framing shown on the
+ *   live map is what gets exported
  */
 
-export function useVideoExport() {
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const chunksRef = useRef<Blob[]>([]);
-  
-  const { exportConfig, setExporting } = useRouteStore();
-
-  const startRecording = useCallback(
-    (canvas: HTMLCanvasElement, onComplete: (blob: Blob) => void) => {
-      const { quality, fps, format } = exportConfig;
-      const preset = EXPORT_QUALITY_PRESETS[quality];
-
-      // Create off-screen canvas at export resolution
-      const exportCanvas = document.createElement('canvas');
-      exportCanvas.width = preset.width;
-      exportCanvas.height = preset.height;
-      const ctx = exportCanvas.getContext('2d');
+// Allocation failures mean the output is too big for the browser
+function toExportError(error: unknown): Error {
+  if (error instanceof ExportError) return error;
+  if (error instanceof RangeError || (error as Error)?.name === 'QuotaExceededError') {
+    return new ExportError('too-large', (error as Error).message);
+  }
+  return error instanceof Error ? error : new Error(String(error));
+}
 
-      if (!ctx) {
-        console.error('Could not get canvas context');
-        return;
+export function useVideoExport() {
+  const abortRef = useRef<AbortController | null>(null);
+  const [exportError, setExportError] = useState<Error | null>(null);
+
+  const { exportConfig, setExporting, pauseAnimation, setAnimationProgress } = useRouteStore();
+
+  const exportVideo = useCallback(async () => {
+    const { route, animation, mapConfig, exportConfig: config } = useRouteStore.getState();
+    const liveMap = getActiveMap();
+    const savedCamera = getMapCamera();
+    if (!liveMap || !savedCamera || !route || route.segments.length === 0 || abortRef.current) return;
+
+    const size = getExportSize(config);
+    const container = liveMap.getContainer();
+    const viewport = getFramingRect({ width: container.clientWidth, height: container.clientHeight }, size);
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    if (isAnimatedImage(config.format)) {
+      // Must be set on the first getContext call for the frame readbacks
+      canvas.getContext('2d', { willReadFrequently: true });
+    }
+    const fps = getExportFps(config);
+    const isSequence = config.format === 'png-sequence';
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    if (animation.isPlaying) pauseAnimation();
+    const savedProgress = animation.currentProgress;
+    const frameCount = getFrameCount(route, animation, fps);
+
+    let encoder: FrameEncoder | null = null;
+    let map: MapboxMap | null = null;
+    setExportError(null);
+    setExporting(true, 0);
+
+    try {
+      map = await createExportMap({ style: MAP_STYLES[mapConfig.style], size, route });
+      encoder = await createEncoder(config, canvas, {
+        bitrate: size.bitrate,
+        sidecar: getExportSidecar(route, animation, config, size),
+      });
+      for await (const { index, frame } of renderFrames({
+        map,
+        route,
+        settings: animation,
+        fps,
+        viewport,
+        camera: savedCamera,
+        canvas,
+        transparent: isSequence && config.transparentBackground,
+        signal: controller.signal,
+      })) {
+        await encoder.addFrame();
+        // Keep the timeline and the on-screen marker with the export
+        if (frame) setAnimationProgress(frame.progress);
+        setExporting(true, (index + 1) / frameCount);
       }
 
-      // Setup MediaRecorder
-      const stream = exportCanvas.captureStream(fps);
-      
-      // Determine MIME type
-      // Note: MP4 not natively supported, would need transcoding
-      const mimeType = format === 'webm' 
-        ? 'video/webm;codecs=vp9'
-        : 'video/webm'; // Fallback to WebM even if MP4 requested
-
-      if (!MediaRecorder.isTypeSupported(mimeType)) {
-        console.warn(`${mimeType} not supported, falling back to default`);
+      const blob = await encoder.finish();
+      const suffix = isSequence ? 'frames' : 'animation';
+      downloadBlob(blob, `${toFileName(route.name)}-${suffix}.${EXPORT_FILE_EXTENSIONS[config.format]}`);
+    } catch (error) {
+      encoder?.cancel();
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Export error:', error);
+        setExportError(toExportError(error));
       }
-
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: MediaRecorder.isTypeSupported(mimeType) ? mimeType : 'video/webm',
-        videoBitsPerSecond: preset.bitrate,
-      });
-
-      chunksRef.current = [];
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          chunksRef.current.push(event.data);
-        }
-      };
-
-      mediaRecorder.onstop = () => {
-        const blob = new Blob(chunksRef.current, { type: 'video/webm' });
-        onComplete(blob);
-        setExporting(false);
-      };
-
-      mediaRecorderRef.current = mediaRecorder;
-      mediaRecorder.start(100); // Collect data every 100ms
-      setExporting(true, 0);
-
-      // Return function to capture frame
-      return {
-        captureFrame: () => {
-          ctx.drawImage(
-            canvas,
-            0, 0, canvas.width, canvas.height,
-            0, 0, preset.width, preset.height
-          );
-        },
-        updateProgress: (progress: number) => {
-          setExporting(true, progress);
-        },
-      };
-    },
-    [exportConfig, setExporting]
-  );
-
-  const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current && mediaRecorderRef.current.state !== 'inactive') {
-      mediaRecorderRef.current.stop();
+    } finally {
+      abortRef.current = null;
+      setExporting(false);
+      if (map) removeExportMap(map);
+      setAnimationProgress(savedProgress);
+      // Progress updates move the live map too when there are camera keyframes
+      liveMap.jumpTo(savedCamera);
     }
-  }, []);
+  }, [pauseAnimation, setAnimationProgress, setExporting]);
 
-  const downloadVideo = useCallback((blob: Blob, filename = 'route-animation') => {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${filename}.webm`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const cancelExport = useCallback(() => {
+    abortRef.current?.abort();
   }, []);
 
   return {
-    startRecording,
-    stopRecording,
-    downloadVideo,
+    exportVideo,
+    cancelExport,
+    exportError,
+    clearExportError: () => setExportError(null),
     exportConfig,
   };
 }
@@ -0,0 +1,56 @@
+import { Coordinates } from '@/types';
+import { MAPBOX_ACCESS_TOKEN } from '@/config/map';
+
+/**
+ * Country lookup via Mapbox reverse geocoding (types=country)
+ *
+ * Results are cached on a ~10 km grid, so recomputing statistics after a
+ * small edit only queries the points that actually moved.
+ */
+
+export interface Country {
+  code: string; // ISO 3166-1 alpha-2, upper case
+  name: string;
+}
+
+const countryCache = new Map<string, Promise<Country | null>>();
+
+async function lookupCountry([lng, lat]: Coordinates): Promise<Country | null> {
+  const response = await fetch(
+    `https://api.mapbox.com/geocoding/v5/mapbox.places/${lng},${lat}.json?types=country&language=es&access_token=${MAPBOX_ACCESS_TOKEN}`
+  );
+  if (!response.ok) throw new Error(`Reverse geocoding failed: HTTP ${response.status}`);
+
+  const data = await response.json();
+  const feature = data.features?.[0];
+  // Open water has no country
+  if (!feature) return null;
+
+  return {
+    code: String(feature.properties?.short_code ?? feature.id).toUpperCase(),
+    name: feature.text,
+  };
+}
+
+export function getCountryAt(point: Coordinates): Promise<Country | null> {
+  const key = `${point[0].toFixed(1)},${point[1].toFixed(1)}`;
+  let country = countryCache.get(key);
+  if (!country) {
+    country = lookupCountry(point);
+    country.catch(() => countryCache.delete(key));
+    countryCache.set(key, country);
+  }
+  return country;
+}
+
+/**
+ * Distinct countries at the given points, in order of first appearance
+ */
+export async function getCountriesAlong(points: Coordinates[]): Promise<Country[]> {
+  const results = await Promise.all(points.map(getCountryAt));
+  const seen = new Map<string, Country>();
+  for (const country of results) {
+    if (country && !seen.has(country.code)) seen.set(country.code, country);
+  }
+  return [...seen.values()];
+}
@@ -0,0 +1,81 @@
+import { Coordinates } from '@/types';
+import { MAPBOX_ACCESS_TOKEN } from '@/config/map';
+
+/**
+ * Elevation lookup from Mapbox Terrain-RGB tiles
+ *
+ * Each tile pixel encodes height as
+ *   elevation = -10000 + (R * 65536 + G * 256 + B) * 0.1   (meters)
+ * Tiles are decoded once and cached, so sampling a long path costs one
+ * request per tile it touches rather than one per point.
+ */
+
+const TILE_SIZE = 256;
+
+type TilePixels = Uint8ClampedArray;
+
+const tileCache = new Map<string, Promise<TilePixels>>();
+
+function tileUrl(z: number, x: number, y: number): string {
+  return `https://api.mapbox.com/v4/mapbox.terrain-rgb/${z}/${x}/${y}.pngraw?access_token=${MAPBOX_ACCESS_TOKEN}`;
+}
+
+async function loadTile(z: number, x: number, y: number): Promise<TilePixels> {
+  const response = await fetch(tileUrl(z, x, y));
+  if (!response.ok) throw new Error(`Terrain tile ${z}/${x}/${y} failed: HTTP ${response.status}`);
+
+  const bitmap = await createImageBitmap(await response.blob());
+  const canvas = document.createElement('canvas');
+  canvas.width = TILE_SIZE;
+  canvas.height = TILE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.drawImage(bitmap, 0, 0, TILE_SIZE, TILE_SIZE);
+  bitmap.close();
+  return ctx.getImageData(0, 0, TILE_SIZE, TILE_SIZE).data;
+}
+
+function getTile(z: number, x: number, y: number): Promise<TilePixels> {
+  const key = `${z}/${x}/${y}`;
+  let tile = tileCache.get(key);
+  if (!tile) {
+    tile = loadTile(z, x, y);
+    tile.catch(() => tileCache.delete(key));
+    tileCache.set(key, tile);
+  }
+  return tile;
+}
+
+// Web Mercator pixel position of a coordinate at zoom z
+function toTilePixel([lng, lat]: Coordinates, z: number) {
+  const scale = TILE_SIZE * 2 ** z;
+  const clampedLat = Math.max(-85.0511, Math.min(85.0511, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+  const wrappedLng = ((((lng + 180) % 360) + 360) % 360) - 180;
+  const px = ((wrappedLng + 180) / 360) * scale;
+  const py = (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale;
+  const max = 2 ** z - 1;
+
+  return {
+    x: Math.min(max, Math.floor(px / TILE_SIZE)),
+    y: Math.min(max, Math.floor(py / TILE_SIZE)),
+    col: Math.min(TILE_SIZE - 1, Math.floor(px % TILE_SIZE)),
+    row: Math.min(TILE_SIZE - 1, Math.floor(py % TILE_SIZE)),
+  };
+}
+
+/**
+ * Ground elevation in meters for each coordinate
+ * Lower zooms fetch fewer tiles for long routes (z11 ≈ 75 m/pixel)
+ */
+export async function getElevations(points: Coordinates[], zoom = 11): Promise<number[]> {
+  return Promise.all(
+    points.map(async (point) => {
+      const { x, y, col, row } = toTilePixel(point, zoom);
+      const pixels = await getTile(zoom, x, y);
+      const i = (row * TILE_SIZE + col) * 4;
+      return -10000 + (pixels[i] * 65536 + pixels[i + 1] * 256 + pixels[i + 2]) * 0.1;
+    })
+  );
+}
@@ -0,0 +1,31 @@
+import { FERRY_PORT_SNAP_RADIUS, FERRY_MAX_SEA_LANE_DISTANCE } from '@/config/routing';
+import { RoutingProvider } from './types';
+import { createMissingNetworkProvider, createNetworkProvider, NetworkSource } from './network';
+
+/**
+ * Sea lane provider (ferry mode only)
+ *
+ * Routes over a maritime network GeoJSON (e.g. the Eurostat/searoute
+ * "marnet" lanes, optionally with amenity=ferry_terminal points), so ferry
+ * legs follow the water instead of cutting across land. Without a
+ * network, ferry segments fail with 'network-required': a straight line
+ * would cross land.
+ */
+
+function isPort(feature: GeoJSON.Feature): boolean {
+  const { amenity, harbour, name } = feature.properties ?? {};
+  return amenity === 'ferry_terminal' || harbour !== undefined || typeof name === 'string';
+}
+
+export function createFerryProvider(source: NetworkSource | null): RoutingProvider {
+  if (!source) return createMissingNetworkProvider('ferry', 'Rutas marítimas', ['ferry']);
+  return createNetworkProvider({
+    id: 'ferry',
+    label: 'Rutas marítimas',
+    modes: ['ferry'],
+    source,
+    isStop: isPort,
+    stopSnapRadius: FERRY_PORT_SNAP_RADIUS,
+    maxSnapDistance: FERRY_MAX_SEA_LANE_DISTANCE,
+  });
+}
@@ -0,0 +1,31 @@
+import { TransportMode } from '@/types';
+import { greatCirclePath, greatCircleDistance } from '@/utils/geodesic';
+import { RoutingProvider, RoutingError } from './types';
+
+/**
+ * Great-circle provider (no network)
+ *
+ * Used for flights. Stored longitudes stay in [-180, 180]; the map splits
+ * the line where it crosses the antimeridian.
+ */
+export function createGreatCircleProvider(
+  modes: TransportMode[],
+  curvature = 0
+): RoutingProvider {
+  return {
+    id: 'great-circle',
+    label: 'Gran círculo',
+
+    supports: (mode) => modes.includes(mode),
+
+    route: async ({ start, end, mode }) => {
+      if (!modes.includes(mode)) {
+        throw new RoutingError('great-circle', 'unsupported-mode', `Great circle cannot route "${mode}"`);
+      }
+      return {
+        path: greatCirclePath(start, end, { curvature }),
+        distance: greatCircleDistance(start, end),
+      };
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchRoutingJson } from './http';
+import { RoutingError } from './types';
+
+function respondWith(body: string, status = 200) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status })));
+}
+
+async function errorCode(promise: Promise<unknown>) {
+  const error = await promise.catch((e: unknown) => e);
+  expect(error).toBeInstanceOf(RoutingError);
+  return (error as RoutingError).code;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchRoutingJson', () => {
+  it('returns the parsed body', async () => {
+    respondWith('{"code":"Ok"}');
+    await expect(fetchRoutingJson('osrm', 'http://test')).resolves.toEqual({ code: 'Ok' });
+  });
+
+  it('maps NoRoute and NoSegment answers to no-route', async () => {
+    respondWith('{"code":"NoRoute","message":"Impossible route between points"}', 400);
+    const error = await fetchRoutingJson('osrm', 'http://test').catch((e: RoutingError) => e);
+    expect(error).toMatchObject({ code: 'no-route', message: 'Impossible route between points' });
+
+    respondWith('{"code":"NoSegment"}', 422);
+    expect(await errorCode(fetchRoutingJson('mapbox', 'http://test'))).toBe('no-route');
+  });
+
+  it('maps other failed answers to http', async () => {
+    respondWith('{"code":"InvalidInput"}', 400);
+    expect(await errorCode(fetchRoutingJson('osrm', 'http://test'))).toBe('http');
+
+    respondWith('<html>Not found</html>', 404);
+    expect(await errorCode(fetchRoutingJson('osrm', 'http://test'))).toBe('http');
+
+    respondWith('{"code":"NoRoute"}', 500);
+    expect(await errorCode(fetchRoutingJson('osrm', 'http://test'))).toBe('http');
+  });
+
+  it('maps unreachable services and non-JSON bodies', async () => {
+    respondWith('<html>Proxy</html>');
+    expect(await errorCode(fetchRoutingJson('osrm', 'http://test'))).toBe('invalid-response');
+
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new TypeError('Failed to fetch'); }));
+    expect(await errorCode(fetchRoutingJson('osrm', 'http://test'))).toBe('network');
+  });
+});
@@ -0,0 +1,40 @@
+import { RoutingError } from './types';
+
+// Error codes in the JSON body of a 4xx that mean there is no route
+// (OSRM answers 400 NoRoute, Mapbox 422 NoSegment)
+const NO_ROUTE_CODES = ['NoRoute', 'NoSegment'];
+
+/**
+ * fetch() wrapper that maps failures to RoutingError
+ */
+export async function fetchRoutingJson<T>(
+  provider: string,
+  url: string,
+  signal?: AbortSignal
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error;
+    throw new RoutingError(provider, 'network', `Could not reach ${provider} routing service`);
+  }
+
+  if (response.status >= 400 && response.status < 500) {
+    const body = await response.json().catch(() => null);
+    if (NO_ROUTE_CODES.includes(body?.code)) {
+      throw new RoutingError(provider, 'no-route', body.message || `${provider} found no route between these points`);
+    }
+  }
+  if (!response.ok) {
+    throw new RoutingError(provider, 'http', `${provider} routing failed with HTTP ${response.status}`);
+  }
+
+  // Misconfigured servers and proxies often answer 200 with an HTML page
+  try {
+    return (await response.json()) as T;
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') throw error;
+    throw new RoutingError(provider, 'invalid-response', `${provider} routing returned an invalid response`);
+  }
+}
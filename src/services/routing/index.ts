@@ -0,0 +1,72 @@
+import { RoutingConfig } from '@/types';
+import { MAPBOX_ACCESS_TOKEN } from '@/config/map';
+import { NetworkKind } from '@/utils/networkStorage';
+import { RoutingProvider, RoutingError } from './types';
+import { NetworkSource } from './network';
+import { createMapboxProvider } from './mapbox';
+import { createOsrmProvider } from './osrm';
+import { createRailProvider } from './rail';
+import { createFerryProvider } from './ferry';
+import { createGreatCircleProvider } from './greatCircle';
+
+export * from './types';
+export { createMapboxProvider } from './mapbox';
+export { createOsrmProvider } from './osrm';
+export { createNetworkProvider, clearNetworkCache } from './network';
+export type { NetworkSource } from './network';
+export { createRailProvider } from './rail';
+export { createFerryProvider } from './ferry';
+export { createGreatCircleProvider } from './greatCircle';
+
+function createRoadProvider(config: RoutingConfig): RoutingProvider {
+  switch (config.provider) {
+    case 'osrm':
+      return createOsrmProvider(config.osrmBaseUrl);
+    case 'mapbox':
+    default:
+      return createMapboxProvider(MAPBOX_ACCESS_TOKEN);
+  }
+}
+
+// A network file loaded in the settings wins over the URL
+function networkSource(kind: NetworkKind, file: string, url: string): NetworkSource | null {
+  if (file) return { file: kind, name: file };
+  return url ? { url } : null;
+}
+
+/**
+ * Build the provider selected in the routing configuration
+ *
+ * Each mode goes to the first provider that supports it:
+ * - plane -> great circle (with the configured altitude curvature)
+ * - train -> rail network
+ * - ferry -> sea lane network
+ * - everything else -> road provider
+ *
+ * Trains and ferries without a network fail with 'network-required'
+ * instead of following roads or crossing land.
+ */
+export function createRoutingProvider(config: RoutingConfig): RoutingProvider {
+  const road = createRoadProvider(config);
+  const providers: RoutingProvider[] = [
+    createGreatCircleProvider(['plane'], config.flightCurvature),
+    createRailProvider(networkSource('rail', config.railNetworkFile, config.railNetworkUrl)),
+    createFerryProvider(networkSource('ferry', config.marineNetworkFile, config.marineNetworkUrl)),
+    road,
+  ];
+
+  return {
+    id: road.id,
+    label: road.label,
+    supports: (mode) => providers.some((provider) => provider.supports(mode)),
+    route: (request) => {
+      const provider = providers.find((candidate) => candidate.supports(request.mode));
+      if (!provider) {
+        return Promise.reject(
+          new RoutingError(road.id, 'unsupported-mode', `No provider can route "${request.mode}"`)
+        );
+      }
+      return provider.route(request);
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { Coordinates, TransportMode } from '@/types';
+import { RoutingProvider, RoutingError } from './types';
+import { fetchRoutingJson } from './http';
+
+/**
+ * Mapbox Directions API provider
+ *
+ * Transport mode mapping:
+ * - car/motorcycle/bus -> driving
+ * - cycling -> cycling
+ * - walking/hiking -> walking
+ * - plane/train/ferry -> Not supported (great circle / rail / sea lane
+ *   providers)
+ */
+
+type MapboxProfile = 'driving' | 'walking' | 'cycling' | 'driving-traffic';
+
+const MAPBOX_PROFILES: Partial<Record<TransportMode, MapboxProfile>> = {
+  car: 'driving',
+  motorcycle: 'driving',
+  bus: 'driving',
+  cycling: 'cycling',
+  walking: 'walking',
+  hiking: 'walking',
+};
+
+interface MapboxDirectionsResponse {
+  code: string;
+  routes?: {
+    geometry: { coordinates: Coordinates[] };
+    distance: number;
+    duration: number;
+  }[];
+}
+
+export function createMapboxProvider(accessToken: string): RoutingProvider {
+  return {
+    id: 'mapbox',
+    label: 'Mapbox Directions',
+
+    supports: (mode) => mode in MAPBOX_PROFILES,
+
+    route: async ({ start, end, mode, signal }) => {
+      const profile = MAPBOX_PROFILES[mode];
+      if (!profile) {
+        throw new RoutingError('mapbox', 'unsupported-mode', `Mapbox cannot route "${mode}"`);
+      }
+
+      const url = `https://api.mapbox.com/directions/v5/mapbox/${profile}/${start[0]},${start[1]};${end[0]},${end[1]}?geometries=geojson&overview=full&access_token=${accessToken}`;
+      const data = await fetchRoutingJson<MapboxDirectionsResponse>('mapbox', url, signal);
+
+      const route = data.routes?.[0];
+      if (!route) {
+        throw new RoutingError('mapbox', 'no-route', 'Mapbox found no route between these points');
+      }
+
+      return {
+        path: route.geometry.coordinates,
+        distance: route.distance,
+        duration: route.duration,
+      };
+    },
+  };
+}
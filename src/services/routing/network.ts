@@ -0,0 +1,131 @@
+import { Coordinates, TransportMode } from '@/types';
+import { greatCircleDistance } from '@/utils/geodesic';
+import { getStoredNetwork, NetworkKind } from '@/utils/networkStorage';
+import { RoutingProvider, RoutingError } from './types';
+import { fetchRoutingJson } from './http';
+import {
+  NetworkGraph,
+  buildNetworkGraph,
+  nearestNode,
+  nearestStop,
+  shortestPath,
+} from './networkGraph';
+
+/**
+ * Provider routing over a GeoJSON network (rail tracks, sea lanes)
+ *
+ * Waypoints near a stop (station, ferry terminal) are snapped to it, so
+ * trips run stop to stop; otherwise the nearest network node is used.
+ * The network (downloaded, or a file stored locally) is indexed once per
+ * source.
+ */
+
+// A URL, or a file loaded in the settings (see networkStorage)
+export type NetworkSource = { url: string } | { file: NetworkKind; name: string };
+
+export interface NetworkProviderOptions {
+  id: string;
+  label: string;
+  modes: TransportMode[];
+  source: NetworkSource;
+  // Point features waypoints can snap to
+  isStop?: (feature: GeoJSON.Feature) => boolean;
+  // Waypoints within this distance (meters) of a stop start/end there
+  stopSnapRadius: number;
+  // Waypoints further than this (meters) from the network cannot be routed
+  maxSnapDistance: number;
+}
+
+const graphCache = new Map<string, Promise<NetworkGraph>>();
+
+// Drop indexed networks, e.g. after a network file is replaced
+export function clearNetworkCache() {
+  graphCache.clear();
+}
+
+async function loadNetwork(id: string, source: NetworkSource): Promise<GeoJSON.FeatureCollection> {
+  if ('url' in source) return fetchRoutingJson<GeoJSON.FeatureCollection>(id, source.url);
+
+  const collection = await getStoredNetwork(source.file);
+  if (!collection) {
+    throw new RoutingError(id, 'network-required', `Network file "${source.name}" is no longer stored`);
+  }
+  return collection;
+}
+
+function loadNetworkGraph({ id, source, isStop }: NetworkProviderOptions): Promise<NetworkGraph> {
+  const key = 'url' in source ? `${id}:${source.url}` : `${id}:file:${source.name}`;
+  let graph = graphCache.get(key);
+  if (!graph) {
+    graph = loadNetwork(id, source).then((collection) => {
+      if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+        throw new RoutingError(id, 'invalid-response', 'Network is not a GeoJSON FeatureCollection');
+      }
+      return buildNetworkGraph(collection, isStop);
+    });
+    // Let a failed download be retried
+    graph.catch(() => graphCache.delete(key));
+    graphCache.set(key, graph);
+  }
+  return graph;
+}
+
+/**
+ * Stand-in for a network provider without a network: claims its modes
+ * and fails with 'network-required', so those segments are never drawn
+ * with a path that ignores the network (a ferry across land)
+ */
+export function createMissingNetworkProvider(id: string, label: string, modes: TransportMode[]): RoutingProvider {
+  return {
+    id,
+    label,
+    supports: (mode) => modes.includes(mode),
+    route: async () => {
+      throw new RoutingError(id, 'network-required', `${label}: no network configured`);
+    },
+  };
+}
+
+export function createNetworkProvider(options: NetworkProviderOptions): RoutingProvider {
+  const { id, label, modes, stopSnapRadius, maxSnapDistance } = options;
+
+  const snapToNetwork = (graph: NetworkGraph, point: Coordinates): number => {
+    const stop = nearestStop(graph, point, stopSnapRadius);
+    if (stop) return stop.node;
+
+    const nearest = nearestNode(graph, point);
+    if (!nearest || nearest.distance > maxSnapDistance) {
+      throw new RoutingError(id, 'no-route', 'Waypoint is too far from the network');
+    }
+    return nearest.node;
+  };
+
+  return {
+    id,
+    label,
+
+    supports: (mode) => modes.includes(mode),
+
+    route: async ({ start, end, mode }) => {
+      if (!modes.includes(mode)) {
+        throw new RoutingError(id, 'unsupported-mode', `${label} cannot route "${mode}"`);
+      }
+
+      const graph = await loadNetworkGraph(options);
+      const result = shortestPath(graph, snapToNetwork(graph, start), snapToNetwork(graph, end));
+      if (!result) {
+        throw new RoutingError(id, 'no-route', 'Waypoints are not connected by the network');
+      }
+
+      // Short connectors keep the path anchored to the waypoints
+      const path: Coordinates[] = [start, ...result.path, end];
+      const first = result.path[0];
+      const last = result.path[result.path.length - 1];
+
+      return {
+        path,
+        distance: greatCircleDistance(start, first) + result.distance + greatCircleDistance(last, end),
+      };
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { Coordinates } from '@/types';
+import { greatCircleDistance } from '@/utils/geodesic';
+import { buildNetworkGraph, nearestNode, nearestStop, shortestPath } from './networkGraph';
+
+function line(...coordinates: Coordinates[]): GeoJSON.Feature {
+  return { type: 'Feature', properties: {}, geometry: { type: 'LineString', coordinates } };
+}
+
+function station(name: string, coordinates: Coordinates): GeoJSON.Feature {
+  return { type: 'Feature', properties: { railway: 'station', name }, geometry: { type: 'Point', coordinates } };
+}
+
+function collection(...features: GeoJSON.Feature[]): GeoJSON.FeatureCollection {
+  return { type: 'FeatureCollection', features };
+}
+
+function route(graph: ReturnType<typeof buildNetworkGraph>, from: Coordinates, to: Coordinates) {
+  return shortestPath(graph, nearestNode(graph, from)!.node, nearestNode(graph, to)!.node);
+}
+
+describe('shortestPath', () => {
+  // A square with a long detour (north side) and a short one (south side)
+  const graph = buildNetworkGraph(
+    collection(
+      line([0, 0], [0, 1], [1, 1], [1, 0]),
+      line([0, 0], [0.5, -0.1], [1, 0]),
+      line([5, 5], [6, 5])
+    )
+  );
+
+  it('takes the shorter branch at a junction', () => {
+    const result = route(graph, [0, 0], [1, 0])!;
+    expect(result.path).toEqual([[0, 0], [0.5, -0.1], [1, 0]]);
+    const expected =
+      greatCircleDistance([0, 0], [0.5, -0.1]) + greatCircleDistance([0.5, -0.1], [1, 0]);
+    expect(result.distance).toBeCloseTo(expected, 6);
+  });
+
+  it('returns a single node for the same start and end', () => {
+    expect(route(graph, [0, 0], [0, 0])).toEqual({ path: [[0, 0]], distance: 0 });
+  });
+
+  it('returns null between disconnected parts', () => {
+    expect(route(graph, [0, 0], [6, 5])).toBeNull();
+  });
+
+  it('connects lines that meet on the antimeridian', () => {
+    const pacific = buildNetworkGraph(collection(line([170, 0], [180, 0]), line([-180, 0], [-170, 0])));
+    const result = route(pacific, [170, 0], [-170, 0])!;
+    expect(result.path).toHaveLength(3);
+    expect(result.distance).toBeCloseTo(greatCircleDistance([170, 0], [-170, 0]), 0);
+  });
+});
+
+describe('network stops', () => {
+  const graph = buildNetworkGraph(
+    collection(line([0, 0], [1, 0]), station('Origen', [0, 0.001]), station('Lejos', [0, 1])),
+    (feature) => feature.properties?.railway === 'station'
+  );
+
+  it('keeps stops close to the network only', () => {
+    expect(graph.stops.map((stop) => stop.name)).toEqual(['Origen']);
+  });
+
+  it('finds the nearest stop within a radius', () => {
+    expect(nearestStop(graph, [0.001, 0], 1000)?.name).toBe('Origen');
+    expect(nearestStop(graph, [0.5, 0], 1000)).toBeNull();
+  });
+});
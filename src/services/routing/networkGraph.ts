@@ -0,0 +1,235 @@
+import { Coordinates } from '@/types';
+import { greatCircleDistance } from '@/utils/geodesic';
+
+/**
+ * In-memory transport network graph (rail tracks, sea lanes)
+ *
+ * Built from a GeoJSON network extract:
+ * - LineString/MultiLineString features are the network geometry.
+ *   Consecutive vertices become edges; lines that share a vertex are
+ *   connected, so junctions must share nodes (as they do in OSM data).
+ *   Vertices on ±180° are merged so sea lanes connect across the Pacific.
+ * - Point features accepted by `isStop` (stations, ferry terminals) are
+ *   stops that waypoints can snap to.
+ *
+ * Shortest paths use A* with a great-circle heuristic.
+ */
+
+interface Edge {
+  to: number;
+  weight: number; // meters
+}
+
+export interface NetworkStop {
+  name?: string;
+  coordinates: Coordinates;
+  node: number;
+}
+
+export interface NetworkGraph {
+  nodes: Coordinates[];
+  adjacency: Edge[][];
+  stops: NetworkStop[];
+}
+
+// Stops further than this from the network are ignored
+const MAX_STOP_TO_NETWORK = 500;
+
+function lineStringsOf(geometry: GeoJSON.Geometry | null): Coordinates[][] {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case 'LineString':
+      return [geometry.coordinates as Coordinates[]];
+    case 'MultiLineString':
+      return geometry.coordinates as Coordinates[][];
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(lineStringsOf);
+    default:
+      return [];
+  }
+}
+
+export function buildNetworkGraph(
+  collection: GeoJSON.FeatureCollection,
+  isStop: (feature: GeoJSON.Feature) => boolean = () => false
+): NetworkGraph {
+  const nodes: Coordinates[] = [];
+  const adjacency: Edge[][] = [];
+  const index = new Map<string, number>();
+
+  const nodeFor = (coord: Coordinates): number => {
+    // ~10 cm precision merges vertices shared between ways
+    const lng = coord[0] === 180 ? -180 : coord[0];
+    const key = `${lng.toFixed(6)},${coord[1].toFixed(6)}`;
+    let id = index.get(key);
+    if (id === undefined) {
+      id = nodes.length;
+      index.set(key, id);
+      nodes.push([coord[0], coord[1]]);
+      adjacency.push([]);
+    }
+    return id;
+  };
+
+  for (const feature of collection.features) {
+    for (const line of lineStringsOf(feature.geometry)) {
+      for (let i = 1; i < line.length; i++) {
+        const a = nodeFor(line[i - 1]);
+        const b = nodeFor(line[i]);
+        if (a === b) continue;
+        const weight = greatCircleDistance(nodes[a], nodes[b]);
+        adjacency[a].push({ to: b, weight });
+        adjacency[b].push({ to: a, weight });
+      }
+    }
+  }
+
+  const graph: NetworkGraph = { nodes, adjacency, stops: [] };
+
+  for (const feature of collection.features) {
+    if (feature.geometry?.type !== 'Point' || !isStop(feature)) continue;
+    const coordinates = feature.geometry.coordinates as Coordinates;
+    const nearest = nearestNode(graph, coordinates);
+    if (nearest && nearest.distance <= MAX_STOP_TO_NETWORK) {
+      graph.stops.push({
+        name: feature.properties?.name,
+        coordinates: [coordinates[0], coordinates[1]],
+        node: nearest.node,
+      });
+    }
+  }
+
+  return graph;
+}
+
+/**
+ * Closest graph node to a point (linear scan; fine for regional extracts)
+ */
+export function nearestNode(
+  graph: NetworkGraph,
+  point: Coordinates
+): { node: number; distance: number } | null {
+  let best = -1;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < graph.nodes.length; i++) {
+    if (graph.adjacency[i].length === 0) continue;
+    const distance = greatCircleDistance(point, graph.nodes[i]);
+    if (distance < bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  }
+
+  return best === -1 ? null : { node: best, distance: bestDistance };
+}
+
+/**
+ * Closest stop within maxDistance meters
+ */
+export function nearestStop(
+  graph: NetworkGraph,
+  point: Coordinates,
+  maxDistance: number
+): NetworkStop | null {
+  let best: NetworkStop | null = null;
+  let bestDistance = maxDistance;
+
+  for (const stop of graph.stops) {
+    const distance = greatCircleDistance(point, stop.coordinates);
+    if (distance <= bestDistance) {
+      best = stop;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Minimal binary min-heap keyed by priority
+ */
+class MinHeap {
+  private items: { node: number; priority: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, priority: number) {
+    const items = this.items;
+    items.push({ node, priority });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].priority <= items[i].priority) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].priority < items[smallest].priority) smallest = left;
+        if (right < items.length && items[right].priority < items[smallest].priority) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top.node;
+  }
+}
+
+/**
+ * A* shortest path between two nodes
+ * Returns the node coordinates and length in meters, or null if disconnected
+ */
+export function shortestPath(
+  graph: NetworkGraph,
+  from: number,
+  to: number
+): { path: Coordinates[]; distance: number } | null {
+  const { nodes, adjacency } = graph;
+  const cost = new Map<number, number>([[from, 0]]);
+  const previous = new Map<number, number>();
+  const closed = new Set<number>();
+  const open = new MinHeap();
+  open.push(from, greatCircleDistance(nodes[from], nodes[to]));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === to) break;
+    if (closed.has(current)) continue;
+    closed.add(current);
+
+    const currentCost = cost.get(current)!;
+    for (const edge of adjacency[current]) {
+      const nextCost = currentCost + edge.weight;
+      if (nextCost < (cost.get(edge.to) ?? Infinity)) {
+        cost.set(edge.to, nextCost);
+        previous.set(edge.to, current);
+        open.push(edge.to, nextCost + greatCircleDistance(nodes[edge.to], nodes[to]));
+      }
+    }
+  }
+
+  if (!cost.has(to)) return null;
+
+  const path: Coordinates[] = [];
+  for (let node: number | undefined = to; node !== undefined; node = previous.get(node)) {
+    path.push(nodes[node]);
+  }
+  path.reverse();
+
+  return { path, distance: cost.get(to)! };
+}
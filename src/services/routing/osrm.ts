@@ -0,0 +1,65 @@
+import { Coordinates, TransportMode } from '@/types';
+import { RoutingProvider, RoutingError } from './types';
+import { fetchRoutingJson } from './http';
+
+/**
+ * OSRM provider (self-hosted osrm-backend or any compatible server)
+ *
+ * Uses the standard /route/v1/{profile}/{coords} endpoint. A stock
+ * osrm-backend container serves a single dataset and ignores the profile
+ * segment of the URL; osrm-routed setups with several profiles behind a
+ * proxy get the right one per mode (driving, cycling, walking).
+ */
+
+type OsrmProfile = 'driving' | 'walking' | 'cycling';
+
+const OSRM_PROFILES: Partial<Record<TransportMode, OsrmProfile>> = {
+  car: 'driving',
+  motorcycle: 'driving',
+  bus: 'driving',
+  cycling: 'cycling',
+  walking: 'walking',
+  hiking: 'walking',
+};
+
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes?: {
+    geometry: { coordinates: Coordinates[] };
+    distance: number;
+    duration: number;
+  }[];
+}
+
+export function createOsrmProvider(baseUrl: string): RoutingProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    id: 'osrm',
+    label: 'OSRM',
+
+    supports: (mode) => mode in OSRM_PROFILES,
+
+    route: async ({ start, end, mode, signal }) => {
+      const profile = OSRM_PROFILES[mode];
+      if (!profile) {
+        throw new RoutingError('osrm', 'unsupported-mode', `OSRM cannot route "${mode}"`);
+      }
+
+      const url = `${root}/route/v1/${profile}/${start[0]},${start[1]};${end[0]},${end[1]}?overview=full&geometries=geojson`;
+      const data = await fetchRoutingJson<OsrmRouteResponse>('osrm', url, signal);
+
+      const route = data.routes?.[0];
+      if (data.code !== 'Ok' || !route) {
+        throw new RoutingError('osrm', 'no-route', data.message || 'OSRM found no route between these points');
+      }
+
+      return {
+        path: route.geometry.coordinates,
+        distance: route.distance,
+        duration: route.duration,
+      };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+import { RAIL_STATION_SNAP_RADIUS, RAIL_MAX_TRACK_DISTANCE } from '@/config/routing';
+import { RoutingProvider } from './types';
+import { createMissingNetworkProvider, createNetworkProvider, NetworkSource } from './network';
+
+/**
+ * Rail network provider (train mode only)
+ *
+ * Routes over a rail network GeoJSON (e.g. an OSM extract filtered to
+ * railway=rail plus railway=station points) instead of the road graph.
+ * Without a network, train segments fail with 'network-required' rather
+ * than following roads.
+ */
+
+const STATION_RAILWAY_TAGS = ['station', 'halt', 'stop'];
+
+function isStation(feature: GeoJSON.Feature): boolean {
+  const railway = feature.properties?.railway;
+  return typeof railway === 'string'
+    ? STATION_RAILWAY_TAGS.includes(railway)
+    : typeof feature.properties?.name === 'string';
+}
+
+export function createRailProvider(source: NetworkSource | null): RoutingProvider {
+  if (!source) return createMissingNetworkProvider('rail', 'Red ferroviaria', ['train']);
+  return createNetworkProvider({
+    id: 'rail',
+    label: 'Red ferroviaria',
+    modes: ['train'],
+    source,
+    isStop: isStation,
+    stopSnapRadius: RAIL_STATION_SNAP_RADIUS,
+    maxSnapDistance: RAIL_MAX_TRACK_DISTANCE,
+  });
+}
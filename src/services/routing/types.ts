@@ -0,0 +1,54 @@
+import { Coordinates, TransportMode } from '@/types';
+
+/**
+ * Routing provider contract
+ *
+ * A provider turns a start/end pair and a transport mode into a path.
+ * Providers throw RoutingError instead of silently returning a straight
+ * line, so the UI can tell the user what went wrong.
+ */
+
+export interface RoutingRequest {
+  start: Coordinates;
+  end: Coordinates;
+  mode: TransportMode;
+  signal?: AbortSignal;
+}
+
+export interface RoutingResult {
+  path: Coordinates[];
+  // Distance in meters, when the provider reports it
+  distance?: number;
+  // Duration in seconds, when the provider reports it
+  duration?: number;
+}
+
+export interface RoutingProvider {
+  id: string;
+  label: string;
+  supports: (mode: TransportMode) => boolean;
+  route: (request: RoutingRequest) => Promise<RoutingResult>;
+}
+
+// 'network-required': the mode needs a rail/sea network that is not set up
+// 'invalid-response': the service answered with something that is not JSON,
+//   or a network that is not a GeoJSON FeatureCollection
+export type RoutingErrorCode =
+  | 'network'
+  | 'http'
+  | 'invalid-response'
+  | 'no-route'
+  | 'unsupported-mode'
+  | 'network-required';
+
+export class RoutingError extends Error {
+  code: RoutingErrorCode;
+  provider: string;
+
+  constructor(provider: string, code: RoutingErrorCode, message: string) {
+    super(message);
+    this.name = 'RoutingError';
+    this.provider = provider;
+    this.code = code;
+  }
+}
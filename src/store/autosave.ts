@@ -0,0 +1,129 @@
+import { PersistStorage, StateStorage, StorageValue } from 'zustand/middleware';
+
+/**
+ * Debounced autosave storage for the Zustand persist middleware
+ *
+ * - Persist calls setItem on every state change (60 times per second
+ *   during playback); this adapter only keeps the latest value and
+ *   serializes it once the state has been quiet for `delay` ms
+ * - Writes are skipped when the serialized snapshot did not change
+ * - Starts paused so a previous session is not overwritten before the
+ *   user decides whether to restore it
+ * - The backend is any StateStorage (IndexedDB today, could be an HTTP
+ *   client for a future backend)
+ */
+
+export interface SavedSession<S> {
+  savedAt: Date;
+  state: S;
+}
+
+interface AutosaveEnvelope<S> extends StorageValue<S> {
+  savedAt: string;
+}
+
+export interface AutosaveStorage<S> extends PersistStorage<S> {
+  pause: () => void;
+  resume: () => void;
+  flush: () => Promise<void>;
+  getSavedSession: (name: string) => Promise<SavedSession<S> | null>;
+  onSaved: (listener: (savedAt: Date) => void) => () => void;
+}
+
+export function createAutosaveStorage<S>(
+  backend: StateStorage,
+  delay = 1000
+): AutosaveStorage<S> {
+  let paused = true;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending: { name: string; value: StorageValue<S> } | null = null;
+  let lastWritten: string | null = null;
+  const listeners = new Set<(savedAt: Date) => void>();
+
+  const write = async () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending || paused) return;
+
+    const { name, value } = pending;
+    pending = null;
+
+    const serialized = JSON.stringify(value);
+    if (serialized === lastWritten) return;
+
+    const savedAt = new Date();
+    const envelope: AutosaveEnvelope<S> = { ...value, savedAt: savedAt.toISOString() };
+    try {
+      await backend.setItem(name, JSON.stringify(envelope));
+      lastWritten = serialized;
+      listeners.forEach((listener) => listener(savedAt));
+    } catch (error) {
+      console.error('Autosave failed:', error);
+    }
+  };
+
+  const schedule = () => {
+    if (paused) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(write, delay);
+  };
+
+  return {
+    getItem: async (name) => {
+      const raw = await backend.getItem(name);
+      if (!raw) return null;
+      try {
+        const { savedAt: _savedAt, ...value } = JSON.parse(raw) as AutosaveEnvelope<S>;
+        return value;
+      } catch {
+        return null;
+      }
+    },
+
+    setItem: (name, value) => {
+      pending = { name, value };
+      schedule();
+    },
+
+    removeItem: async (name) => {
+      pending = null;
+      lastWritten = null;
+      await backend.removeItem(name);
+    },
+
+    pause: () => {
+      paused = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    },
+
+    resume: () => {
+      paused = false;
+      if (pending) schedule();
+    },
+
+    flush: write,
+
+    getSavedSession: async (name) => {
+      const raw = await backend.getItem(name);
+      if (!raw) return null;
+      try {
+        const envelope = JSON.parse(raw) as AutosaveEnvelope<S>;
+        return { savedAt: new Date(envelope.savedAt), state: envelope.state };
+      } catch {
+        return null;
+      }
+    },
+
+    onSaved: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import {
   Route,
   Waypoint,
@@ -11,8 +12,39 @@ import {
   MapStyle,
   UIState,
   ExportConfig,
+  RoutingConfig,
+  DistanceUnit,
+  LibraryState,
+  HistoryState,
+  TimingModel,
+  Easing,
+  Keyframe,
+  CameraState,
+  CameraMode,
+  CameraModeParams,
 } from '@/types';
 import { DEFAULT_MAP_CENTER, DEFAULT_MAP_ZOOM, DEFAULT_EXPORT_CONFIG } from '@/config/map';
+import { DEFAULT_ROUTING_CONFIG } from '@/config/routing';
+import {
+  CAMERA_MODES,
+  CAMERA_PARAM_FIELDS,
+  DEFAULT_CAMERA_PARAMS,
+  EASINGS,
+  TIMING_MODELS,
+} from '@/config/animation';
+import { generateId } from '@/utils/id';
+import { withSegmentMetrics, SegmentMetrics } from '@/utils/metrics';
+import { getAnimationTimeline, locateProgress } from '@/utils/timing';
+import { sortKeyframes } from '@/utils/keyframes';
+import { parseRouteFile, ROUTE_SCHEMA_VERSION } from '@/utils/routeSchema';
+import { indexedDbSessionStorage } from '@/utils/sessionStorage';
+import { createAutosaveStorage } from './autosave';
+import {
+  listLibraryEntries,
+  putLibraryRoute,
+  getLibraryRoute,
+  deleteLibraryRoute as removeFromLibrary,
+} from '@/utils/routeLibrary';
 
 /**
  * Main application store using Zustand with Immer for immutable updates
@@ -30,12 +62,21 @@ interface RouteStore {
   selectedSegmentId: string | null;
   editMode: EditMode;
 
+  // Undo/redo history of route edits
+  history: HistoryState;
+
+  // Saved routes (IndexedDB)
+  library: LibraryState;
+
   // Animation state
   animation: AnimationState;
 
   // Map configuration
   mapConfig: MapConfig;
 
+  // Routing provider configuration
+  routingConfig: RoutingConfig;
+
   // UI state
   ui: UIState;
 
@@ -51,8 +92,39 @@ interface RouteStore {
   
   // Segment actions
   updateSegmentTransport: (segmentId: string, mode: TransportMode) => void;
-  updateSegmentPath: (segmentId: string, path: Coordinates[]) => void;
+  // Routed paths pass the provider's distance/duration; others are computed
+  updateSegmentPath: (segmentId: string, path: Coordinates[], metrics?: Partial<SegmentMetrics>) => void;
+  // Fixed animation time in seconds (undefined = share animation.duration)
+  setSegmentAnimationDuration: (segmentId: string, seconds: number | undefined) => void;
+  setWaypointDwell: (waypointId: string, seconds: number) => void;
+  // undefined = use the global easing
+  setSegmentEasing: (segmentId: string, easing: Easing | undefined) => void;
+
+  // Timeline keyframe actions
+  addKeyframe: (keyframe: Keyframe) => void;
+  updateKeyframe: (id: string, updates: KeyframeUpdate) => void;
+  removeKeyframe: (id: string) => void;
   
+  // History actions
+  undo: () => void;
+  redo: () => void;
+  // Group the edits of a synchronous gesture (e.g. a timeline drag) into
+  // one entry; async operations use applySegmentUpdates instead
+  beginHistoryBatch: () => void;
+  endHistoryBatch: () => void;
+  // Results of async work started on `base` (e.g. routing), as one undo
+  // step; dropped (false) if its waypoints or segments changed meanwhile
+  applySegmentUpdates: (base: Route, updates: SegmentUpdate[]) => boolean;
+
+  // Library actions (async, persisted in IndexedDB)
+  refreshLibrary: () => Promise<void>;
+  saveRouteToLibrary: (thumbnail?: string) => Promise<void>;
+  openLibraryRoute: (id: string) => Promise<void>;
+  duplicateLibraryRoute: (id: string) => Promise<void>;
+  renameLibraryRoute: (id: string, name: string) => Promise<void>;
+  deleteLibraryRoute: (id: string) => Promise<void>;
+  setLibraryError: (error: string | null) => void;
+
   // Selection actions
   selectWaypoint: (id: string | null) => void;
   selectSegment: (id: string | null) => void;
@@ -64,13 +136,20 @@ interface RouteStore {
   stopAnimation: () => void;
   setAnimationProgress: (progress: number) => void;
   setAnimationDuration: (duration: number) => void;
-  updateAnimationFrame: (deltaTime: number) => void;
-  setCameraFollow: (enabled: boolean) => void;
-  setCameraZoomExtra: (zoom: number) => void;
+  setTimingModel: (model: TimingModel) => void;
+  setEasing: (easing: Easing) => void;
+  // Set the playback clock (seconds since the start of the animation)
+  updateAnimationFrame: (time: number) => void;
+  setCameraMode: (mode: CameraMode) => void;
+  setCameraParams: <M extends keyof CameraModeParams>(mode: M, params: Partial<CameraModeParams[M]>) => void;
 
   // Map actions
   setMapStyle: (style: MapStyle) => void;
   setMapView: (center: Coordinates, zoom: number) => void;
+  setDistanceUnit: (unit: DistanceUnit) => void;
+
+  // Routing actions
+  setRoutingConfig: (config: Partial<RoutingConfig>) => void;
 
   // UI actions
   toggleSidebar: () => void;
@@ -85,498 +164,1043 @@ interface RouteStore {
   loadRoute: (route: Route) => void;
 }
 
-const generateId = () => Math.random().toString(36).substring(2, 11);
+export interface SegmentUpdate {
+  segmentId: string;
+  transportMode?: TransportMode;
+  path?: Coordinates[];
+  // Provider distance/duration for routed paths
+  metrics?: Partial<SegmentMetrics>;
+}
 
-export const useRouteStore = create<RouteStore>()(
-  // Note: immer middleware needs to be installed separately
-  // For MVP, using manual immutable updates
-  (set, get) => ({
-    // Initial state
-    route: null,
-    selectedWaypointId: null,
-    selectedSegmentId: null,
-    editMode: 'select',
-
-    animation: {
-      isPlaying: false,
-      isPaused: false,
-      currentProgress: 0,
-      currentSegmentIndex: 0,
-      segmentProgress: 0,
-      duration: 15,
-      cameraFollow: true,
-      cameraZoomExtra: 2,
-    },
+// Fields that can change on an existing keyframe (its type is fixed)
+export interface KeyframeUpdate {
+  time?: number;
+  camera?: CameraState;
+  followVehicle?: boolean;
+  text?: string;
+  duration?: number;
+}
 
-    mapConfig: {
-      style: 'streets',
-      center: DEFAULT_MAP_CENTER,
-      zoom: DEFAULT_MAP_ZOOM,
-      bearing: 0,
-      pitch: 0,
-    },
+/**
+ * Autosave (Zustand persist)
+ *
+ * Only the working document is persisted: the route, map, routing and
+ * export configuration, and animation settings (not playback state).
+ * Hydration is skipped at startup; SessionRestorePrompt offers to restore
+ * the last session and resumes autosave afterwards.
+ */
+export const AUTOSAVE_KEY = 'route-animator-session';
 
-    ui: {
-      sidebarOpen: true,
-      activePanel: 'waypoints',
-      isExporting: false,
-      exportProgress: 0,
-    },
+type PersistedState = Pick<RouteStore, 'route' | 'mapConfig' | 'routingConfig' | 'exportConfig'> & {
+  animation: Pick<AnimationState, 'duration' | 'timingModel' | 'easing' | 'cameraMode' | 'cameraParams'>;
+};
 
-    exportConfig: DEFAULT_EXPORT_CONFIG,
+// Animation settings as stored: older sessions have the follow toggle
+// instead of camera modes, and may lack params of newer modes
+type StoredAnimationSettings = Partial<Omit<PersistedState['animation'], 'cameraParams'>> & {
+  cameraParams?: { [M in keyof CameraModeParams]?: Partial<CameraModeParams[M]> };
+  cameraFollow?: boolean;
+  cameraZoomExtra?: number;
+};
 
-    // Route actions
-    createRoute: (name) => {
-      set({
-        route: {
-          id: generateId(),
-          name,
-          waypoints: [],
-          segments: [],
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        },
-      });
+// A stored camera parameter clamped to its control's range, or the default
+function storedCameraParam<M extends keyof CameraModeParams>(
+  stored: StoredAnimationSettings['cameraParams'],
+  mode: M,
+  key: keyof CameraModeParams[M] & string
+): number {
+  const fallback = DEFAULT_CAMERA_PARAMS[mode][key] as number;
+  const value = stored?.[mode]?.[key];
+  const field = CAMERA_PARAM_FIELDS[mode].find((candidate) => candidate.key === key);
+  if (typeof value !== 'number' || !Number.isFinite(value) || !field) return fallback;
+  return Math.max(field.min, Math.min(field.max, value));
+}
+
+// A stored option if it is one of `allowed`, or the default
+function storedChoice<T extends string>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Persisted animation settings over the defaults
+ * Camera params are rebuilt key by key from DEFAULT_CAMERA_PARAMS, so
+ * missing, invalid or out-of-range stored values fall back or get
+ * clamped; unknown modes, timing models and easings fall back too. The
+ * old follow toggle maps to the follow/off modes.
+ */
+function mergeAnimationSettings(current: AnimationState, stored: StoredAnimationSettings = {}): AnimationState {
+  const { cameraFollow, cameraZoomExtra, cameraParams = {}, ...settings } = stored;
+  const params =
+    cameraZoomExtra !== undefined && !cameraParams.follow
+      ? { ...cameraParams, follow: { zoomExtra: cameraZoomExtra } }
+      : cameraParams;
+
+  const merged: CameraModeParams = {
+    follow: {
+      zoomExtra: storedCameraParam(params, 'follow', 'zoomExtra'),
+      pitch: storedCameraParam(params, 'follow', 'pitch'),
+    },
+    overview: {
+      padding: storedCameraParam(params, 'overview', 'padding'),
+      pitch: storedCameraParam(params, 'overview', 'pitch'),
+      bearing: storedCameraParam(params, 'overview', 'bearing'),
+    },
+    chase: {
+      zoomExtra: storedCameraParam(params, 'chase', 'zoomExtra'),
     },
+    orbit: {
+      zoomExtra: storedCameraParam(params, 'orbit', 'zoomExtra'),
+      pitch: storedCameraParam(params, 'orbit', 'pitch'),
+      speed: storedCameraParam(params, 'orbit', 'speed'),
+    },
+    'segment-fit': {
+      padding: storedCameraParam(params, 'segment-fit', 'padding'),
+      pitch: storedCameraParam(params, 'segment-fit', 'pitch'),
+      transition: storedCameraParam(params, 'segment-fit', 'transition'),
+    },
+  };
 
-    addWaypoint: (coordinates, label) => {
-      const { route, animation } = get();
-      if (!route) return;
+  let cameraMode: unknown = settings.cameraMode;
+  if (cameraFollow !== undefined && cameraMode === undefined) {
+    cameraMode = cameraFollow ? 'follow' : 'off';
+  }
 
-      const newWaypoint: Waypoint = {
-        id: generateId(),
-        coordinates,
-        label,
-        order: route.waypoints.length,
-      };
+  return {
+    ...current,
+    ...settings,
+    cameraMode: storedChoice(cameraMode, CAMERA_MODES, current.cameraMode),
+    timingModel: storedChoice(settings.timingModel, TIMING_MODELS, current.timingModel),
+    easing: storedChoice(settings.easing, EASINGS, current.easing),
+    cameraParams: merged,
+  };
+}
 
-      const updatedWaypoints = [...route.waypoints, newWaypoint];
-      
-      // Create segment if there's a previous waypoint
-      let updatedSegments = [...route.segments];
-      if (route.waypoints.length > 0) {
-        const previousWaypoint = route.waypoints[route.waypoints.length - 1];
-        const newSegment: RouteSegment = {
+/**
+ * Undo/redo
+ *
+ * Every mutating route action records the previous route in
+ * `history.past`. While a batch is open, edits are not recorded
+ * individually; closing the batch records the route as it was when the
+ * batch started, so the whole gesture undoes in one step. Batches are
+ * for synchronous gestures only: one left open across an await would
+ * swallow unrelated edits. A batch whose route was replaced or whose
+ * history moved (undo, redo, load) is dropped.
+ */
+const HISTORY_LIMIT = 100;
+
+let historyBatchDepth = 0;
+let historyBatchStart: { route: Route | null; history: HistoryState } | null = null;
+
+function recordHistory(state: Pick<RouteStore, 'route' | 'history'>): HistoryState {
+  if (!state.route || historyBatchDepth > 0) return state.history;
+  return {
+    past: [...state.history.past, state.route].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+}
+
+const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+// Drop selections that point at waypoints/segments missing from `route`
+function selectionFor(
+  route: Route,
+  state: Pick<RouteStore, 'selectedWaypointId' | 'selectedSegmentId'>
+) {
+  return {
+    selectedWaypointId: route.waypoints.some((wp) => wp.id === state.selectedWaypointId)
+      ? state.selectedWaypointId
+      : null,
+    selectedSegmentId: route.segments.some((seg) => seg.id === state.selectedSegmentId)
+      ? state.selectedSegmentId
+      : null,
+  };
+}
+
+function resetPlayback(animation: AnimationState): AnimationState {
+  return {
+    ...animation,
+    isPlaying: false,
+    isPaused: false,
+    currentProgress: 0,
+    currentSegmentIndex: 0,
+    segmentProgress: 0,
+  };
+}
+
+export const autosaveStorage = createAutosaveStorage<PersistedState>(indexedDbSessionStorage);
+
+export const useRouteStore = create<RouteStore>()(
+  persist(
+    // Note: immer middleware needs to be installed separately
+    // For MVP, using manual immutable updates
+    (set, get) => ({
+      // Initial state
+      route: null,
+      selectedWaypointId: null,
+      selectedSegmentId: null,
+      editMode: 'select',
+
+      history: EMPTY_HISTORY,
+
+      library: {
+        entries: [],
+        isLoading: false,
+        error: null,
+      },
+
+      animation: {
+        isPlaying: false,
+        isPaused: false,
+        currentProgress: 0,
+        currentSegmentIndex: 0,
+        segmentProgress: 0,
+        duration: 15,
+        timingModel: 'duration',
+        easing: 'ease-in-out',
+        cameraMode: 'follow',
+        cameraParams: DEFAULT_CAMERA_PARAMS,
+      },
+
+      mapConfig: {
+        style: 'streets',
+        center: DEFAULT_MAP_CENTER,
+        zoom: DEFAULT_MAP_ZOOM,
+        bearing: 0,
+        pitch: 0,
+        distanceUnit: 'km',
+      },
+
+      routingConfig: DEFAULT_ROUTING_CONFIG,
+
+      ui: {
+        sidebarOpen: true,
+        activePanel: 'waypoints',
+        isExporting: false,
+        exportProgress: 0,
+        lastSavedAt: null,
+      },
+
+      exportConfig: DEFAULT_EXPORT_CONFIG,
+
+      // Route actions
+      createRoute: (name) => {
+        set({
+          route: {
+            id: generateId(),
+            name,
+            waypoints: [],
+            segments: [],
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          },
+          history: EMPTY_HISTORY,
+        });
+      },
+
+      addWaypoint: (coordinates, label) => {
+        const { route, animation } = get();
+        if (!route) return;
+
+        const newWaypoint: Waypoint = {
           id: generateId(),
-          startWaypointId: previousWaypoint.id,
-          endWaypointId: newWaypoint.id,
-          transportMode: 'car', // Default transport mode
-          path: [previousWaypoint.coordinates, coordinates], // Initial direct path
+          coordinates,
+          label,
+          order: route.waypoints.length,
         };
-        updatedSegments = [...updatedSegments, newSegment];
-      }
-
-      set({
-        route: {
-          ...route,
-          waypoints: updatedWaypoints,
-          segments: updatedSegments,
-          updatedAt: new Date(),
-        },
-        // Reset animation when route changes
-        animation: {
-          ...animation,
-          isPlaying: false,
-          isPaused: false,
-          currentProgress: 0,
-          currentSegmentIndex: 0,
-          segmentProgress: 0,
-        },
-      });
-    },
 
-    updateWaypoint: (id, updates) => {
-      const { route } = get();
-      if (!route) return;
-
-      set({
-        route: {
-          ...route,
-          waypoints: route.waypoints.map((wp) =>
-            wp.id === id ? { ...wp, ...updates } : wp
-          ),
-          updatedAt: new Date(),
-        },
-      });
-    },
+        const updatedWaypoints = [...route.waypoints, newWaypoint];
+      
+        // Create segment if there's a previous waypoint
+        let updatedSegments = [...route.segments];
+        if (route.waypoints.length > 0) {
+          const previousWaypoint = route.waypoints[route.waypoints.length - 1];
+          const newSegment = withSegmentMetrics({
+            id: generateId(),
+            startWaypointId: previousWaypoint.id,
+            endWaypointId: newWaypoint.id,
+            transportMode: 'car', // Default transport mode
+            path: [previousWaypoint.coordinates, coordinates], // Initial direct path
+          });
+          updatedSegments = [...updatedSegments, newSegment];
+        }
+
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            waypoints: updatedWaypoints,
+            segments: updatedSegments,
+            updatedAt: new Date(),
+          },
+          // Reset animation when route changes
+          animation: {
+            ...animation,
+            isPlaying: false,
+            isPaused: false,
+            currentProgress: 0,
+            currentSegmentIndex: 0,
+            segmentProgress: 0,
+          },
+        });
+      },
+
+      updateWaypoint: (id, updates) => {
+        const { route } = get();
+        if (!route) return;
 
-    removeWaypoint: (id) => {
-      const { route, selectedWaypointId, animation } = get();
-      if (!route) return;
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            waypoints: route.waypoints.map((wp) =>
+              wp.id === id ? { ...wp, ...updates } : wp
+            ),
+            updatedAt: new Date(),
+          },
+        });
+      },
+
+      removeWaypoint: (id) => {
+        const { route, selectedWaypointId, animation } = get();
+        if (!route) return;
 
-      const waypointIndex = route.waypoints.findIndex((wp) => wp.id === id);
-      if (waypointIndex === -1) return;
+        const waypointIndex = route.waypoints.findIndex((wp) => wp.id === id);
+        if (waypointIndex === -1) return;
 
-      // Remove waypoint and update order
-      const updatedWaypoints = route.waypoints
-        .filter((wp) => wp.id !== id)
-        .map((wp, index) => ({ ...wp, order: index }));
+        // Remove waypoint and update order
+        const updatedWaypoints = route.waypoints
+          .filter((wp) => wp.id !== id)
+          .map((wp, index) => ({ ...wp, order: index }));
 
-      // Rebuild segments from scratch based on remaining waypoints (in order)
-      const updatedSegments: RouteSegment[] = [];
+        // Rebuild segments from scratch based on remaining waypoints (in order)
+        const updatedSegments: RouteSegment[] = [];
       
-      for (let i = 0; i < updatedWaypoints.length - 1; i++) {
-        const startWp = updatedWaypoints[i];
-        const endWp = updatedWaypoints[i + 1];
+        for (let i = 0; i < updatedWaypoints.length - 1; i++) {
+          const startWp = updatedWaypoints[i];
+          const endWp = updatedWaypoints[i + 1];
         
-        // Try to find existing segment between these two waypoints
-        const existingSegment = route.segments.find(
-          (seg) => seg.startWaypointId === startWp.id && seg.endWaypointId === endWp.id
-        );
+          // Try to find existing segment between these two waypoints
+          const existingSegment = route.segments.find(
+            (seg) => seg.startWaypointId === startWp.id && seg.endWaypointId === endWp.id
+          );
         
-        if (existingSegment) {
-          // Keep existing segment with its path and transport mode
-          updatedSegments.push(existingSegment);
-        } else {
-          // Create new segment (happens when a middle waypoint is removed)
-          // Try to inherit transport mode from adjacent segments
-          const prevSegment = route.segments.find(s => s.endWaypointId === startWp.id);
-          const nextSegment = route.segments.find(s => s.startWaypointId === endWp.id);
-          const inheritedMode = prevSegment?.transportMode || nextSegment?.transportMode || 'car';
+          if (existingSegment) {
+            // Keep existing segment with its path and transport mode
+            updatedSegments.push(existingSegment);
+          } else {
+            // Create new segment (happens when a middle waypoint is removed)
+            // Try to inherit transport mode from adjacent segments
+            const prevSegment = route.segments.find(s => s.endWaypointId === startWp.id);
+            const nextSegment = route.segments.find(s => s.startWaypointId === endWp.id);
+            const inheritedMode = prevSegment?.transportMode || nextSegment?.transportMode || 'car';
           
-          updatedSegments.push({
-            id: generateId(),
-            startWaypointId: startWp.id,
-            endWaypointId: endWp.id,
-            transportMode: inheritedMode,
-            path: [startWp.coordinates, endWp.coordinates], // Direct path, needs recalculation
-          });
+            updatedSegments.push(withSegmentMetrics({
+              id: generateId(),
+              startWaypointId: startWp.id,
+              endWaypointId: endWp.id,
+              transportMode: inheritedMode,
+              path: [startWp.coordinates, endWp.coordinates], // Direct path, needs recalculation
+            }));
+          }
         }
-      }
-
-      // Reset animation when route structure changes
-      set({
-        route: {
-          ...route,
-          waypoints: updatedWaypoints,
-          segments: updatedSegments,
-          updatedAt: new Date(),
-        },
-        selectedWaypointId: selectedWaypointId === id ? null : selectedWaypointId,
-        // Reset animation to beginning when route changes
-        animation: {
-          ...animation,
-          isPlaying: false,
-          isPaused: false,
-          currentProgress: 0,
-          currentSegmentIndex: 0,
-          segmentProgress: 0,
-        },
-      });
-    },
 
-    reorderWaypoints: (fromIndex, toIndex) => {
-      const { route, animation } = get();
-      if (!route) return;
-
-      const waypoints = [...route.waypoints];
-      const [removed] = waypoints.splice(fromIndex, 1);
-      waypoints.splice(toIndex, 0, removed);
-
-      // Update order property
-      const updatedWaypoints = waypoints.map((wp, index) => ({
-        ...wp,
-        order: index,
-      }));
-
-      // Rebuild segments based on new order
-      const updatedSegments: RouteSegment[] = [];
-      for (let i = 0; i < updatedWaypoints.length - 1; i++) {
-        const startWp = updatedWaypoints[i];
-        const endWp = updatedWaypoints[i + 1];
+        // Reset animation when route structure changes
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            waypoints: updatedWaypoints,
+            segments: updatedSegments,
+            updatedAt: new Date(),
+          },
+          selectedWaypointId: selectedWaypointId === id ? null : selectedWaypointId,
+          // Reset animation to beginning when route changes
+          animation: {
+            ...animation,
+            isPlaying: false,
+            isPaused: false,
+            currentProgress: 0,
+            currentSegmentIndex: 0,
+            segmentProgress: 0,
+          },
+        });
+      },
+
+      reorderWaypoints: (fromIndex, toIndex) => {
+        const { route, animation } = get();
+        if (!route) return;
+
+        const waypoints = [...route.waypoints];
+        const [removed] = waypoints.splice(fromIndex, 1);
+        waypoints.splice(toIndex, 0, removed);
+
+        // Update order property
+        const updatedWaypoints = waypoints.map((wp, index) => ({
+          ...wp,
+          order: index,
+        }));
+
+        // Rebuild segments based on new order
+        const updatedSegments: RouteSegment[] = [];
+        for (let i = 0; i < updatedWaypoints.length - 1; i++) {
+          const startWp = updatedWaypoints[i];
+          const endWp = updatedWaypoints[i + 1];
         
-        // Try to find existing segment (might have different direction)
-        const existingSegment = route.segments.find(
-          (seg) =>
-            (seg.startWaypointId === startWp.id && seg.endWaypointId === endWp.id) ||
-            (seg.startWaypointId === endWp.id && seg.endWaypointId === startWp.id)
-        );
+          // Try to find existing segment (might have different direction)
+          const existingSegment = route.segments.find(
+            (seg) =>
+              (seg.startWaypointId === startWp.id && seg.endWaypointId === endWp.id) ||
+              (seg.startWaypointId === endWp.id && seg.endWaypointId === startWp.id)
+          );
 
-        updatedSegments.push({
-          id: existingSegment?.id || generateId(),
-          startWaypointId: startWp.id,
-          endWaypointId: endWp.id,
-          transportMode: existingSegment?.transportMode || 'car',
-          path: existingSegment?.path || [startWp.coordinates, endWp.coordinates],
-        });
-      }
-
-      set({
-        route: {
-          ...route,
-          waypoints: updatedWaypoints,
-          segments: updatedSegments,
-          updatedAt: new Date(),
-        },
-        // Reset animation when route structure changes
-        animation: {
-          ...animation,
-          isPlaying: false,
-          isPaused: false,
-          currentProgress: 0,
-          currentSegmentIndex: 0,
-          segmentProgress: 0,
-        },
-      });
-    },
+          updatedSegments.push(withSegmentMetrics(
+            {
+              id: existingSegment?.id || generateId(),
+              startWaypointId: startWp.id,
+              endWaypointId: endWp.id,
+              transportMode: existingSegment?.transportMode || 'car',
+              path: existingSegment?.path || [startWp.coordinates, endWp.coordinates],
+              animationDuration: existingSegment?.animationDuration,
+              easing: existingSegment?.easing,
+            },
+            existingSegment ?? {}
+          ));
+        }
 
-    // Segment actions
-    updateSegmentTransport: (segmentId, mode) => {
-      const { route } = get();
-      if (!route) return;
-
-      set({
-        route: {
-          ...route,
-          segments: route.segments.map((seg) =>
-            seg.id === segmentId ? { ...seg, transportMode: mode } : seg
-          ),
-          updatedAt: new Date(),
-        },
-      });
-    },
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            waypoints: updatedWaypoints,
+            segments: updatedSegments,
+            updatedAt: new Date(),
+          },
+          // Reset animation when route structure changes
+          animation: {
+            ...animation,
+            isPlaying: false,
+            isPaused: false,
+            currentProgress: 0,
+            currentSegmentIndex: 0,
+            segmentProgress: 0,
+          },
+        });
+      },
 
-    updateSegmentPath: (segmentId, path) => {
-      const { route } = get();
-      if (!route) return;
-
-      set({
-        route: {
-          ...route,
-          segments: route.segments.map((seg) =>
-            seg.id === segmentId ? { ...seg, path } : seg
-          ),
-          updatedAt: new Date(),
-        },
-      });
-    },
+      // Segment actions
+      updateSegmentTransport: (segmentId, mode) => {
+        const { route } = get();
+        if (!route) return;
 
-    // Selection actions
-    selectWaypoint: (id) => set({ selectedWaypointId: id, selectedSegmentId: null }),
-    selectSegment: (id) => set({ selectedSegmentId: id, selectedWaypointId: null }),
-    setEditMode: (mode) => set({ editMode: mode }),
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            // Distance still matches the path; the duration estimate follows the mode
+            segments: route.segments.map((seg) =>
+              seg.id === segmentId
+                ? withSegmentMetrics({ ...seg, transportMode: mode }, { distance: seg.distance })
+                : seg
+            ),
+            updatedAt: new Date(),
+          },
+        });
+      },
 
-    // Animation actions
-    playAnimation: () => {
-      const { animation } = get();
-      const isAtEnd = animation.currentProgress >= 1;
-      set({
-        animation: {
-          ...animation,
-          isPlaying: true,
-          isPaused: false,
-          currentProgress: isAtEnd ? 0 : animation.currentProgress,
-          currentSegmentIndex: isAtEnd ? 0 : animation.currentSegmentIndex,
-          segmentProgress: isAtEnd ? 0 : animation.segmentProgress,
-        },
-      });
-    },
+      updateSegmentPath: (segmentId, path, metrics) => {
+        const { route } = get();
+        if (!route) return;
 
-    pauseAnimation: () => {
-      set({
-        animation: {
-          ...get().animation,
-          isPlaying: false,
-          isPaused: true,
-        },
-      });
-    },
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            segments: route.segments.map((seg) =>
+              seg.id === segmentId ? withSegmentMetrics({ ...seg, path }, metrics) : seg
+            ),
+            updatedAt: new Date(),
+          },
+        });
+      },
 
-    stopAnimation: () => {
-      const { animation } = get();
-      set({
-        animation: {
-          isPlaying: false,
-          isPaused: false,
-          currentProgress: 0,
-          currentSegmentIndex: 0,
-          segmentProgress: 0,
-          duration: animation.duration,
-          cameraFollow: animation.cameraFollow,
-          cameraZoomExtra: animation.cameraZoomExtra,
-        },
-      });
-    },
+      setSegmentAnimationDuration: (segmentId, seconds) => {
+        const { route } = get();
+        if (!route) return;
 
-    setAnimationProgress: (progress) => {
-      const { route } = get();
-      if (!route || route.segments.length === 0) return;
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            segments: route.segments.map((seg) => {
+              if (seg.id !== segmentId) return seg;
+              const { animationDuration: _previous, ...rest } = seg;
+              return seconds === undefined ? rest : { ...rest, animationDuration: Math.max(0, seconds) };
+            }),
+            updatedAt: new Date(),
+          },
+        });
+        // Keep the marker where the current progress now falls
+        get().setAnimationProgress(get().animation.currentProgress);
+      },
 
-      const segmentCount = route.segments.length;
-      const segmentIndex = Math.min(
-        Math.floor(progress * segmentCount),
-        segmentCount - 1
-      );
-      const segmentProgress = (progress * segmentCount) % 1;
+      setWaypointDwell: (waypointId, seconds) => {
+        const { route } = get();
+        if (!route) return;
 
-      set({
-        animation: {
-          ...get().animation,
-          currentProgress: progress,
-          currentSegmentIndex: segmentIndex,
-          segmentProgress: segmentProgress,
-        },
-      });
-    },
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            waypoints: route.waypoints.map((wp) => {
+              if (wp.id !== waypointId) return wp;
+              const { dwell: _previous, ...rest } = wp;
+              return seconds > 0 ? { ...rest, dwell: seconds } : rest;
+            }),
+            updatedAt: new Date(),
+          },
+        });
+        get().setAnimationProgress(get().animation.currentProgress);
+      },
 
-    setAnimationDuration: (duration) => {
-      set({
-        animation: {
-          ...get().animation,
-          duration,
-        },
-      });
-    },
+      setSegmentEasing: (segmentId, easing) => {
+        const { route } = get();
+        if (!route) return;
 
-    setCameraFollow: (enabled) => {
-      set({
-        animation: {
-          ...get().animation,
-          cameraFollow: enabled,
-        },
-      });
-    },
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            segments: route.segments.map((seg) => {
+              if (seg.id !== segmentId) return seg;
+              const { easing: _previous, ...rest } = seg;
+              return easing === undefined ? rest : { ...rest, easing };
+            }),
+            updatedAt: new Date(),
+          },
+        });
+      },
 
-    setCameraZoomExtra: (zoom) => {
-      set({
-        animation: {
-          ...get().animation,
-          cameraZoomExtra: Math.max(0, Math.min(8, zoom)),
-        },
-      });
-    },
+      // Timeline keyframe actions
+      addKeyframe: (keyframe) => {
+        const { route } = get();
+        if (!route) return;
+
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            keyframes: sortKeyframes([...(route.keyframes ?? []), keyframe]),
+            updatedAt: new Date(),
+          },
+        });
+      },
+
+      updateKeyframe: (id, updates) => {
+        const { route } = get();
+        if (!route?.keyframes) return;
+
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            keyframes: sortKeyframes(
+              route.keyframes.map((kf) => (kf.id === id ? ({ ...kf, ...updates } as Keyframe) : kf))
+            ),
+            updatedAt: new Date(),
+          },
+        });
+      },
+
+      removeKeyframe: (id) => {
+        const { route } = get();
+        if (!route?.keyframes) return;
+
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            keyframes: route.keyframes.filter((kf) => kf.id !== id),
+            updatedAt: new Date(),
+          },
+        });
+      },
 
-    updateAnimationFrame: (deltaTime) => {
-      const { animation, route } = get();
-      if (!route || !animation.isPlaying || route.segments.length === 0) return;
+      // History actions
+      undo: () => {
+        const { route, history, animation } = get();
+        const previous = history.past[history.past.length - 1];
+        if (!previous || !route) return;
+
+        set({
+          route: previous,
+          history: {
+            past: history.past.slice(0, -1),
+            future: [route, ...history.future],
+          },
+          ...selectionFor(previous, get()),
+          animation: resetPlayback(animation),
+        });
+      },
+
+      redo: () => {
+        const { route, history, animation } = get();
+        const [next, ...future] = history.future;
+        if (!next || !route) return;
+
+        set({
+          route: next,
+          history: {
+            past: [...history.past, route].slice(-HISTORY_LIMIT),
+            future,
+          },
+          ...selectionFor(next, get()),
+          animation: resetPlayback(animation),
+        });
+      },
+
+      beginHistoryBatch: () => {
+        if (historyBatchDepth === 0) {
+          const { route, history } = get();
+          historyBatchStart = { route, history };
+        }
+        historyBatchDepth += 1;
+      },
 
-      const progressIncrement = deltaTime / (animation.duration * 1000);
-      const newProgress = Math.min(animation.currentProgress + progressIncrement, 1);
+      endHistoryBatch: () => {
+        if (historyBatchDepth === 0) return;
+        historyBatchDepth -= 1;
+        if (historyBatchDepth > 0) return;
 
-      if (newProgress >= 1) {
-        if (animation.cameraFollow) {
-          // Keep at 100% so MapContainer can handle the zoom-out
+        const { route, history } = get();
+        const start = historyBatchStart;
+        historyBatchStart = null;
+        if (
+          start?.route &&
+          route &&
+          start.route !== route &&
+          start.route.id === route.id &&
+          start.history === history
+        ) {
           set({
-            animation: {
-              ...animation,
-              isPlaying: false,
-              isPaused: false,
-              currentProgress: 1,
-              currentSegmentIndex: route.segments.length - 1,
-              segmentProgress: 1,
+            history: {
+              past: [...history.past, start.route].slice(-HISTORY_LIMIT),
+              future: [],
             },
           });
-        } else {
+        }
+      },
+
+      applySegmentUpdates: (base, updates) => {
+        const { route } = get();
+        // Any edit of the waypoints or segments, undo or load since `base`
+        // makes the results stale; a rename or library save does not
+        if (
+          !route ||
+          route.id !== base.id ||
+          route.waypoints !== base.waypoints ||
+          route.segments !== base.segments
+        ) {
+          return false;
+        }
+
+        const bySegment = new Map(updates.map((update) => [update.segmentId, update]));
+        set({
+          history: recordHistory(get()),
+          route: {
+            ...route,
+            segments: route.segments.map((seg) => {
+              const update = bySegment.get(seg.id);
+              if (!update) return seg;
+              const transportMode = update.transportMode ?? seg.transportMode;
+              return update.path
+                ? withSegmentMetrics({ ...seg, transportMode, path: update.path }, update.metrics)
+                : withSegmentMetrics({ ...seg, transportMode }, { distance: seg.distance });
+            }),
+            updatedAt: new Date(),
+          },
+        });
+        return true;
+      },
+
+      // Library actions
+      refreshLibrary: async () => {
+        set({ library: { ...get().library, isLoading: true, error: null } });
+        try {
+          const entries = await listLibraryEntries();
+          set({ library: { entries, isLoading: false, error: null } });
+        } catch (error) {
+          console.error('Error loading route library:', error);
           set({
-            animation: {
-              ...animation,
-              isPlaying: false,
-              isPaused: false,
-              currentProgress: 0,
-              currentSegmentIndex: 0,
-              segmentProgress: 0,
+            library: {
+              ...get().library,
+              isLoading: false,
+              error: 'No se pudo cargar la biblioteca de rutas',
             },
           });
         }
-      } else {
-        get().setAnimationProgress(newProgress);
-      }
-    },
+      },
 
-    // Map actions
-    setMapStyle: (style) => {
-      set({
-        mapConfig: {
-          ...get().mapConfig,
-          style,
-        },
-      });
-    },
+      saveRouteToLibrary: async (thumbnail) => {
+        const { route } = get();
+        if (!route) return;
 
-    setMapView: (center, zoom) => {
-      set({
-        mapConfig: {
-          ...get().mapConfig,
-          center,
-          zoom,
-        },
-      });
-    },
+        // The open route is left as is so routing in progress is not dropped
+        await putLibraryRoute({ ...route, updatedAt: new Date() }, thumbnail);
+        await get().refreshLibrary();
+      },
 
-    // UI actions
-    toggleSidebar: () => {
-      set({
-        ui: {
-          ...get().ui,
-          sidebarOpen: !get().ui.sidebarOpen,
-        },
-      });
-    },
+      openLibraryRoute: async (id) => {
+        const route = await getLibraryRoute(id);
+        if (route) {
+          get().loadRoute(route);
+        }
+      },
 
-    setActivePanel: (panel) => {
-      set({
-        ui: {
-          ...get().ui,
-          activePanel: panel,
-        },
-      });
-    },
+      duplicateLibraryRoute: async (id) => {
+        const original = await getLibraryRoute(id);
+        if (!original) return;
 
-    setExporting: (isExporting, progress = 0) => {
-      set({
-        ui: {
-          ...get().ui,
-          isExporting,
-          exportProgress: progress,
-        },
-      });
-    },
+        const entry = get().library.entries.find((e) => e.id === id);
+        const now = new Date();
+        await putLibraryRoute(
+          {
+            ...original,
+            id: generateId(),
+            name: `${original.name} (copia)`,
+            createdAt: now,
+            updatedAt: now,
+          },
+          entry?.thumbnail
+        );
+        await get().refreshLibrary();
+      },
 
-    // Export actions
-    setExportConfig: (config) => {
-      set({
-        exportConfig: {
-          ...get().exportConfig,
-          ...config,
-        },
-      });
-    },
+      renameLibraryRoute: async (id, name) => {
+        const stored = await getLibraryRoute(id);
+        if (!stored) return;
 
-    // Utility actions
-    clearRoute: () => {
-      set({
-        route: null,
-        selectedWaypointId: null,
-        selectedSegmentId: null,
-        animation: {
-          isPlaying: false,
-          isPaused: false,
-          currentProgress: 0,
-          currentSegmentIndex: 0,
-          segmentProgress: 0,
-          duration: 15,
-          cameraFollow: get().animation.cameraFollow,
-          cameraZoomExtra: get().animation.cameraZoomExtra,
-        },
-      });
-    },
+        const renamed = { ...stored, name, updatedAt: new Date() };
+        await putLibraryRoute(renamed);
+
+        // Keep the open route in sync when it is the one being renamed
+        const { route } = get();
+        if (route?.id === id) {
+          set({ route: { ...route, name } });
+        }
+        await get().refreshLibrary();
+      },
 
-    loadRoute: (route) => {
-      set({
-        route,
-        selectedWaypointId: null,
-        selectedSegmentId: null,
+      deleteLibraryRoute: async (id) => {
+        await removeFromLibrary(id);
+        await get().refreshLibrary();
+      },
+
+      setLibraryError: (error) => {
+        set({ library: { ...get().library, error } });
+      },
+
+      // Selection actions
+      selectWaypoint: (id) => set({ selectedWaypointId: id, selectedSegmentId: null }),
+      selectSegment: (id) => set({ selectedSegmentId: id, selectedWaypointId: null }),
+      setEditMode: (mode) => set({ editMode: mode }),
+
+      // Animation actions
+      playAnimation: () => {
+        const { animation } = get();
+        const isAtEnd = animation.currentProgress >= 1;
+        set({
+          animation: {
+            ...animation,
+            isPlaying: true,
+            isPaused: false,
+            currentProgress: isAtEnd ? 0 : animation.currentProgress,
+            currentSegmentIndex: isAtEnd ? 0 : animation.currentSegmentIndex,
+            segmentProgress: isAtEnd ? 0 : animation.segmentProgress,
+          },
+        });
+      },
+
+      pauseAnimation: () => {
+        set({
+          animation: {
+            ...get().animation,
+            isPlaying: false,
+            isPaused: true,
+          },
+        });
+      },
+
+      stopAnimation: () => {
+        set({ animation: resetPlayback(get().animation) });
+      },
+
+      setAnimationProgress: (progress) => {
+        const { route, animation } = get();
+        if (!route || route.segments.length === 0) return;
+
+        const { segmentIndex, segmentProgress } = locateProgress(route, animation, progress);
+
+        set({
+          animation: {
+            ...animation,
+            currentProgress: progress,
+            currentSegmentIndex: segmentIndex,
+            segmentProgress,
+          },
+        });
+      },
+
+      setAnimationDuration: (duration) => {
+        set({
+          animation: {
+            ...get().animation,
+            duration,
+          },
+        });
+      },
+
+      // Keeps the overall progress; the marker moves to where that
+      // progress falls under the new model
+      setTimingModel: (timingModel) => {
+        set({
+          animation: {
+            ...get().animation,
+            timingModel,
+          },
+        });
+        get().setAnimationProgress(get().animation.currentProgress);
+      },
+
+      setEasing: (easing) => {
+        set({
+          animation: {
+            ...get().animation,
+            easing,
+          },
+        });
+      },
+
+      setCameraMode: (mode) => {
+        set({
+          animation: {
+            ...get().animation,
+            cameraMode: mode,
+          },
+        });
+      },
+
+      setCameraParams: (mode, params) => {
+        const { animation } = get();
+        const clamped: Record<string, number> = { ...animation.cameraParams[mode] };
+        CAMERA_PARAM_FIELDS[mode].forEach(({ key, min, max }) => {
+          const value = (params as Record<string, number | undefined>)[key];
+          if (value !== undefined && Number.isFinite(value)) {
+            clamped[key] = Math.max(min, Math.min(max, value));
+          }
+        });
+
+        set({
+          animation: {
+            ...animation,
+            cameraParams: {
+              ...animation.cameraParams,
+              [mode]: clamped,
+            },
+          },
+        });
+      },
+
+      updateAnimationFrame: (time) => {
+        const { animation, route } = get();
+        if (!route || !animation.isPlaying || route.segments.length === 0) return;
+
+        const { totalDuration } = getAnimationTimeline(route, animation);
+        const newProgress = totalDuration > 0 ? Math.min(Math.max(0, time) / totalDuration, 1) : 1;
+
+        if (newProgress >= 1) {
+          if (animation.cameraMode !== 'off') {
+            // Keep at 100% so MapContainer can handle the zoom-out
+            set({
+              animation: {
+                ...animation,
+                isPlaying: false,
+                isPaused: false,
+                currentProgress: 1,
+                currentSegmentIndex: route.segments.length - 1,
+                segmentProgress: 1,
+              },
+            });
+          } else {
+            set({
+              animation: {
+                ...animation,
+                isPlaying: false,
+                isPaused: false,
+                currentProgress: 0,
+                currentSegmentIndex: 0,
+                segmentProgress: 0,
+              },
+            });
+          }
+        } else {
+          get().setAnimationProgress(newProgress);
+        }
+      },
+
+      // Map actions
+      setMapStyle: (style) => {
+        set({
+          mapConfig: {
+            ...get().mapConfig,
+            style,
+          },
+        });
+      },
+
+      setMapView: (center, zoom) => {
+        set({
+          mapConfig: {
+            ...get().mapConfig,
+            center,
+            zoom,
+          },
+        });
+      },
+
+      setDistanceUnit: (distanceUnit) => {
+        set({
+          mapConfig: {
+            ...get().mapConfig,
+            distanceUnit,
+          },
+        });
+      },
+
+      // Routing actions
+      setRoutingConfig: (config) => {
+        set({
+          routingConfig: {
+            ...get().routingConfig,
+            ...config,
+          },
+        });
+      },
+
+      // UI actions
+      toggleSidebar: () => {
+        set({
+          ui: {
+            ...get().ui,
+            sidebarOpen: !get().ui.sidebarOpen,
+          },
+        });
+      },
+
+      setActivePanel: (panel) => {
+        set({
+          ui: {
+            ...get().ui,
+            activePanel: panel,
+          },
+        });
+      },
+
+      setExporting: (isExporting, progress = 0) => {
+        set({
+          ui: {
+            ...get().ui,
+            isExporting,
+            exportProgress: progress,
+          },
+        });
+      },
+
+      // Export actions
+      setExportConfig: (config) => {
+        set({
+          exportConfig: {
+            ...get().exportConfig,
+            ...config,
+          },
+        });
+      },
+
+      // Utility actions
+      clearRoute: () => {
+        set({
+          route: null,
+          history: EMPTY_HISTORY,
+          selectedWaypointId: null,
+          selectedSegmentId: null,
+          animation: { ...resetPlayback(get().animation), duration: 15 },
+        });
+      },
+
+      loadRoute: (route) => {
+        set({
+          route,
+          history: EMPTY_HISTORY,
+          selectedWaypointId: null,
+          selectedSegmentId: null,
+          animation: { ...resetPlayback(get().animation), duration: 15 },
+        });
+      },
+    }),
+    {
+      name: AUTOSAVE_KEY,
+      version: ROUTE_SCHEMA_VERSION,
+      storage: autosaveStorage,
+      skipHydration: true,
+      partialize: (state): PersistedState => ({
+        route: state.route,
+        mapConfig: state.mapConfig,
+        routingConfig: state.routingConfig,
+        exportConfig: state.exportConfig,
         animation: {
-          isPlaying: false,
-          isPaused: false,
-          currentProgress: 0,
-          currentSegmentIndex: 0,
-          segmentProgress: 0,
-          duration: 15,
-          cameraFollow: get().animation.cameraFollow,
-          cameraZoomExtra: get().animation.cameraZoomExtra,
+          duration: state.animation.duration,
+          timingModel: state.animation.timingModel,
+          easing: state.animation.easing,
+          cameraMode: state.animation.cameraMode,
+          cameraParams: state.animation.cameraParams,
         },
-      });
-    },
-  })
+      }),
+      // Sessions saved under an older route schema are tagged with their
+      // version so parseRouteFile runs the migration chain in merge()
+      migrate: (persistedState, version) => {
+        const state = persistedState as PersistedState;
+        return {
+          ...state,
+          route: state.route ? { ...state.route, schemaVersion: version } : null,
+        } as PersistedState;
+      },
+      merge: (persistedState, currentState) => {
+        const persisted = persistedState as Partial<PersistedState> | undefined;
+        if (!persisted) return currentState;
+
+        let route = currentState.route;
+        if (persisted.route) {
+          try {
+            route = parseRouteFile({ schemaVersion: ROUTE_SCHEMA_VERSION, ...persisted.route });
+          } catch (error) {
+            console.warn('Discarding invalid autosaved route:', error);
+          }
+        }
+
+        return {
+          ...currentState,
+          route,
+          mapConfig: { ...currentState.mapConfig, ...persisted.mapConfig },
+          routingConfig: { ...currentState.routingConfig, ...persisted.routingConfig },
+          exportConfig: { ...currentState.exportConfig, ...persisted.exportConfig },
+          animation: mergeAnimationSettings(currentState.animation, persisted.animation),
+        };
+      },
+    }
+  )
 );
+
+// Surface the last successful autosave in the UI
+autosaveStorage.onSaved((savedAt) => {
+  const { ui } = useRouteStore.getState();
+  useRouteStore.setState({ ui: { ...ui, lastSavedAt: savedAt } });
+});
@@ -11,14 +11,28 @@
 export type Coordinates = [number, number];
 
 // Transport modes with their characteristics
-export type TransportMode = 'car' | 'motorcycle' | 'train' | 'plane';
+export type TransportMode =
+  | 'car'
+  | 'motorcycle'
+  | 'bus'
+  | 'train'
+  | 'plane'
+  | 'ferry'
+  | 'cycling'
+  | 'walking'
+  | 'hiking';
 
 export interface TransportConfig {
   mode: TransportMode;
   label: string;
   icon: string;
+  // Where the vehicle travels: air paths are generated (great circle),
+  // not routed or hand-edited
+  category: 'ground' | 'water' | 'air';
   color: string;
-  speed: number; // pixels per frame for animation
+  speed: number; // relative animation speed (timing model "speed")
+  averageSpeed: number; // km/h, used to estimate durations the router didn't provide
+  co2PerKm: number; // g CO2e per passenger-km (approximate, for statistics)
   lineStyle: 'solid' | 'dashed';
   lineWidth: number;
 }
@@ -29,6 +43,12 @@ export interface Waypoint {
   coordinates: Coordinates;
   label?: string;
   order: number;
+  // Elevation in meters (from GPS logs, when available)
+  elevation?: number;
+  // ISO 8601 timestamp (from GPS logs, when available)
+  time?: string;
+  // Seconds the animation pauses at this waypoint
+  dwell?: number;
 }
 
 // A segment connects two waypoints
@@ -43,18 +63,105 @@ export interface RouteSegment {
   distance?: number;
   // Duration in seconds
   duration?: number;
+  // Seconds this segment takes in the animation (overrides the timing model)
+  animationDuration?: number;
+  // Motion curve within this segment (overrides the global easing)
+  easing?: Easing;
 }
 
+// Map camera (center follows the GeoJSON [lng, lat] convention)
+export interface CameraState {
+  center: Coordinates;
+  zoom: number;
+  bearing: number;
+  pitch: number;
+}
+
+// Keyframes are placed on the animation timeline, in seconds from the start
+export interface CameraKeyframe {
+  id: string;
+  type: 'camera';
+  time: number;
+  camera: CameraState;
+  // Blend into the follow-vehicle camera until the next keyframe
+  followVehicle?: boolean;
+}
+
+// Text shown over the map from `time` for `duration` seconds
+export interface LabelKeyframe {
+  id: string;
+  type: 'label';
+  time: number;
+  text: string;
+  duration: number;
+}
+
+export type Keyframe = CameraKeyframe | LabelKeyframe;
+
 // Complete route with all waypoints and segments
 export interface Route {
   id: string;
   name: string;
   waypoints: Waypoint[];
   segments: RouteSegment[];
+  // Timeline keyframes, sorted by time
+  keyframes?: Keyframe[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Undo/redo stacks of route snapshots (routes are immutable, so
+// snapshots are just references)
+export interface HistoryState {
+  past: Route[];
+  future: Route[];
+}
+
+// Saved route summary shown in the route library
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  thumbnail?: string; // Data URL
+  waypointCount: number;
+  updatedAt: Date;
+}
+
+// Route library state (entries persisted in IndexedDB)
+export interface LibraryState {
+  entries: LibraryEntry[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+// How the animation duration is shared between segments
+// - equal: every segment gets the same time
+// - distance: proportional to segment length
+// - duration: proportional to real travel time
+// - speed: length divided by the mode's animation speed (planes move fastest)
+export type TimingModel = 'equal' | 'distance' | 'duration' | 'speed';
+
+// How the vehicle accelerates within a segment
+export type Easing = 'linear' | 'ease-in-out' | 'cubic' | 'takeoff-landing';
+
+// How the camera moves during playback
+// - off: free camera, the map stays where the user left it
+// - follow: cinematic chase behind the vehicle, turning with it
+// - overview: the whole route fitted in view, static
+// - chase: top-down, north-up, centered on the vehicle
+// - orbit: circles around the vehicle
+// - segment-fit: reframes to each segment's bounds as it starts
+export type CameraMode = 'off' | 'follow' | 'overview' | 'chase' | 'orbit' | 'segment-fit';
+
+// Settings of each camera mode ('off' has none)
+// zoomExtra is added to the follow zoom calculated from the route length
+export interface CameraModeParams {
+  follow: { zoomExtra: number; pitch: number };
+  overview: { padding: number; pitch: number; bearing: number };
+  chase: { zoomExtra: number };
+  orbit: { zoomExtra: number; pitch: number; speed: number }; // speed: degrees per second
+  'segment-fit': { padding: number; pitch: number; transition: number }; // transition: seconds
+}
+
 // Animation state
 export interface AnimationState {
   isPlaying: boolean;
@@ -62,9 +169,11 @@ export interface AnimationState {
   currentProgress: number; // 0-1 for overall progress
   currentSegmentIndex: number;
   segmentProgress: number; // 0-1 for current segment
-  duration: number; // Total animation duration in seconds (5-30)
-  cameraFollow: boolean; // Cinematic camera follow mode
-  cameraZoomExtra: number; // Extra zoom added to auto-calculated follow zoom (0-8)
+  duration: number; // Seconds shared by segments without an animationDuration
+  timingModel: TimingModel;
+  easing: Easing; // Default for segments without their own easing
+  cameraMode: CameraMode;
+  cameraParams: CameraModeParams;
 }
 
 // Map configuration
@@ -74,8 +183,12 @@ export interface MapConfig {
   zoom: number;
   bearing: number;
   pitch: number;
+  distanceUnit: DistanceUnit;
 }
 
+// Units used to display distances
+export type DistanceUnit = 'km' | 'mi';
+
 // Predefined map styles
 export type MapStyle = 
   | 'streets'
@@ -85,14 +198,49 @@ export type MapStyle =
   | 'satellite'
   | 'satellite-streets';
 
+// Routing provider selection
+export type RoutingProviderId = 'mapbox' | 'osrm';
+
+export interface RoutingConfig {
+  provider: RoutingProviderId;
+  osrmBaseUrl: string; // e.g. http://localhost:5000
+  railNetworkUrl: string; // Rail network GeoJSON for trains
+  marineNetworkUrl: string; // Sea lane GeoJSON for ferries
+  // Name of a network file stored locally (takes precedence over the URL)
+  railNetworkFile: string;
+  marineNetworkFile: string;
+  flightCurvature: number; // Visual altitude bow of flight arcs (0 = pure great circle, 0-0.3)
+}
+
+// Export output formats: videos and looping animated images
+export type ExportFormat = 'webm' | 'mp4' | 'gif' | 'apng' | 'png-sequence';
+
+// Output shape: presets for landscape video, vertical stories/reels and
+// feed posts, or a custom width x height
+export type ExportAspect = '16:9' | '9:16' | '1:1' | '4:5' | 'custom';
+
+export type ExportQuality = 'low' | 'medium' | 'high' | '4k';
+
+// How animated images spread the quantization error
+export type Dithering = 'none' | 'ordered' | 'floyd-steinberg';
+
 // Export configuration
 export interface ExportConfig {
-  format: 'webm' | 'mp4';
-  quality: 'low' | 'medium' | 'high';
+  format: ExportFormat;
+  quality: ExportQuality; // Short side for aspect presets (480p to 2160p)
+  aspect: ExportAspect;
   fps: number;
+  // Custom size (aspect 'custom'); presets derive theirs from quality
   width: number;
   height: number;
   includeUI: boolean;
+  // Animated images (GIF/APNG)
+  colors: number; // Palette size per frame (2-256)
+  dithering: Dithering;
+  frameSkip: number; // Keep one frame out of N (frame rate = fps / N)
+  loopCount: number; // Times played (0 = forever)
+  // PNG sequence: only the route and the marker, over alpha
+  transparentBackground: boolean;
 }
 
 // Application state types for Zustand store
@@ -108,7 +256,8 @@ export type EditMode = 'select' | 'add-waypoint' | 'edit-path';
 // UI state
 export interface UIState {
   sidebarOpen: boolean;
-  activePanel: 'waypoints' | 'animation' | 'export' | 'settings';
+  activePanel: 'waypoints' | 'library' | 'animation' | 'export' | 'stats' | 'settings';
   isExporting: boolean;
   exportProgress: number;
+  lastSavedAt: Date | null; // Last successful autosave
 }
@@ -0,0 +1,99 @@
+import { crc32 } from './crc32';
+
+/**
+ * Animated PNG writer
+ *
+ * PNG allows a single palette for the whole file, so frames are stored
+ * as RGB (after per-frame quantization and dithering, which is what
+ * keeps them small). Frame data is deflated as it is added; the header
+ * is written at the end, once the frame count is known.
+ */
+
+export interface ApngWriter {
+  // rgb: 3 bytes per pixel; delay: numerator/denominator in seconds
+  addFrame: (rgb: Uint8Array, delay: { num: number; den: number }) => Promise<void>;
+  finish: () => Blob;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const out = new Uint8Array(values.length * 4);
+  const view = new DataView(out.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return out;
+}
+
+// zlib stream, as IDAT/fdAT expect
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Scanlines with the "Sub" filter (each byte minus the one a pixel to the left)
+function filterRows(rgb: Uint8Array, width: number, height: number): Uint8Array {
+  const stride = width * 3;
+  const out = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    const row = y * stride;
+    const o = y * (stride + 1);
+    out[o] = 1;
+    for (let x = 0; x < stride; x++) {
+      out[o + 1 + x] = (rgb[row + x] - (x >= 3 ? rgb[row + x - 3] : 0)) & 0xff;
+    }
+  }
+  return out;
+}
+
+/**
+ * @param loopCount Times played (0 = forever)
+ */
+export function createApngWriter(width: number, height: number, loopCount: number): ApngWriter {
+  const frames: Uint8Array[] = [];
+  let sequence = 0;
+
+  return {
+    addFrame: async (rgb, delay) => {
+      const data = await deflate(filterRows(rgb, width, height));
+      const first = frames.length === 0;
+      // fcTL: size, offset, delay, dispose "none", blend "source"
+      const control = new Uint8Array(26);
+      control.set(uint32s(sequence++, width, height, 0, 0));
+      new DataView(control.buffer).setUint16(20, delay.num);
+      new DataView(control.buffer).setUint16(22, delay.den);
+      frames.push(chunk('fcTL', control));
+      if (first) {
+        frames.push(chunk('IDAT', data));
+      } else {
+        const frameData = new Uint8Array(4 + data.length);
+        frameData.set(uint32s(sequence++));
+        frameData.set(data, 4);
+        frames.push(chunk('fdAT', frameData));
+      }
+    },
+    finish: () => {
+      const frameCount = frames.length / 2;
+      const header = new Uint8Array(13);
+      header.set(uint32s(width, height));
+      header.set([8, 2, 0, 0, 0], 8); // 8-bit RGB, no interlace
+      return new Blob(
+        [
+          new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+          chunk('IHDR', header),
+          chunk('acTL', uint32s(frameCount, loopCount)),
+          ...frames,
+          chunk('IEND', new Uint8Array(0)),
+        ],
+        { type: 'image/apng' }
+      );
+    },
+  };
+}
@@ -0,0 +1,195 @@
+import { CameraKeyframe, CameraMode, CameraModeParams, CameraState, Coordinates, Keyframe } from '@/types';
+
+/**
+ * Camera helpers
+ *
+ * Vehicle cameras (follow, chase, orbit) are computed from the vehicle
+ * position and the animation clock; the fitted modes (overview,
+ * segment-fit) from path bounds and the viewport size. frameAt combines
+ * them into the camera for a given time.
+ *
+ * Directed camera: camera keyframes are interpolated with an ease-in-out
+ * curve, so each shot starts and settles smoothly. A keyframe can hand
+ * over to the follow-vehicle camera until the next keyframe; the camera
+ * blends into the chase after the keyframe and back out before the next
+ * one, so keyframe times always show exactly the authored shot.
+ */
+
+// Seconds spent blending between a keyframe shot and the vehicle camera
+const FOLLOW_BLEND_SECONDS = 1.5;
+
+export function lerp(start: number, end: number, amt: number): number {
+  return (1 - amt) * start + amt * end;
+}
+
+export function lerpBearing(start: number, end: number, amt: number): number {
+  let diff = end - start;
+  while (diff > 180) diff -= 360;
+  while (diff < -180) diff += 360;
+  return start + diff * amt;
+}
+
+// Longitudes wrap like bearings: take the short way across the antimeridian
+export const lerpLongitude = lerpBearing;
+
+export const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+export function lerpCamera(from: CameraState, to: CameraState, amt: number): CameraState {
+  return {
+    center: [lerpLongitude(from.center[0], to.center[0], amt), lerp(from.center[1], to.center[1], amt)],
+    zoom: lerp(from.zoom, to.zoom, amt),
+    bearing: lerpBearing(from.bearing, to.bearing, amt),
+    pitch: lerp(from.pitch, to.pitch, amt),
+  };
+}
+
+export function calculateFollowZoom(routeLengthKm: number): number {
+  if (routeLengthKm < 2) return 16;
+  if (routeLengthKm < 10) return 14;
+  if (routeLengthKm < 50) return 12;
+  if (routeLengthKm < 200) return 10;
+  if (routeLengthKm < 1000) return 8;
+  return 6;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+// [west, south, east, north]; west/east may be outside ±180 for paths
+// with continuous longitudes
+export type Bounds = [number, number, number, number];
+
+export interface FitOptions {
+  padding: number;
+  pitch: number;
+  bearing: number;
+}
+
+// Closest zoom for a single point or a tiny path
+const MAX_FIT_ZOOM = 16;
+const TILE_SIZE = 512;
+
+const mercatorX = (lng: number) => (180 + lng) / 360;
+const mercatorY = (lat: number) =>
+  (180 - (180 / Math.PI) * Math.log(Math.tan(Math.PI / 4 + (lat * Math.PI) / 360))) / 360;
+const latFromMercatorY = (y: number) =>
+  (360 / Math.PI) * Math.atan(Math.exp(((180 - y * 360) * Math.PI) / 180)) - 90;
+
+/**
+ * Camera that fits `bounds` in the viewport (Web Mercator), like
+ * map.cameraForBounds but without a map, so frames can be computed
+ * ahead of rendering
+ */
+export function fitCamera(bounds: Bounds, viewport: Viewport, { padding, pitch, bearing }: FitOptions): CameraState {
+  const [west, south, east, north] = bounds;
+  const x0 = mercatorX(west);
+  const x1 = mercatorX(east);
+  const y0 = mercatorY(north);
+  const y1 = mercatorY(south);
+
+  // Extents of the rotated box, in world units
+  const angle = (bearing * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  const width = (x1 - x0) * cos + (y1 - y0) * sin;
+  const height = (x1 - x0) * sin + (y1 - y0) * cos;
+
+  const availableWidth = viewport.width - padding * 2 > 0 ? viewport.width - padding * 2 : viewport.width;
+  const availableHeight = viewport.height - padding * 2 > 0 ? viewport.height - padding * 2 : viewport.height;
+  const scale = Math.min(availableWidth / (width * TILE_SIZE), availableHeight / (height * TILE_SIZE));
+  const zoom = Number.isFinite(scale) ? Math.max(0, Math.min(MAX_FIT_ZOOM, Math.log2(scale))) : MAX_FIT_ZOOM;
+
+  return {
+    center: [(west + east) / 2, latFromMercatorY((y0 + y1) / 2)],
+    zoom,
+    bearing,
+    pitch,
+  };
+}
+
+export type VehicleCameraMode = 'follow' | 'chase' | 'orbit';
+
+export function isVehicleCameraMode(mode: CameraMode): mode is VehicleCameraMode {
+  return mode === 'follow' || mode === 'chase' || mode === 'orbit';
+}
+
+export interface VehicleView {
+  position: Coordinates;
+  heading: number; // vehicle bearing
+  zoom: number; // follow zoom for the route length
+  time: number; // animation clock, seconds
+}
+
+export function getVehicleCamera(
+  mode: VehicleCameraMode,
+  params: CameraModeParams,
+  view: VehicleView
+): CameraState {
+  switch (mode) {
+    case 'follow':
+      return {
+        center: view.position,
+        zoom: view.zoom + params.follow.zoomExtra,
+        bearing: view.heading,
+        pitch: params.follow.pitch,
+      };
+    case 'chase':
+      return { center: view.position, zoom: view.zoom + params.chase.zoomExtra, bearing: 0, pitch: 0 };
+    case 'orbit':
+      // Driven by the clock (not per frame) so scrubbing lands on the same angle
+      return {
+        center: view.position,
+        zoom: view.zoom + params.orbit.zoomExtra,
+        bearing: ((view.time * params.orbit.speed) % 360 + 540) % 360 - 180,
+        pitch: params.orbit.pitch,
+      };
+  }
+}
+
+export interface DirectedCamera {
+  camera: CameraState;
+  // 0-1: how much of the follow-vehicle camera to mix in
+  followWeight: number;
+}
+
+export function getCameraKeyframes(keyframes: Keyframe[] = []): CameraKeyframe[] {
+  return keyframes.filter((kf): kf is CameraKeyframe => kf.type === 'camera');
+}
+
+/**
+ * Camera from keyframes at `time` (seconds), or null without keyframes
+ * Before the first keyframe and after the last one the camera holds
+ */
+export function getDirectedCamera(keyframes: Keyframe[] | undefined, time: number): DirectedCamera | null {
+  const cameras = getCameraKeyframes(keyframes);
+  if (cameras.length === 0) return null;
+
+  const nextIndex = cameras.findIndex((kf) => kf.time > time);
+  const previous = nextIndex === -1 ? cameras[cameras.length - 1] : cameras[Math.max(0, nextIndex - 1)];
+  const next = nextIndex === -1 ? null : cameras[nextIndex];
+
+  if (time <= previous.time) {
+    return { camera: previous.camera, followWeight: 0 };
+  }
+
+  if (!next) {
+    // Last keyframe: hold the shot, or hand over to the vehicle for good
+    const followWeight = previous.followVehicle
+      ? smoothstep(Math.min(1, (time - previous.time) / FOLLOW_BLEND_SECONDS))
+      : 0;
+    return { camera: previous.camera, followWeight };
+  }
+
+  const span = next.time - previous.time;
+  const t = (time - previous.time) / span;
+  const camera = lerpCamera(previous.camera, next.camera, smoothstep(t));
+
+  if (!previous.followVehicle) return { camera, followWeight: 0 };
+
+  const blend = Math.min(FOLLOW_BLEND_SECONDS, span / 3);
+  const fromStart = (time - previous.time) / blend;
+  const toEnd = (next.time - time) / blend;
+  return { camera, followWeight: smoothstep(Math.max(0, Math.min(1, fromStart, toEnd))) };
+}
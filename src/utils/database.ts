@@ -0,0 +1,68 @@
+/**
+ * Shared IndexedDB connection for everything the app persists locally
+ *
+ * Object stores:
+ * - `entries` / `routes`: route library (see routeLibrary.ts)
+ * - `session`: key-value store for autosave (see sessionStorage.ts)
+ * - `networks`: routing networks loaded from files (see networkStorage.ts)
+ */
+
+const DB_NAME = 'route-animator';
+const DB_VERSION = 3;
+
+export const ENTRIES_STORE = 'entries';
+export const ROUTES_STORE = 'routes';
+export const SESSION_STORE = 'session';
+export const NETWORKS_STORE = 'networks';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Stores are only ever added, so every version can be upgraded in place
+        for (const store of [ENTRIES_STORE, ROUTES_STORE]) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+        for (const store of [SESSION_STORE, NETWORKS_STORE]) {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store);
+          }
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error ?? new Error('Could not open local database'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
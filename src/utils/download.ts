@@ -0,0 +1,19 @@
+/**
+ * Trigger a browser download for an in-memory file
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+// File-system friendly version of a route name
+export function toFileName(name: string, fallback = 'route'): string {
+  const cleaned = name.trim().replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, '-');
+  return cleaned || fallback;
+}
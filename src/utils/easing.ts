@@ -0,0 +1,44 @@
+import { Easing, RouteSegment } from '@/types';
+
+/**
+ * Easing curves for vehicle motion within a segment
+ *
+ * Each curve maps segment time progress (0-1) to the fraction of the
+ * segment's length travelled (0-1), with f(0) = 0 and f(1) = 1, so the
+ * vehicle still departs and arrives exactly at the waypoints.
+ */
+
+// Fraction of the segment spent accelerating (and again decelerating)
+// in the takeoff/landing profile
+const TAKEOFF_FRACTION = 0.2;
+
+/**
+ * Trapezoidal speed profile: constant acceleration, cruise, constant
+ * deceleration. Cruise speed is set so the total distance is exactly 1.
+ */
+function takeoffLanding(t: number): number {
+  const ramp = TAKEOFF_FRACTION;
+  const cruiseSpeed = 1 / (1 - ramp);
+  if (t < ramp) return (cruiseSpeed * t * t) / (2 * ramp);
+  if (t > 1 - ramp) return 1 - (cruiseSpeed * (1 - t) ** 2) / (2 * ramp);
+  return cruiseSpeed * (t - ramp / 2);
+}
+
+export const EASING_FUNCTIONS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  'ease-in-out': (t) => (1 - Math.cos(Math.PI * t)) / 2,
+  cubic: (t) => (t < 0.5 ? 4 * t ** 3 : 1 - (-2 * t + 2) ** 3 / 2),
+  'takeoff-landing': takeoffLanding,
+};
+
+export function applyEasing(easing: Easing, t: number): number {
+  const clamped = Math.max(0, Math.min(1, t));
+  return EASING_FUNCTIONS[easing](clamped);
+}
+
+/**
+ * The segment's own easing, or the global one when it has none
+ */
+export function getSegmentEasing(segment: RouteSegment, globalEasing: Easing): Easing {
+  return segment.easing ?? globalEasing;
+}
@@ -0,0 +1,394 @@
+import { ArrayBufferTarget, Muxer } from 'mp4-muxer';
+import { ExportConfig, ExportFormat } from '@/types';
+import { FFMPEG_CORE_URL } from '@/config/map';
+import { applyPalette, quantize } from './quantize';
+import { createGifWriter } from './gif';
+import { createApngWriter } from './apng';
+import { createZipWriter } from './zip';
+import { ExportSidecar, getFrameDigits, getFrameFileName } from './exportSidecar';
+import { ExportError } from './exportError';
+
+/**
+ * Export encoders
+ *
+ * An encoder turns the frames drawn on the export canvas into a file.
+ * Frames arrive at whatever pace the renderer manages; the encoder is
+ * responsible for giving each one exactly 1/fps seconds in the output.
+ *
+ * MP4 (H.264) is encoded with WebCodecs and muxed in the browser; where
+ * WebCodecs is missing, frames go through ffmpeg.wasm instead (its core
+ * is downloaded from FFMPEG_CORE_URL only then: it is large and much
+ * slower).
+ *
+ * GIF and APNG are quantized per frame (palette + dithering) and played
+ * at fps / frameSkip.
+ *
+ * A PNG sequence is a ZIP of numbered lossless frames (with alpha) and a
+ * JSON sidecar with the timing, for compositing in a video editor.
+ */
+
+export interface EncoderOptions {
+  bitrate: number;
+  // Timing of the export, written next to image sequences
+  sidecar: ExportSidecar;
+}
+
+export interface FrameEncoder {
+  // Add the frame currently drawn on the export canvas
+  addFrame: () => Promise<void>;
+  finish: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * WebM with MediaRecorder
+ *
+ * MediaRecorder timestamps frames with wall time, so the recorder is
+ * paused while a frame renders and resumed for exactly one frame
+ * interval to record it: paused time is left out of the video.
+ */
+export function createWebmEncoder(canvas: HTMLCanvasElement, fps: number, bitrate: number): FrameEncoder {
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const mimeType = 'video/webm;codecs=vp9';
+  const recorder = new MediaRecorder(stream, {
+    mimeType: MediaRecorder.isTypeSupported(mimeType) ? mimeType : 'video/webm',
+    videoBitsPerSecond: bitrate,
+  });
+
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start();
+  recorder.pause();
+
+  const stop = () =>
+    new Promise<void>((resolve) => {
+      if (recorder.state === 'inactive') return resolve();
+      recorder.onstop = () => resolve();
+      recorder.stop();
+    });
+
+  return {
+    addFrame: async () => {
+      recorder.resume();
+      track.requestFrame();
+      await sleep(1000 / fps);
+      recorder.pause();
+    },
+    finish: async () => {
+      await stop();
+      track.stop();
+      return new Blob(chunks, { type: 'video/webm' });
+    },
+    cancel: () => {
+      recorder.ondataavailable = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      track.stop();
+    },
+  };
+}
+
+// H.264 profiles/levels to try, best first (level 5.2 covers 4K at 60 fps)
+const AVC_CODECS = ['avc1.640034', 'avc1.640028', 'avc1.4d0028', 'avc1.42001f'];
+// Keyframe every two seconds so editors can seek
+const KEYFRAME_INTERVAL_SECONDS = 2;
+// Frames waiting in the encoder before addFrame waits for it to catch up
+const MAX_ENCODE_QUEUE = 8;
+
+export function supportsWebCodecs(): boolean {
+  return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+}
+
+async function findAvcConfig(width: number, height: number, fps: number, bitrate: number) {
+  for (const codec of AVC_CODECS) {
+    const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: fps };
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    if (supported) return config;
+  }
+  return null;
+}
+
+/**
+ * MP4 with WebCodecs VideoEncoder + mp4-muxer
+ * Frames get exact timestamps, so encoding runs as fast as the machine allows.
+ * Resolves to null when the browser cannot encode H.264 at this size.
+ */
+export async function createMp4Encoder(
+  canvas: HTMLCanvasElement,
+  fps: number,
+  bitrate: number
+): Promise<FrameEncoder | null> {
+  if (!supportsWebCodecs()) return null;
+  const config = await findAvcConfig(canvas.width, canvas.height, fps, bitrate);
+  if (!config) return null;
+
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: 'avc', width: canvas.width, height: canvas.height, frameRate: fps },
+    fastStart: 'in-memory',
+  });
+
+  let encodeError: ExportError | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    error: (error) => {
+      encodeError = new ExportError('encoder', error.message);
+    },
+  });
+  encoder.configure(config);
+
+  const frameDuration = 1_000_000 / fps; // microseconds
+  let index = 0;
+
+  const waitForQueue = () =>
+    new Promise<void>((resolve) => {
+      encoder.addEventListener('dequeue', () => resolve(), { once: true });
+    });
+
+  return {
+    addFrame: async () => {
+      if (encodeError) throw encodeError;
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await waitForQueue();
+
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(index * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(frame, { keyFrame: index % Math.round(fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+      frame.close();
+      index++;
+    },
+    finish: async () => {
+      await encoder.flush();
+      if (encodeError) throw encodeError;
+      encoder.close();
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: 'video/mp4' });
+    },
+    cancel: () => {
+      if (encoder.state !== 'closed') encoder.close();
+    },
+  };
+}
+
+// Fetch a core file into a blob URL: ffmpeg's worker cannot import
+// cross-origin scripts, and a failed download gets a clear error here
+async function toBlobURL(url: string, type: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+  return URL.createObjectURL(new Blob([await response.arrayBuffer()], { type }));
+}
+
+async function loadFfmpeg() {
+  try {
+    const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+    const [coreURL, wasmURL] = await Promise.all([
+      toBlobURL(`${FFMPEG_CORE_URL}/ffmpeg-core.js`, 'text/javascript'),
+      toBlobURL(`${FFMPEG_CORE_URL}/ffmpeg-core.wasm`, 'application/wasm'),
+    ]);
+    const ffmpeg = new FFmpeg();
+    await ffmpeg.load({ coreURL, wasmURL });
+    return ffmpeg;
+  } catch (error) {
+    throw new ExportError('encoder-load', `Could not load ffmpeg.wasm: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * MP4 with ffmpeg.wasm (browsers without WebCodecs)
+ * Frames are stored as JPEG in ffmpeg's in-memory file system and
+ * encoded with libx264 at the end.
+ */
+export async function createFfmpegMp4Encoder(
+  canvas: HTMLCanvasElement,
+  fps: number,
+  bitrate: number
+): Promise<FrameEncoder> {
+  const ffmpeg = await loadFfmpeg();
+
+  const frameName = (index: number) => `frame${String(index).padStart(6, '0')}.jpg`;
+  let count = 0;
+
+  return {
+    addFrame: async () => {
+      const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+      if (!blob) throw new Error('Could not capture frame');
+      await ffmpeg.writeFile(frameName(count++), new Uint8Array(await blob.arrayBuffer()));
+    },
+    finish: async () => {
+      try {
+        const exitCode = await ffmpeg.exec([
+          '-framerate', String(fps),
+          '-i', 'frame%06d.jpg',
+          '-c:v', 'libx264',
+          '-pix_fmt', 'yuv420p',
+          '-b:v', String(bitrate),
+          '-movflags', '+faststart',
+          'output.mp4',
+        ]);
+        if (exitCode !== 0) throw new ExportError('encoder', `ffmpeg exited with code ${exitCode}`);
+        const data = await ffmpeg.readFile('output.mp4');
+        return new Blob([data as Uint8Array], { type: 'video/mp4' });
+      } finally {
+        ffmpeg.terminate();
+      }
+    },
+    cancel: () => {
+      ffmpeg.terminate();
+    },
+  };
+}
+
+export const ANIMATED_IMAGE_FORMATS: ExportFormat[] = ['gif', 'apng'];
+
+export function isAnimatedImage(format: ExportFormat): boolean {
+  return ANIMATED_IMAGE_FORMATS.includes(format);
+}
+
+/**
+ * Frame rate of the output: animated images drop frames (frameSkip)
+ */
+export function getExportFps({ format, fps, frameSkip }: ExportConfig): number {
+  return isAnimatedImage(format) ? fps / Math.max(1, frameSkip) : fps;
+}
+
+// Downloaded file extension; APNG keeps .png so any image viewer opens it
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  mp4: 'mp4',
+  webm: 'webm',
+  gif: 'gif',
+  apng: 'png',
+  'png-sequence': 'zip',
+};
+
+// Rough bytes per pixel of map footage: dithering adds noise that
+// compresses worse; transparent frames are mostly empty
+const IMAGE_BYTES_PER_PIXEL: Record<'gif' | 'apng', Record<ExportConfig['dithering'], number>> = {
+  gif: { none: 0.25, ordered: 0.4, 'floyd-steinberg': 0.5 },
+  apng: { none: 0.45, ordered: 0.7, 'floyd-steinberg': 0.85 },
+};
+const PNG_BYTES_PER_PIXEL = { opaque: 1.2, transparent: 0.05 };
+
+/**
+ * Approximate output size in bytes
+ */
+export function estimateFileSize(
+  config: ExportConfig,
+  width: number,
+  height: number,
+  frameCount: number,
+  bitrate: number
+): number {
+  if (config.format === 'gif' || config.format === 'apng') {
+    // Fewer colors mean shorter codes (8 bits per index at 256 colors)
+    const colorFactor = Math.log2(Math.max(2, config.colors)) / 8;
+    return width * height * frameCount * IMAGE_BYTES_PER_PIXEL[config.format][config.dithering] * colorFactor;
+  }
+  if (config.format === 'png-sequence') {
+    const bytesPerPixel = PNG_BYTES_PER_PIXEL[config.transparentBackground ? 'transparent' : 'opaque'];
+    return width * height * frameCount * bytesPerPixel;
+  }
+  return (bitrate / 8) * (frameCount / config.fps);
+}
+
+function readPixels(canvas: HTMLCanvasElement): Uint8ClampedArray {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+}
+
+/**
+ * Animated GIF: per-frame palette, delays in centiseconds (rounded so
+ * the total stays in step with the animation clock)
+ */
+export function createGifEncoder(canvas: HTMLCanvasElement, fps: number, config: ExportConfig): FrameEncoder {
+  const { width, height } = canvas;
+  const writer = createGifWriter(width, height, config.loopCount);
+  let index = 0;
+
+  return {
+    addFrame: async () => {
+      const rgba = readPixels(canvas);
+      const palette = quantize(rgba, config.colors);
+      const delay = Math.round(((index + 1) * 100) / fps) - Math.round((index * 100) / fps);
+      writer.addFrame(applyPalette(rgba, width, height, palette, config.dithering), palette, delay);
+      index++;
+    },
+    finish: async () => writer.finish(),
+    cancel: () => {},
+  };
+}
+
+/**
+ * Animated PNG: per-frame quantization stored as RGB
+ */
+export function createApngEncoder(canvas: HTMLCanvasElement, config: ExportConfig): FrameEncoder {
+  const { width, height } = canvas;
+  const writer = createApngWriter(width, height, config.loopCount);
+  // Exact frame time as a fraction: frameSkip / fps seconds
+  const delay = { num: Math.max(1, config.frameSkip), den: config.fps };
+
+  return {
+    addFrame: async () => {
+      const rgba = readPixels(canvas);
+      const palette = quantize(rgba, config.colors);
+      const indices = applyPalette(rgba, width, height, palette, config.dithering);
+      const rgb = new Uint8Array(width * height * 3);
+      for (let i = 0; i < indices.length; i++) {
+        rgb.set(palette.subarray(indices[i] * 3, indices[i] * 3 + 3), i * 3);
+      }
+      await writer.addFrame(rgb, delay);
+    },
+    finish: async () => writer.finish(),
+    cancel: () => {},
+  };
+}
+
+/**
+ * Numbered PNG frames plus the JSON sidecar, in a ZIP
+ */
+export function createPngSequenceEncoder(canvas: HTMLCanvasElement, sidecar: ExportSidecar): FrameEncoder {
+  const zip = createZipWriter();
+  const digits = getFrameDigits(sidecar.frameCount);
+  let index = 0;
+
+  return {
+    addFrame: async () => {
+      const png = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+      if (!png) throw new Error('Could not encode PNG frame');
+      await zip.addFile(`frames/${getFrameFileName(index++, digits)}`, png);
+    },
+    finish: async () => {
+      await zip.addFile('timing.json', JSON.stringify(sidecar, null, 2));
+      return zip.finish();
+    },
+    cancel: () => {},
+  };
+}
+
+/**
+ * Encoder for the export format
+ */
+export async function createEncoder(
+  config: ExportConfig,
+  canvas: HTMLCanvasElement,
+  { bitrate, sidecar }: EncoderOptions
+): Promise<FrameEncoder> {
+  const fps = getExportFps(config);
+  switch (config.format) {
+    case 'webm':
+      return createWebmEncoder(canvas, fps, bitrate);
+    case 'mp4':
+      return (await createMp4Encoder(canvas, fps, bitrate)) ?? createFfmpegMp4Encoder(canvas, fps, bitrate);
+    case 'gif':
+      return createGifEncoder(canvas, fps, config);
+    case 'apng':
+      return createApngEncoder(canvas, config);
+    case 'png-sequence':
+      return createPngSequenceEncoder(canvas, sidecar);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Export failures the user can act on
+ *
+ * - 'map': the export map (style or tiles) could not be loaded
+ * - 'encoder': the browser could not encode this format or size
+ * - 'encoder-load': the encoder (ffmpeg.wasm) could not be downloaded
+ * - 'too-large': the output does not fit (ZIP limits, out of memory)
+ */
+
+export type ExportErrorCode = 'map' | 'encoder' | 'encoder-load' | 'too-large';
+
+export class ExportError extends Error {
+  code: ExportErrorCode;
+
+  constructor(code: ExportErrorCode, message: string) {
+    super(message);
+    this.name = 'ExportError';
+    this.code = code;
+  }
+}
@@ -0,0 +1,225 @@
+import mapboxgl from 'mapbox-gl';
+import type { Map as MapboxMap } from 'mapbox-gl';
+import { CameraState, Route } from '@/types';
+import { getTransportConfig } from '@/config/transport';
+import { AnimationFrame, FrameSettings, frameAt } from './frame';
+import { getAnimationTimeline } from './timing';
+import { getVisibleLabels } from './keyframes';
+import { Viewport } from './camera';
+
+/**
+ * Offline export renderer
+ *
+ * Renders the animation frame by frame instead of recording it live:
+ * for frame N the map is moved to frameAt(N / fps), the renderer waits
+ * until the map has drawn it with its tiles loaded, and the result is
+ * captured. However long a frame takes, every frame ends up in the
+ * output at its exact time. Mapbox's internal clock (fades, symbol
+ * placement) is driven by the same time with setNow.
+ *
+ * Frames are computed for the framing on the live map (`viewport`) and
+ * rendered on a map of the export size (see exportMap): every camera is
+ * zoomed by the ratio between the two, so the export shows the framed
+ * area. Map text and lines keep their pixel size, so larger exports show
+ * more detail; the marker and title cards scale with the frame.
+ *
+ * The vehicle marker and title cards are HTML overlays on the live map,
+ * not part of its canvas, so they are drawn onto each captured frame.
+ *
+ * With a transparent background every style layer but the route ones is
+ * hidden (and the fog removed) while rendering, so frames hold only the
+ * route and the marker over alpha, ready for compositing. Title cards
+ * are left out then: editors add their own.
+ */
+
+export interface RenderOptions {
+  // Map the frames are rendered on
+  map: MapboxMap;
+  route: Route;
+  settings: FrameSettings;
+  fps: number;
+  // Framing on the live map (CSS px): frames are computed for this size
+  viewport: Viewport;
+  // View while the frames set no camera (camera mode off)
+  camera: CameraState;
+  // Frames are drawn here, scaled to its size
+  canvas: HTMLCanvasElement;
+  transparent?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface RenderedFrame {
+  index: number;
+  time: number; // Seconds
+  frame: AnimationFrame | null;
+}
+
+// Capture whatever is drawn if tiles take longer than this to load
+const FRAME_TIMEOUT_MS = 10000;
+// Marker and label sizes on the live map (CSS px), see index.css
+const MARKER_FONT_SIZE = 24;
+const LABEL_FONT_SIZE = 24;
+const LABEL_PADDING = [8, 24];
+const LABEL_GAP = 8;
+
+/**
+ * Frames from t = 0 to the end of the timeline, both included
+ */
+export function getFrameCount(route: Route, settings: FrameSettings, fps: number): number {
+  const { totalDuration } = getAnimationTimeline(route, settings);
+  return Math.floor(totalDuration * fps + 1e-6) + 1;
+}
+
+function applyFrame(map: MapboxMap, frame: AnimationFrame | null, camera: CameraState, zoomOffset: number) {
+  const source = map.getSource('animated-path') as mapboxgl.GeoJSONSource | undefined;
+  source?.setData({
+    type: 'Feature',
+    properties: {},
+    geometry: { type: 'LineString', coordinates: frame?.drawnPath ?? [] },
+  });
+  const view = frame?.camera ?? camera;
+  map.jumpTo({ ...view, zoom: view.zoom + zoomOffset });
+}
+
+// Layers added by MapContainer: the route lines per mode and the animated path
+const isRouteLayer = (id: string) => id.startsWith('route-') || id === 'animated-path';
+
+/**
+ * Hide all but the route layers; returns a function that restores them
+ */
+function isolateRouteLayers(map: MapboxMap): () => void {
+  const fog = map.getFog();
+  const hidden = (map.getStyle()?.layers ?? [])
+    .map((layer) => layer.id)
+    .filter((id) => !isRouteLayer(id) && map.getLayoutProperty(id, 'visibility') !== 'none');
+
+  hidden.forEach((id) => map.setLayoutProperty(id, 'visibility', 'none'));
+  map.setFog(null);
+
+  return () => {
+    hidden.forEach((id) => map.setLayoutProperty(id, 'visibility', 'visible'));
+    map.setFog(fog ?? null);
+  };
+}
+
+/**
+ * Resolves after the next render with all tiles loaded
+ */
+function waitForRender(map: MapboxMap): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeout);
+      map.off('render', onRender);
+      resolve();
+    };
+    const onRender = () => {
+      if (map.isStyleLoaded() && map.areTilesLoaded()) done();
+    };
+    const timeout = setTimeout(done, FRAME_TIMEOUT_MS);
+    map.on('render', onRender);
+    map.triggerRepaint();
+  });
+}
+
+function drawLabel(ctx: CanvasRenderingContext2D, text: string, x: number, bottom: number, scale: number): number {
+  const [padY, padX] = LABEL_PADDING.map((p) => p * scale);
+  const fontSize = LABEL_FONT_SIZE * scale;
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  const maxWidth = ctx.canvas.width * 0.8;
+  const width = Math.min(maxWidth, ctx.measureText(text).width + padX * 2);
+  const height = fontSize * 1.3 + padY * 2;
+  const top = bottom - height;
+
+  ctx.fillStyle = 'rgba(17, 24, 39, 0.75)';
+  ctx.beginPath();
+  ctx.roundRect(x - width / 2, top, width, height, 8 * scale);
+  ctx.fill();
+
+  ctx.fillStyle = 'white';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, x, top + height / 2, maxWidth - padX * 2);
+  return height;
+}
+
+/**
+ * Map canvas plus the HTML overlays (vehicle marker, title cards)
+ */
+function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  map: MapboxMap,
+  route: Route,
+  frame: AnimationFrame | null,
+  time: number,
+  viewport: Viewport,
+  withLabels: boolean
+) {
+  const { width, height } = ctx.canvas;
+  const mapCanvas = map.getCanvas();
+  ctx.clearRect(0, 0, width, height);
+  ctx.drawImage(mapCanvas, 0, 0, mapCanvas.width, mapCanvas.height, 0, 0, width, height);
+
+  // Map CSS px to frame px, and overlay sizes relative to the framing
+  const container = map.getContainer();
+  const scaleX = width / container.clientWidth;
+  const scaleY = height / container.clientHeight;
+  const scale = Math.min(width / viewport.width, height / viewport.height);
+
+  if (frame) {
+    const segment = route.segments[frame.currentSegmentIndex];
+    const point = map.project(frame.markerPosition);
+    ctx.save();
+    ctx.font = `${MARKER_FONT_SIZE * scale}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.3)';
+    ctx.shadowOffsetY = 2 * scale;
+    ctx.shadowBlur = 4 * scale;
+    ctx.fillText(segment ? getTransportConfig(segment.transportMode).icon : '🚗', point.x * scaleX, point.y * scaleY);
+    ctx.restore();
+  }
+
+  if (!withLabels) return;
+
+  // Title cards stack upwards from 12% above the bottom, like the overlay
+  let bottom = height * 0.88;
+  [...getVisibleLabels(route, time)].reverse().forEach(({ keyframe, opacity }) => {
+    ctx.save();
+    ctx.globalAlpha = opacity;
+    bottom -= drawLabel(ctx, keyframe.text, width / 2, bottom, scale) + LABEL_GAP * scale;
+    ctx.restore();
+  });
+}
+
+/**
+ * Render every frame of the animation onto `options.canvas`
+ * Each yielded frame must be consumed before asking for the next one.
+ */
+export async function* renderFrames(options: RenderOptions): AsyncGenerator<RenderedFrame> {
+  const { map, route, settings, fps, viewport, camera, canvas, transparent = false, signal } = options;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+
+  const zoomOffset = Math.log2(map.getContainer().clientWidth / viewport.width);
+  const frameCount = getFrameCount(route, settings, fps);
+  const clockStart = performance.now();
+  const restoreLayers = transparent ? isolateRouteLayers(map) : null;
+
+  try {
+    for (let index = 0; index < frameCount; index++) {
+      signal?.throwIfAborted();
+
+      const time = index / fps;
+      mapboxgl.setNow(clockStart + time * 1000);
+      const frame = frameAt(route, settings, time, { viewport });
+      applyFrame(map, frame, camera, zoomOffset);
+      await waitForRender(map);
+
+      drawFrame(ctx, map, route, frame, time, viewport, !transparent);
+      yield { index, time, frame };
+    }
+  } finally {
+    restoreLayers?.();
+    mapboxgl.restoreNow();
+  }
+}
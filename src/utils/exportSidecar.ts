@@ -0,0 +1,131 @@
+import { ExportConfig, LabelKeyframe, Route, TransportMode } from '@/types';
+import { FrameSettings } from './frame';
+import { getAnimationTimeline } from './timing';
+import { getFrameCount } from './exportRenderer';
+
+/**
+ * JSON sidecar for image-sequence exports
+ *
+ * Describes the timing of the exported frames so editors can line up
+ * cuts, titles and sound with the route: where each waypoint is reached
+ * and left, each segment's span and the title cards. Times are seconds
+ * from the first frame; frame numbers are the closest frame (frame N is
+ * the animation at N / fps).
+ */
+
+export interface SidecarWaypoint {
+  index: number;
+  label: string | null;
+  coordinates: [number, number];
+  // GPS timestamp from the imported log, when there is one
+  recordedAt: string | null;
+  arrival: number;
+  departure: number; // After the dwell
+  arrivalFrame: number;
+  departureFrame: number;
+}
+
+export interface SidecarSegment {
+  index: number;
+  transportMode: TransportMode;
+  fromWaypoint: number;
+  toWaypoint: number;
+  start: number;
+  end: number;
+  startFrame: number;
+  endFrame: number;
+}
+
+export interface SidecarLabel {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface ExportSidecar {
+  route: string;
+  fps: number;
+  frameCount: number;
+  duration: number;
+  width: number;
+  height: number;
+  transparent: boolean;
+  // printf-style, numbered from 0
+  framePattern: string;
+  waypoints: SidecarWaypoint[];
+  segments: SidecarSegment[];
+  labels: SidecarLabel[];
+}
+
+// Digits in frame file names (at least 5, so editors sort them right)
+export function getFrameDigits(frameCount: number): number {
+  return Math.max(5, String(frameCount - 1).length);
+}
+
+export function getFrameFileName(index: number, digits: number): string {
+  return `frame_${String(index).padStart(digits, '0')}.png`;
+}
+
+export function getExportSidecar(
+  route: Route,
+  settings: FrameSettings,
+  config: ExportConfig,
+  size: { width: number; height: number }
+): ExportSidecar {
+  const { fps } = config;
+  const { segmentDurations, totalDuration } = getAnimationTimeline(route, settings);
+  const frameCount = getFrameCount(route, settings, fps);
+  const toFrame = (time: number) => Math.min(frameCount - 1, Math.round(time * fps));
+
+  // Same walk as the timeline: dwell at each waypoint, then its segment
+  const waypoints: SidecarWaypoint[] = [];
+  const segments: SidecarSegment[] = [];
+  let time = 0;
+  route.waypoints.forEach((waypoint, index) => {
+    const arrival = time;
+    time += Math.max(0, waypoint.dwell ?? 0);
+    waypoints.push({
+      index,
+      label: waypoint.label ?? null,
+      coordinates: waypoint.coordinates,
+      recordedAt: waypoint.time ?? null,
+      arrival,
+      departure: time,
+      arrivalFrame: toFrame(arrival),
+      departureFrame: toFrame(time),
+    });
+
+    const segment = route.segments[index];
+    if (!segment) return;
+    const start = time;
+    time += segmentDurations[index];
+    segments.push({
+      index,
+      transportMode: segment.transportMode,
+      fromWaypoint: index,
+      toWaypoint: index + 1,
+      start,
+      end: time,
+      startFrame: toFrame(start),
+      endFrame: toFrame(time),
+    });
+  });
+
+  const labels = (route.keyframes ?? [])
+    .filter((kf): kf is LabelKeyframe => kf.type === 'label' && kf.time <= totalDuration)
+    .map((kf) => ({ text: kf.text, start: kf.time, end: Math.min(totalDuration, kf.time + kf.duration) }));
+
+  return {
+    route: route.name,
+    fps,
+    frameCount,
+    duration: totalDuration,
+    width: size.width,
+    height: size.height,
+    transparent: config.transparentBackground,
+    framePattern: `frame_%0${getFrameDigits(frameCount)}d.png`,
+    waypoints,
+    segments,
+    labels,
+  };
+}
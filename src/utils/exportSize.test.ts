@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { ExportConfig } from '@/types';
+import { DEFAULT_EXPORT_CONFIG, EXPORT_MAX_SIZE, EXPORT_MIN_SIZE, EXPORT_QUALITY_PRESETS } from '@/config/map';
+import { getExportSize, getFramingRect } from './exportSize';
+
+const config = (overrides: Partial<ExportConfig>): ExportConfig => ({ ...DEFAULT_EXPORT_CONFIG, ...overrides });
+
+describe('getExportSize', () => {
+  it('uses the quality preset for 16:9', () => {
+    expect(getExportSize(config({ quality: 'high', aspect: '16:9' }))).toEqual(EXPORT_QUALITY_PRESETS.high);
+    expect(getExportSize(config({ quality: '4k', aspect: '16:9' }))).toEqual(EXPORT_QUALITY_PRESETS['4k']);
+  });
+
+  it('keeps the short side and rounds the long side to an even number', () => {
+    // 480 * 16 / 9 = 853.3
+    expect(getExportSize(config({ quality: 'low', aspect: '16:9' }))).toMatchObject({ width: 854, height: 480 });
+    expect(getExportSize(config({ quality: 'high', aspect: '9:16' }))).toMatchObject({ width: 1080, height: 1920 });
+    expect(getExportSize(config({ quality: 'high', aspect: '1:1' }))).toMatchObject({ width: 1080, height: 1080 });
+    expect(getExportSize(config({ quality: 'high', aspect: '4:5' }))).toMatchObject({ width: 1080, height: 1350 });
+  });
+
+  it('scales the bitrate with the pixel count', () => {
+    const { bitrate } = getExportSize(config({ quality: 'high', aspect: '4:5' }));
+    expect(bitrate).toBe(Math.round((5000000 * 1080 * 1350) / (1920 * 1080)));
+  });
+
+  it('rounds custom sizes to even numbers within the limits', () => {
+    expect(getExportSize(config({ aspect: 'custom', width: 1001, height: 777 }))).toMatchObject({
+      width: 1002,
+      height: 778,
+    });
+    expect(getExportSize(config({ aspect: 'custom', width: 99999, height: 3 }))).toMatchObject({
+      width: EXPORT_MAX_SIZE,
+      height: EXPORT_MIN_SIZE,
+    });
+    expect(getExportSize(config({ aspect: 'custom', width: NaN, height: 0 }))).toMatchObject({
+      width: EXPORT_MIN_SIZE,
+      height: EXPORT_MIN_SIZE,
+    });
+  });
+
+  it('gives custom sizes the high preset bitrate per pixel, whatever the quality', () => {
+    const size = getExportSize(config({ quality: 'low', aspect: 'custom', width: 960, height: 540 }));
+    expect(size.bitrate).toBe(EXPORT_QUALITY_PRESETS.high.bitrate / 4);
+  });
+});
+
+describe('getFramingRect', () => {
+  it('fits the export aspect centered inside the margins', () => {
+    // 1000x600 viewport minus a 16 px margin: 968x568 available
+    const rect = getFramingRect({ width: 1000, height: 600 }, { width: 1080, height: 1080 });
+    expect(rect).toEqual({ x: 216, y: 16, width: 568, height: 568 });
+  });
+
+  it('is limited by the width for wide exports', () => {
+    const rect = getFramingRect({ width: 400, height: 800 }, { width: 1920, height: 1080 });
+    expect(rect.width).toBe(368);
+    expect(rect.height).toBeCloseTo(207);
+    expect(rect.x).toBe(16);
+    expect(rect.y).toBeCloseTo((800 - 207) / 2);
+  });
+
+  it('never collapses on a tiny viewport', () => {
+    const rect = getFramingRect({ width: 10, height: 10 }, { width: 100, height: 100 });
+    expect(rect.width).toBeGreaterThan(0);
+    expect(rect.x + rect.width / 2).toBe(5);
+  });
+});
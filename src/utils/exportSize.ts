@@ -0,0 +1,63 @@
+import { EXPORT_ASPECT_PRESETS, EXPORT_MAX_SIZE, EXPORT_MIN_SIZE, EXPORT_QUALITY_PRESETS } from '@/config/map';
+import { ExportConfig } from '@/types';
+import { Viewport } from './camera';
+
+/**
+ * Export size and framing
+ *
+ * Aspect presets keep the quality's short side (1080p vertical video is
+ * 1080x1920). Sizes are rounded to even numbers, which H.264 needs.
+ *
+ * The framing is the largest centered rectangle of the export aspect on
+ * the live map: the export shows exactly that area, rendered at the
+ * export size.
+ */
+
+export interface ExportSize {
+  width: number;
+  height: number;
+  bitrate: number;
+}
+
+export interface FramingRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Space left around the framing on the live map (CSS px)
+const FRAMING_MARGIN = 16;
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+const clampSize = (value: number) => Math.min(EXPORT_MAX_SIZE, Math.max(EXPORT_MIN_SIZE, value || 0));
+
+export function getExportSize({ quality, aspect, width, height }: ExportConfig): ExportSize {
+  // Custom sizes get the high preset's bitrate per pixel
+  const preset = EXPORT_QUALITY_PRESETS[aspect === 'custom' ? 'high' : quality];
+  const ratio = EXPORT_ASPECT_PRESETS[aspect].ratio;
+
+  let size: { width: number; height: number };
+  if (!ratio) {
+    size = { width: even(clampSize(width)), height: even(clampSize(height)) };
+  } else {
+    const short = preset.height;
+    const long = even((short * Math.max(...ratio)) / Math.min(...ratio));
+    size = ratio[0] >= ratio[1] ? { width: long, height: short } : { width: short, height: long };
+  }
+
+  const bitrate = Math.round((preset.bitrate * size.width * size.height) / (preset.width * preset.height));
+  return { ...size, bitrate };
+}
+
+/**
+ * Area of the live map that ends up in the export
+ */
+export function getFramingRect(viewport: Viewport, size: { width: number; height: number }): FramingRect {
+  const availableWidth = Math.max(1, viewport.width - FRAMING_MARGIN * 2);
+  const availableHeight = Math.max(1, viewport.height - FRAMING_MARGIN * 2);
+  const scale = Math.min(availableWidth / size.width, availableHeight / size.height);
+  const width = size.width * scale;
+  const height = size.height * scale;
+  return { x: (viewport.width - width) / 2, y: (viewport.height - height) / 2, width, height };
+}
@@ -0,0 +1,52 @@
+import { DistanceUnit } from '@/types';
+
+/**
+ * Display formatting for distances, durations, timeline positions and
+ * file sizes
+ * e.g. "1,240 km · 14 h" (thousands separator follows the browser locale)
+ */
+
+const METERS_PER_MILE = 1609.344;
+
+export function formatDistance(meters: number, unit: DistanceUnit = 'km'): string {
+  const value = unit === 'mi' ? meters / METERS_PER_MILE : meters / 1000;
+  const digits = value < 10 ? 1 : 0;
+  return `${value.toLocaleString(undefined, { maximumFractionDigits: digits })} ${unit}`;
+}
+
+export function formatDuration(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60);
+  if (totalMinutes < 60) return `${totalMinutes} min`;
+
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  // Long trips read better as whole hours
+  if (hours >= 10 || minutes === 0) return `${Math.round(totalMinutes / 60).toLocaleString()} h`;
+  return `${hours} h ${minutes} min`;
+}
+
+export function formatDistanceAndDuration(
+  meters: number,
+  seconds: number,
+  unit: DistanceUnit = 'km'
+): string {
+  return `${formatDistance(meters, unit)} · ${formatDuration(seconds)}`;
+}
+
+/**
+ * Animation timeline position, e.g. "0:07.5" or "1:02.0"
+ */
+export function formatTimecode(seconds: number): string {
+  const tenths = Math.round(Math.max(0, seconds) * 10);
+  const minutes = Math.floor(tenths / 600);
+  const rest = (tenths % 600) / 10;
+  return `${minutes}:${rest.toFixed(1).padStart(4, '0')}`;
+}
+
+/**
+ * File size in binary units, e.g. "840 KB" or "12.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
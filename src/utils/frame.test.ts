@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { CameraMode, Coordinates, Route } from '@/types';
+import { DEFAULT_CAMERA_PARAMS } from '@/config/animation';
+import { FrameSettings, frameAt } from './frame';
+
+// Two-point paths are not smoothed, so positions are exact
+const route: Route = {
+  id: 'route-1',
+  name: 'Frames',
+  waypoints: [
+    { id: 'a', coordinates: [0, 0], order: 0 },
+    { id: 'b', coordinates: [1, 0], order: 1, dwell: 2 },
+    { id: 'c', coordinates: [1, 1], order: 2 },
+  ],
+  segments: [
+    { id: 's1', startWaypointId: 'a', endWaypointId: 'b', transportMode: 'car', path: [[0, 0], [1, 0]] },
+    { id: 's2', startWaypointId: 'b', endWaypointId: 'c', transportMode: 'car', path: [[1, 0], [1, 1]] },
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+const settings = (cameraMode: CameraMode = 'off'): FrameSettings => ({
+  duration: 10,
+  timingModel: 'equal',
+  easing: 'linear',
+  cameraMode,
+  cameraParams: DEFAULT_CAMERA_PARAMS,
+});
+
+const options = { viewport: { width: 1280, height: 720 } };
+
+function expectNear([lng, lat]: Coordinates, [expectedLng, expectedLat]: Coordinates) {
+  expect(lng).toBeCloseTo(expectedLng, 4);
+  expect(lat).toBeCloseTo(expectedLat, 4);
+}
+
+describe('frameAt', () => {
+  it('returns null for a route without segments', () => {
+    expect(frameAt({ ...route, segments: [] }, settings(), 0, options)).toBeNull();
+  });
+
+  it('moves the marker along the timeline', () => {
+    const start = frameAt(route, settings(), 0, options)!;
+    expectNear(start.markerPosition, [0, 0]);
+    expect(start.progress).toBe(0);
+
+    const middle = frameAt(route, settings(), 2.5, options)!;
+    expect(middle.currentSegmentIndex).toBe(0);
+    expect(middle.segmentProgress).toBe(0.5);
+    expectNear(middle.markerPosition, [0.5, 0]);
+
+    const end = frameAt(route, settings(), 12, options)!;
+    expect(end.currentSegmentIndex).toBe(1);
+    expectNear(end.markerPosition, [1, 1]);
+    expect(end.progress).toBe(1);
+  });
+
+  it('holds the marker at a waypoint while it dwells', () => {
+    const frame = frameAt(route, settings(), 6, options)!;
+    expect(frame.currentSegmentIndex).toBe(0);
+    expectNear(frame.markerPosition, [1, 0]);
+  });
+
+  it('clamps time to the timeline', () => {
+    expect(frameAt(route, settings(), -5, options)!.time).toBe(0);
+    expect(frameAt(route, settings(), 99, options)!.time).toBe(12);
+  });
+
+  it('draws completed segments and the current one up to the marker', () => {
+    const frame = frameAt(route, settings(), 9.5, options)!;
+    expect(frame.drawnPath.slice(0, 2)).toEqual([[0, 0], [1, 0]]);
+    expectNear(frame.drawnPath[frame.drawnPath.length - 1], frame.markerPosition);
+  });
+
+  it('is pure: the same time gives the same frame', () => {
+    const a = frameAt(route, settings('follow'), 3.3, options);
+    frameAt(route, settings('follow'), 11, options);
+    expect(frameAt(route, settings('follow'), 3.3, options)).toEqual(a);
+  });
+
+  it('leaves the camera alone in free mode', () => {
+    const frame = frameAt(route, settings('off'), 1, options)!;
+    expect(frame.camera).toBeNull();
+    expect(frame.cameraSource).toBeNull();
+  });
+
+  it('follows the vehicle in follow mode', () => {
+    const frame = frameAt(route, settings('follow'), 2.5, options)!;
+    expect(frame.cameraSource).toBe('mode');
+    expect(frame.camera!.center).toEqual(frame.markerPosition);
+    expect(frame.camera!.pitch).toBe(DEFAULT_CAMERA_PARAMS.follow.pitch);
+    // Heading east along the equator
+    expect(frame.camera!.bearing).toBeCloseTo(90, 0);
+  });
+
+  it('keeps the overview camera fixed', () => {
+    const a = frameAt(route, settings('overview'), 1, options)!;
+    const b = frameAt(route, settings('overview'), 11, options)!;
+    expect(a.camera).toEqual(b.camera);
+    expectNear(a.camera!.center, [0.5, 0.5]);
+  });
+
+  it('keeps paths continuous across the antimeridian', () => {
+    const pacific: Route = {
+      ...route,
+      waypoints: [
+        { id: 'a', coordinates: [170, 0], order: 0 },
+        { id: 'b', coordinates: [-170, 0], order: 1 },
+      ],
+      segments: [
+        { id: 's1', startWaypointId: 'a', endWaypointId: 'b', transportMode: 'plane', path: [[170, 0], [-170, 0]] },
+      ],
+    };
+    const frame = frameAt(pacific, settings(), 5, options)!;
+    expectNear(frame.markerPosition, [180, 0]);
+    expect(frame.drawnPath.every(([lng]) => lng >= 170)).toBe(true);
+  });
+});
@@ -0,0 +1,306 @@
+import * as turf from '@turf/turf';
+import { AnimationState, CameraState, Coordinates, Route, RouteSegment } from '@/types';
+import { smoothPath } from './path';
+import { applyEasing, getSegmentEasing } from './easing';
+import { getAnimationTimeline, locateTime } from './timing';
+import { getRouteTotals } from './metrics';
+import {
+  Bounds,
+  Viewport,
+  calculateFollowZoom,
+  fitCamera,
+  getDirectedCamera,
+  getVehicleCamera,
+  isVehicleCameraMode,
+  lerpCamera,
+  smoothstep,
+} from './camera';
+
+/**
+ * Animation frames
+ *
+ * frameAt(t) gives everything drawn at time t on the animation clock:
+ * the marker, the drawn path and the camera. It is pure (no per-frame
+ * state), so live playback, scrubbing and export sample the same frames
+ * whatever the frame rate, and any time can be rendered directly.
+ *
+ * Camera smoothing is done over time too: the cinematic follow turns
+ * with a weighted average of recent vehicle headings instead of easing
+ * a little towards the target on every rendered frame.
+ *
+ * Segment paths are smoothed once (cached per segment) and shifted by
+ * whole turns of longitude so the route is continuous across the
+ * antimeridian; coordinates may fall outside [-180, 180] and Mapbox GL
+ * renders them on the adjacent world copy.
+ */
+
+export type FrameSettings = Pick<
+  AnimationState,
+  'duration' | 'timingModel' | 'easing' | 'cameraMode' | 'cameraParams'
+>;
+
+export interface FrameOptions {
+  viewport: Viewport; // For the fitted camera modes
+  // Blend from this view into the camera mode (e.g. where playback started)
+  intro?: { camera: CameraState; time: number };
+}
+
+export interface AnimationFrame {
+  time: number; // Seconds on the animation clock
+  progress: number; // 0-1
+  markerPosition: Coordinates;
+  currentSegmentIndex: number;
+  segmentProgress: number;
+  drawnPath: Coordinates[];
+  bearing: number; // Vehicle heading
+  // null leaves the map camera alone (free camera mode, no keyframes)
+  camera: CameraState | null;
+  cameraSource: 'keyframes' | 'mode' | null;
+}
+
+// Seconds to blend from the intro view into the camera mode
+const INTRO_SECONDS = 1.5;
+// Cinematic follow heading: time constant and samples of the average
+const HEADING_SMOOTHING = 2.5;
+const HEADING_STEP = 0.5;
+const HEADING_SAMPLES = 12;
+
+interface SegmentGeometry {
+  path: Coordinates[];
+  line: GeoJSON.Feature<GeoJSON.LineString>;
+  length: number; // km
+  bounds: Bounds;
+}
+
+interface RouteGeometry {
+  segments: (SegmentGeometry | null)[];
+  bounds: Bounds | null;
+}
+
+// Bezier smoothing is expensive: keep it per segment (unchanged segments
+// keep their identity across route edits)
+const smoothCache = new WeakMap<RouteSegment, Coordinates[]>();
+const geometryCache = new WeakMap<Route, RouteGeometry>();
+
+function getSmoothedPath(segment: RouteSegment): Coordinates[] {
+  let path = smoothCache.get(segment);
+  if (!path) {
+    path = smoothPath(segment.path, segment.transportMode);
+    smoothCache.set(segment, path);
+  }
+  return path;
+}
+
+function pathBounds(path: Coordinates[]): Bounds {
+  return path.reduce<Bounds>(
+    ([west, south, east, north], [lng, lat]) => [
+      Math.min(west, lng),
+      Math.min(south, lat),
+      Math.max(east, lng),
+      Math.max(north, lat),
+    ],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+}
+
+function mergeBounds(a: Bounds | null, b: Bounds): Bounds {
+  if (!a) return b;
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
+
+function getRouteGeometry(route: Route): RouteGeometry {
+  const cached = geometryCache.get(route);
+  if (cached) return cached;
+
+  let previousEnd: Coordinates | undefined;
+  let bounds: Bounds | null = null;
+  const segments = route.segments.map((segment) => {
+    const smoothed = getSmoothedPath(segment);
+    if (smoothed.length < 2) return null;
+
+    // Start each segment on the world copy where the previous one ended
+    const shift = previousEnd ? Math.round((previousEnd[0] - smoothed[0][0]) / 360) * 360 : 0;
+    const path: Coordinates[] = shift ? smoothed.map(([lng, lat]) => [lng + shift, lat]) : smoothed;
+    previousEnd = path[path.length - 1];
+
+    const line = turf.lineString(path);
+    const segmentBounds = pathBounds(path);
+    bounds = mergeBounds(bounds, segmentBounds);
+    return { path, line, length: turf.length(line, { units: 'kilometers' }), bounds: segmentBounds };
+  });
+
+  const geometry = { segments, bounds };
+  geometryCache.set(route, geometry);
+  return geometry;
+}
+
+interface VehicleState {
+  segmentIndex: number;
+  segmentProgress: number;
+  geometry: SegmentGeometry | null;
+  distance: number; // km along the segment
+  position: Coordinates | null;
+  heading: number;
+}
+
+function vehicleAt(route: Route, settings: FrameSettings, time: number): VehicleState {
+  const timeline = getAnimationTimeline(route, settings);
+  const { segmentIndex, segmentProgress } = locateTime(timeline, time);
+  const segment = route.segments[segmentIndex];
+  const geometry = getRouteGeometry(route).segments[segmentIndex] ?? null;
+  if (!segment || !geometry) {
+    return { segmentIndex, segmentProgress, geometry: null, distance: 0, position: null, heading: 0 };
+  }
+
+  const { line, length, path } = geometry;
+  const distance = length * applyEasing(getSegmentEasing(segment, settings.easing), segmentProgress);
+  const position = turf.along(line, distance, { units: 'kilometers' }).geometry.coordinates as Coordinates;
+
+  // Bearing using proportional look-ahead (15% of segment, clamped 1-8km)
+  let heading = 0;
+  try {
+    const lookAheadKm = Math.max(1.0, Math.min(length * 0.15, 8.0));
+    const lookAheadDist = Math.min(distance + lookAheadKm, length);
+    if (lookAheadDist > distance + 0.001) {
+      const lookAheadPoint = turf.along(line, lookAheadDist, { units: 'kilometers' });
+      heading = turf.bearing(turf.point(position), lookAheadPoint);
+    } else {
+      const lastIdx = path.length - 1;
+      heading = turf.bearing(turf.point(path[Math.max(0, lastIdx - 1)]), turf.point(path[lastIdx]));
+    }
+  } catch {
+    heading = 0;
+  }
+
+  return { segmentIndex, segmentProgress, geometry, distance, position, heading };
+}
+
+/**
+ * Cinematic follow heading: exponentially weighted circular mean of the
+ * headings over the last few seconds, so turns are taken gradually
+ */
+function smoothedHeading(route: Route, settings: FrameSettings, time: number): number {
+  let x = 0;
+  let y = 0;
+  for (let k = 0; k < HEADING_SAMPLES; k++) {
+    const sampleTime = time - k * HEADING_STEP;
+    if (sampleTime < 0 && k > 0) break;
+    const weight = Math.exp((-k * HEADING_STEP) / HEADING_SMOOTHING);
+    const heading = (vehicleAt(route, settings, Math.max(0, sampleTime)).heading * Math.PI) / 180;
+    x += weight * Math.cos(heading);
+    y += weight * Math.sin(heading);
+  }
+  return (Math.atan2(y, x) * 180) / Math.PI;
+}
+
+/**
+ * Segment-fit camera: each segment's framing, moving from the previous
+ * segment's framing over `transition` seconds as the segment starts
+ */
+function segmentFitCamera(
+  route: Route,
+  settings: FrameSettings,
+  time: number,
+  segmentIndex: number,
+  viewport: Viewport
+): CameraState | null {
+  const { segments } = getRouteGeometry(route);
+  const params = settings.cameraParams['segment-fit'];
+  const fit = { ...params, bearing: 0 };
+  const current = segments[segmentIndex];
+  if (!current) return null;
+
+  const camera = fitCamera(current.bounds, viewport, fit);
+  const previous = segments[segmentIndex - 1];
+  const entry = getAnimationTimeline(route, settings).entries.find(
+    (e) => e.kind === 'segment' && e.index === segmentIndex
+  );
+  if (!previous || !entry || params.transition <= 0) return camera;
+
+  const t = Math.max(0, Math.min(1, (time - entry.start) / params.transition));
+  return lerpCamera(fitCamera(previous.bounds, viewport, fit), camera, smoothstep(t));
+}
+
+/**
+ * Everything drawn at `time` (seconds), or null when the current segment
+ * has no path to animate
+ */
+export function frameAt(
+  route: Route,
+  settings: FrameSettings,
+  time: number,
+  options: FrameOptions
+): AnimationFrame | null {
+  if (route.segments.length === 0) return null;
+
+  const { totalDuration } = getAnimationTimeline(route, settings);
+  const clampedTime = Math.max(0, Math.min(totalDuration, time));
+  const vehicle = vehicleAt(route, settings, clampedTime);
+  const { geometry, position } = vehicle;
+  if (!geometry || !position) return null;
+
+  // Drawn path: all completed segments + the current one up to the vehicle
+  const { segments, bounds } = getRouteGeometry(route);
+  const drawnPath: Coordinates[] = [];
+  for (let i = 0; i < vehicle.segmentIndex; i++) {
+    drawnPath.push(...(segments[i]?.path ?? []));
+  }
+  // lineSlice wraps its end point into [-180, 180]; end on the marker so
+  // the drawn line stays on the same world copy across the antimeridian
+  const sliced = turf.lineSlice(turf.point(geometry.path[0]), turf.point(position), geometry.line);
+  drawnPath.push(...(sliced.geometry.coordinates as Coordinates[]).slice(0, -1), position);
+
+  // Camera: keyframes direct the shot, otherwise the camera mode
+  const { cameraMode, cameraParams } = settings;
+  const followZoom = calculateFollowZoom(getRouteTotals(route).distance / 1000);
+  const vehicleCamera = (mode: 'follow' | 'chase' | 'orbit') =>
+    getVehicleCamera(mode, cameraParams, {
+      position,
+      heading: mode === 'follow' ? smoothedHeading(route, settings, clampedTime) : vehicle.heading,
+      zoom: followZoom,
+      time: clampedTime,
+    });
+
+  let camera: CameraState | null = null;
+  let cameraSource: AnimationFrame['cameraSource'] = null;
+
+  const directed = getDirectedCamera(route.keyframes, clampedTime);
+  if (directed) {
+    // Following keyframes use the mode's vehicle camera, or the cinematic one
+    camera = directed.followWeight > 0
+      ? lerpCamera(
+          directed.camera,
+          vehicleCamera(isVehicleCameraMode(cameraMode) ? cameraMode : 'follow'),
+          directed.followWeight
+        )
+      : directed.camera;
+    cameraSource = 'keyframes';
+  } else {
+    if (isVehicleCameraMode(cameraMode)) {
+      camera = vehicleCamera(cameraMode);
+    } else if (cameraMode === 'overview' && bounds) {
+      camera = fitCamera(bounds, options.viewport, cameraParams.overview);
+    } else if (cameraMode === 'segment-fit') {
+      camera = segmentFitCamera(route, settings, clampedTime, vehicle.segmentIndex, options.viewport);
+    }
+
+    const { intro } = options;
+    if (camera && intro && clampedTime >= intro.time) {
+      const t = Math.min(1, (clampedTime - intro.time) / INTRO_SECONDS);
+      camera = lerpCamera(intro.camera, camera, smoothstep(t));
+    }
+    cameraSource = camera ? 'mode' : null;
+  }
+
+  return {
+    time: clampedTime,
+    progress: totalDuration > 0 ? clampedTime / totalDuration : 1,
+    markerPosition: position,
+    currentSegmentIndex: vehicle.segmentIndex,
+    segmentProgress: vehicle.segmentProgress,
+    drawnPath,
+    bearing: vehicle.heading,
+    camera,
+    cameraSource,
+  };
+}
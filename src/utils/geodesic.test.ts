@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { splitAtAntimeridian, unwrapLongitudes } from './geodesic';
+
+describe('unwrapLongitudes', () => {
+  it('keeps longitudes continuous across the antimeridian', () => {
+    expect(unwrapLongitudes([[170, 0], [-170, 0], [-160, 0]])).toEqual([[170, 0], [190, 0], [200, 0]]);
+    expect(unwrapLongitudes([[-170, 0], [170, 0]])).toEqual([[-170, 0], [-190, 0]]);
+  });
+});
+
+describe('splitAtAntimeridian', () => {
+  it('leaves paths that do not cross alone', () => {
+    expect(splitAtAntimeridian([[0, 0], [10, 5]])).toEqual([[[0, 0], [10, 5]]]);
+  });
+
+  it('cuts at the crossing, with the latitude interpolated', () => {
+    expect(splitAtAntimeridian([[170, 0], [-170, 10]])).toEqual([
+      [[170, 0], [180, 5]],
+      [[-180, 5], [-170, 10]],
+    ]);
+    expect(splitAtAntimeridian([[-170, 10], [170, 0]])).toEqual([
+      [[-170, 10], [-180, 5]],
+      [[180, 5], [170, 0]],
+    ]);
+  });
+
+  it('puts a vertex on 180 on the side of each part, once', () => {
+    expect(splitAtAntimeridian([[179.9, 10], [180, 10], [-179.9, 10]])).toEqual([
+      [[179.9, 10], [180, 10]],
+      [[-180, 10], [-179.9, 10]],
+    ]);
+  });
+
+  it('puts a vertex on -180 on the side of each part, once', () => {
+    expect(splitAtAntimeridian([[-179.9, 10], [-180, 10], [179.9, 10]])).toEqual([
+      [[-179.9, 10], [-180, 10]],
+      [[180, 10], [179.9, 10]],
+    ]);
+  });
+
+  it('drops the empty part when a path starts or ends on the antimeridian', () => {
+    expect(splitAtAntimeridian([[179, 10], [180, 10]])).toEqual([[[179, 10], [180, 10]]]);
+    expect(splitAtAntimeridian([[180, 10], [179, 10]])).toEqual([[[180, 10], [179, 10]]]);
+    expect(splitAtAntimeridian([[-180, 10], [-179, 10]])).toEqual([[[-180, 10], [-179, 10]]]);
+  });
+
+  it('splits paths that go around the world more than once', () => {
+    const parts = splitAtAntimeridian([[170, 0], [-170, 0], [0, 0], [170, 0], [-170, 0]]);
+    expect(parts).toHaveLength(3);
+    parts.flat().forEach(([lng]) => expect(Math.abs(lng)).toBeLessThanOrEqual(180));
+  });
+});
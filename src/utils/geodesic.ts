@@ -0,0 +1,206 @@
+import { Coordinates } from '@/types';
+
+/**
+ * Great-circle geometry helpers
+ *
+ * Stored paths keep longitudes within [-180, 180] (GeoJSON, route schema).
+ * Anything that measures or animates along a path should unwrap it first
+ * so a crossing of the antimeridian is a small step (179.9 -> 180.1)
+ * instead of a jump across the whole map (179.9 -> -179.9). Lines drawn
+ * from stored paths are split at the antimeridian instead.
+ */
+
+const EARTH_RADIUS = 6371008.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+function toVector([lng, lat]: Coordinates): [number, number, number] {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lng);
+  return [Math.cos(phi) * Math.cos(lambda), Math.cos(phi) * Math.sin(lambda), Math.sin(phi)];
+}
+
+function fromVector([x, y, z]: [number, number, number]): Coordinates {
+  return [toDegrees(Math.atan2(y, x)), toDegrees(Math.atan2(z, Math.hypot(x, y)))];
+}
+
+/**
+ * Wrap a longitude into [-180, 180]
+ */
+export function normalizeLongitude(lng: number): number {
+  if (lng >= -180 && lng <= 180) return lng;
+  const wrapped = ((((lng + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 && lng > 0 ? 180 : wrapped;
+}
+
+/**
+ * Central angle between two points in radians
+ */
+function centralAngle(a: Coordinates, b: Coordinates): number {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Great-circle distance in meters
+ */
+export function greatCircleDistance(a: Coordinates, b: Coordinates): number {
+  return centralAngle(a, b) * EARTH_RADIUS;
+}
+
+/**
+ * Initial bearing from a to b in degrees (-180..180, 0 = north)
+ */
+export function initialBearing(a: Coordinates, b: Coordinates): number {
+  const phi1 = toRadians(a[1]);
+  const phi2 = toRadians(b[1]);
+  const dLambda = toRadians(b[0] - a[0]);
+  const y = Math.sin(dLambda) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLambda);
+  return toDegrees(Math.atan2(y, x));
+}
+
+/**
+ * Point reached travelling `distance` meters from `origin` on `bearing`
+ */
+export function destinationPoint(origin: Coordinates, distance: number, bearing: number): Coordinates {
+  const delta = distance / EARTH_RADIUS;
+  const theta = toRadians(bearing);
+  const phi1 = toRadians(origin[1]);
+  const lambda1 = toRadians(origin[0]);
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(delta) + Math.cos(phi1) * Math.sin(delta) * Math.cos(theta)
+  );
+  const lambda2 =
+    lambda1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+      Math.cos(delta) - Math.sin(phi1) * Math.sin(phi2)
+    );
+
+  return [normalizeLongitude(toDegrees(lambda2)), toDegrees(phi2)];
+}
+
+export interface GreatCircleOptions {
+  // Number of intervals (the path has numPoints + 1 coordinates)
+  numPoints?: number;
+  // Visual "altitude" bow as a fraction of the flight length (0 = pure
+  // geodesic). The path bows away from the equator, like a flight arc.
+  curvature?: number;
+}
+
+/**
+ * Interpolate the great circle between two points (spherical slerp)
+ * Returned longitudes are normalized to [-180, 180]
+ */
+export function greatCirclePath(
+  start: Coordinates,
+  end: Coordinates,
+  { numPoints = 64, curvature = 0 }: GreatCircleOptions = {}
+): Coordinates[] {
+  const omega = centralAngle(start, end);
+  if (omega < 1e-9) return [start, end];
+
+  const a = toVector(start);
+  const b = toVector(end);
+  const sinOmega = Math.sin(omega);
+
+  const points: Coordinates[] = [];
+  for (let i = 0; i <= numPoints; i++) {
+    const t = i / numPoints;
+    const wa = Math.sin((1 - t) * omega) / sinOmega;
+    const wb = Math.sin(t * omega) / sinOmega;
+    points.push(fromVector([wa * a[0] + wb * b[0], wa * a[1] + wb * b[1], wa * a[2] + wb * b[2]]));
+  }
+
+  // Keep the exact endpoints (slerp rounding would move them slightly)
+  points[0] = start;
+  points[numPoints] = end;
+
+  if (curvature <= 0) return points;
+
+  // Bow perpendicular to the direction of travel, towards the pole of the
+  // hemisphere the flight's midpoint is in
+  const mid = points[Math.floor(numPoints / 2)];
+  const midBearing = initialBearing(mid, points[Math.floor(numPoints / 2) + 1]);
+  const leftIsPoleward = (Math.cos(toRadians(midBearing - 90)) >= 0) === (mid[1] >= 0);
+  const side = leftIsPoleward ? -90 : 90;
+  const maxOffset = curvature * omega * EARTH_RADIUS;
+
+  return points.map((point, i) => {
+    if (i === 0 || i === numPoints) return point;
+    const next = points[i + 1];
+    const bearing = initialBearing(point, next);
+    const offset = maxOffset * Math.sin(Math.PI * (i / numPoints));
+    const [lng, lat] = destinationPoint(point, offset, bearing + side);
+    return [lng, Math.max(-89.9, Math.min(89.9, lat))];
+  });
+}
+
+/**
+ * Make longitudes continuous so no step exceeds 180°
+ * The first coordinate keeps its longitude; later ones may leave [-180, 180]
+ */
+export function unwrapLongitudes(coords: Coordinates[]): Coordinates[] {
+  if (coords.length === 0) return coords;
+
+  const result: Coordinates[] = [coords[0]];
+  let shift = 0;
+  for (let i = 1; i < coords.length; i++) {
+    const delta = coords[i][0] - coords[i - 1][0];
+    if (delta > 180) shift -= 360;
+    else if (delta < -180) shift += 360;
+    result.push(shift === 0 ? coords[i] : [coords[i][0] + shift, coords[i][1]]);
+  }
+  return result;
+}
+
+/**
+ * Cut a path where it crosses the antimeridian (RFC 7946 §3.1.9)
+ * Each part has longitudes within [-180, 180]; a vertex exactly on ±180
+ * goes on the side of the part it belongs to, never repeated
+ */
+export function splitAtAntimeridian(coords: Coordinates[]): Coordinates[][] {
+  const continuous = unwrapLongitudes(coords);
+  const parts: Coordinates[][] = [];
+  let part: Coordinates[] = [];
+
+  // Which 360°-wide "world copy" a longitude falls in
+  const worldOf = (lng: number) => Math.floor((lng + 180) / 360);
+  const add = (point: Coordinates) => {
+    const last = part[part.length - 1];
+    if (!last || last[0] !== point[0] || last[1] !== point[1]) part.push(point);
+  };
+
+  continuous.forEach((point, i) => {
+    const world = worldOf(point[0]);
+    if (i > 0) {
+      const previous = continuous[i - 1];
+      const fromWorld = worldOf(previous[0]);
+
+      if (fromWorld !== world) {
+        // Interpolate the crossing latitude at the world boundary
+        const boundary = (Math.max(fromWorld, world) * 360) - 180;
+        const t = (boundary - previous[0]) / (point[0] - previous[0]);
+        // (exactly a vertex's latitude when the vertex is on the boundary)
+        const lat = t >= 1 ? point[1] : previous[1] + (point[1] - previous[1]) * t;
+        const eastward = world > fromWorld;
+
+        add([eastward ? 180 : -180, lat]);
+        parts.push(part);
+        part = [[eastward ? -180 : 180, lat]];
+      }
+    }
+    // Longitude within the world copy of the part being built
+    add([point[0] - world * 360, point[1]]);
+  });
+
+  parts.push(part);
+  return parts.filter((p) => p.length >= 2);
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { Route } from '@/types';
+import { isGeoJson, parseGeoJson, routeToGeoJson } from './geojson';
+
+const route: Route = {
+  id: 'route-1',
+  name: 'Islas',
+  waypoints: [
+    { id: 'a', coordinates: [2.65, 39.57], label: 'Palma', order: 0, dwell: 2 },
+    { id: 'b', coordinates: [1.43, 38.91], label: 'Ibiza', order: 1, elevation: 10 },
+    { id: 'c', coordinates: [1.45, 38.7], label: 'Formentera', order: 2 },
+  ],
+  segments: [
+    {
+      id: 's1',
+      startWaypointId: 'a',
+      endWaypointId: 'b',
+      transportMode: 'train',
+      path: [[2.65, 39.57], [2.0, 39.2], [1.43, 38.91]],
+      distance: 140000,
+      duration: 14400,
+      animationDuration: 5,
+      easing: 'cubic',
+    },
+    {
+      id: 's2',
+      startWaypointId: 'b',
+      endWaypointId: 'c',
+      transportMode: 'train',
+      path: [[1.43, 38.91], [1.45, 38.7]],
+      distance: 24000,
+    },
+  ],
+  createdAt: new Date('2024-01-01T10:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T10:00:00.000Z'),
+};
+
+describe('GeoJSON round-trip', () => {
+  it('keeps waypoints and segments with their properties', () => {
+    // Through text, as when the file is saved and loaded
+    const parsed = parseGeoJson(JSON.stringify(routeToGeoJson(route)));
+    expect(parsed.name).toBe('Islas');
+    expect(parsed.waypoints).toEqual(route.waypoints);
+    expect(parsed.segments).toEqual(route.segments);
+  });
+
+  it('restores order from properties when features are shuffled', () => {
+    const collection = routeToGeoJson(route);
+    const parsed = parseGeoJson({ ...collection, features: [...collection.features].reverse() });
+    expect(parsed.waypoints.map((wp) => wp.id)).toEqual(['a', 'b', 'c']);
+    expect(parsed.segments.map((s) => s.id)).toEqual(['s1', 's2']);
+  });
+});
+
+describe('parseGeoJson', () => {
+  it('derives waypoints from line endpoints', () => {
+    const parsed = parseGeoJson({
+      type: 'MultiLineString',
+      coordinates: [
+        [[0, 0], [1, 0]],
+        [[1, 0], [1, 1]],
+      ],
+    });
+    expect(parsed.waypoints.map((wp) => wp.coordinates)).toEqual([[0, 0], [1, 0], [1, 1]]);
+    expect(parsed.segments.map((s) => s.path)).toEqual([[[0, 0], [1, 0]], [[1, 0], [1, 1]]]);
+  });
+
+  it('reads points from MultiPoint and GeometryCollection', () => {
+    const parsed = parseGeoJson({
+      type: 'GeometryCollection',
+      geometries: [{ type: 'MultiPoint', coordinates: [[0, 0], [1, 1]] }, { type: 'Point', coordinates: [2, 2] }],
+    });
+    expect(parsed.waypoints).toHaveLength(3);
+    expect(parsed.segments).toHaveLength(2);
+  });
+
+  it('rejects GeoJSON without points or lines', () => {
+    expect(() => parseGeoJson({ type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] })).toThrow(
+      'no Point or LineString'
+    );
+    expect(() => parseGeoJson({ type: 'Unknown' })).toThrow('Invalid GeoJSON');
+  });
+});
+
+describe('isGeoJson', () => {
+  it('tells GeoJSON apart from route files', () => {
+    expect(isGeoJson({ type: 'MultiLineString', coordinates: [] })).toBe(true);
+    expect(isGeoJson({ schemaVersion: 1, waypoints: [] })).toBe(false);
+    expect(isGeoJson({ waypoints: [] })).toBe(false);
+  });
+});
@@ -0,0 +1,321 @@
+import * as turf from '@turf/turf';
+import { Coordinates, Easing, Route, RouteSegment, TransportMode, Waypoint } from '@/types';
+import { TRANSPORT_MODES } from '@/config/transport';
+import { EASINGS } from '@/config/animation';
+import { generateId } from './id';
+
+/**
+ * GeoJSON import/export
+ *
+ * A route becomes a FeatureCollection where:
+ * - Waypoints are Point features (with their animation dwell time)
+ * - Segments are LineString features carrying transportMode, distance,
+ *   duration, animationDuration, easing and order in their properties
+ *
+ * Import is lenient so files edited in QGIS or geojson.io come back:
+ * missing ids are regenerated, order falls back to feature order, and
+ * waypoints are derived from line endpoints when no points are present.
+ * Multi-part geometries and GeometryCollections are split into their
+ * points and lines; polygons are ignored.
+ */
+
+export interface WaypointFeatureProperties {
+  featureType: 'waypoint';
+  id: string;
+  label?: string;
+  order: number;
+  elevation?: number;
+  time?: string;
+  dwell?: number;
+}
+
+export interface SegmentFeatureProperties {
+  featureType: 'segment';
+  id: string;
+  transportMode: TransportMode;
+  order: number;
+  startWaypointId: string;
+  endWaypointId: string;
+  distance?: number;
+  duration?: number;
+  animationDuration?: number;
+  easing?: Easing;
+}
+
+export type RouteFeatureCollection = GeoJSON.FeatureCollection<
+  GeoJSON.Point | GeoJSON.LineString,
+  WaypointFeatureProperties | SegmentFeatureProperties
+> & { name?: string };
+
+export function waypointToFeature(
+  waypoint: Waypoint
+): GeoJSON.Feature<GeoJSON.Point, WaypointFeatureProperties> {
+  return {
+    type: 'Feature',
+    properties: {
+      featureType: 'waypoint',
+      id: waypoint.id,
+      label: waypoint.label,
+      order: waypoint.order,
+      elevation: waypoint.elevation,
+      time: waypoint.time,
+      dwell: waypoint.dwell,
+    },
+    geometry: { type: 'Point', coordinates: waypoint.coordinates },
+  };
+}
+
+/**
+ * Build the LineString feature for a segment
+ * `coordinates` lets callers substitute a smoothed or in-progress path
+ */
+export function segmentToFeature(
+  segment: RouteSegment,
+  order: number,
+  coordinates: Coordinates[] = segment.path
+): GeoJSON.Feature<GeoJSON.LineString, SegmentFeatureProperties> {
+  return {
+    type: 'Feature',
+    properties: {
+      featureType: 'segment',
+      id: segment.id,
+      transportMode: segment.transportMode,
+      order,
+      startWaypointId: segment.startWaypointId,
+      endWaypointId: segment.endWaypointId,
+      distance: segment.distance,
+      duration: segment.duration,
+      animationDuration: segment.animationDuration,
+      easing: segment.easing,
+    },
+    geometry: { type: 'LineString', coordinates },
+  };
+}
+
+export function routeToGeoJson(route: Route): RouteFeatureCollection {
+  const waypoints = [...route.waypoints].sort((a, b) => a.order - b.order);
+  return {
+    type: 'FeatureCollection',
+    name: route.name,
+    features: [
+      ...waypoints.map(waypointToFeature),
+      ...route.segments.map((segment, index) => segmentToFeature(segment, index)),
+    ],
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+type AnyProperties = Record<string, unknown>;
+
+interface PointInput {
+  coordinates: Coordinates;
+  properties: AnyProperties;
+}
+
+interface LineInput {
+  coordinates: Coordinates[];
+  properties: AnyProperties;
+}
+
+function isPosition(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1])
+  );
+}
+
+// Drops altitude so coordinates match the [lng, lat] Coordinates type
+function toCoordinates(position: number[]): Coordinates {
+  return [position[0], position[1]];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : undefined;
+}
+
+function asTransportMode(value: unknown): TransportMode {
+  return typeof value === 'string' && (TRANSPORT_MODES as string[]).includes(value)
+    ? (value as TransportMode)
+    : 'car';
+}
+
+function asEasing(value: unknown): Easing | undefined {
+  return typeof value === 'string' && (EASINGS as string[]).includes(value)
+    ? (value as Easing)
+    : undefined;
+}
+
+const GEOMETRY_TYPES = [
+  'Point',
+  'MultiPoint',
+  'LineString',
+  'MultiLineString',
+  'Polygon',
+  'MultiPolygon',
+  'GeometryCollection',
+];
+
+/**
+ * Whether parsed JSON should go through `parseGeoJson` rather than the
+ * route file loader: anything without a route file's `schemaVersion` or
+ * `waypoints` is treated as GeoJSON
+ */
+export function isGeoJson(data: unknown): boolean {
+  if (typeof data !== 'object' || data === null) return false;
+  return !('schemaVersion' in data) && !('waypoints' in data);
+}
+
+function collectFeatures(input: unknown): GeoJSON.Feature[] {
+  const data = input as GeoJSON.GeoJSON;
+  if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) return data.features;
+  if (data?.type === 'Feature') return [data];
+  if (GEOMETRY_TYPES.includes(data?.type)) {
+    return [{ type: 'Feature', properties: {}, geometry: data as GeoJSON.Geometry }];
+  }
+  throw new Error('Invalid GeoJSON: expected a FeatureCollection, Feature or geometry');
+}
+
+function sortByOrder<T extends { properties: AnyProperties }>(items: T[]): T[] {
+  return items
+    .map((item, index) => ({ item, order: asNumber(item.properties.order) ?? index, index }))
+    .sort((a, b) => a.order - b.order || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+function samePosition(a: Coordinates, b: Coordinates): boolean {
+  return Math.abs(a[0] - b[0]) < 1e-9 && Math.abs(a[1] - b[1]) < 1e-9;
+}
+
+/**
+ * Parse GeoJSON (object or text) into a Route ready for `loadRoute`
+ */
+export function parseGeoJson(input: unknown, fallbackName = 'Ruta importada'): Route {
+  const data = typeof input === 'string' ? JSON.parse(input) : input;
+  const features = collectFeatures(data);
+
+  const points: PointInput[] = [];
+  const lines: LineInput[] = [];
+
+  const addPoint = (position: unknown, properties: AnyProperties) => {
+    if (isPosition(position)) points.push({ coordinates: toCoordinates(position), properties });
+  };
+  const addLine = (positions: unknown[], properties: AnyProperties) => {
+    const coords = positions.filter(isPosition).map(toCoordinates);
+    if (coords.length >= 2) lines.push({ coordinates: coords, properties });
+  };
+  const addGeometry = (geometry: GeoJSON.Geometry | null, properties: AnyProperties) => {
+    switch (geometry?.type) {
+      case 'Point':
+        addPoint(geometry.coordinates, properties);
+        break;
+      case 'MultiPoint':
+        geometry.coordinates.forEach((position) => addPoint(position, properties));
+        break;
+      case 'LineString':
+        addLine(geometry.coordinates, properties);
+        break;
+      case 'MultiLineString':
+        geometry.coordinates.forEach((part) => addLine(part, properties));
+        break;
+      case 'GeometryCollection':
+        geometry.geometries.forEach((part) => addGeometry(part, properties));
+        break;
+    }
+  };
+
+  for (const feature of features) {
+    addGeometry(feature.geometry, (feature.properties ?? {}) as AnyProperties);
+  }
+
+  const orderedLines = sortByOrder(lines);
+
+  // Without explicit points, waypoints sit at line endpoints
+  const orderedPoints: PointInput[] =
+    points.length > 0
+      ? sortByOrder(points)
+      : orderedLines.flatMap((line, index) => {
+          const start = { coordinates: line.coordinates[0], properties: {} };
+          const end = { coordinates: line.coordinates[line.coordinates.length - 1], properties: {} };
+          const previous = orderedLines[index - 1];
+          const continues =
+            previous && samePosition(previous.coordinates[previous.coordinates.length - 1], start.coordinates);
+          return index === 0 || !continues ? [start, end] : [end];
+        });
+
+  if (orderedPoints.length === 0) {
+    throw new Error('Invalid GeoJSON: no Point or LineString features found');
+  }
+
+  const usedIds = new Set<string>();
+  const uniqueId = (candidate: unknown) => {
+    const id = asString(candidate);
+    const result = id && !usedIds.has(id) ? id : generateId();
+    usedIds.add(result);
+    return result;
+  };
+
+  const waypoints: Waypoint[] = orderedPoints.map((point, order) => ({
+    id: uniqueId(point.properties.id),
+    coordinates: point.coordinates,
+    label: asString(point.properties.label) ?? asString(point.properties.name),
+    order,
+    elevation: asNumber(point.properties.elevation),
+    time: asString(point.properties.time),
+    dwell: asNumber(point.properties.dwell),
+  }));
+
+  // Match lines to consecutive waypoint pairs: by stored ids first,
+  // then by position in the ordered line list
+  const unmatched = [...orderedLines];
+  const takeLine = (start: Waypoint, end: Waypoint, index: number) => {
+    const byIds = unmatched.findIndex(
+      (line) => line.properties.startWaypointId === start.id && line.properties.endWaypointId === end.id
+    );
+    if (byIds !== -1) return unmatched.splice(byIds, 1)[0];
+    const byOrder = orderedLines[index];
+    const position = byOrder ? unmatched.indexOf(byOrder) : -1;
+    return position !== -1 ? unmatched.splice(position, 1)[0] : undefined;
+  };
+
+  const segments: RouteSegment[] = [];
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const start = waypoints[i];
+    const end = waypoints[i + 1];
+    const line = takeLine(start, end, i);
+    const path = line?.coordinates ?? [start.coordinates, end.coordinates];
+
+    segments.push({
+      id: uniqueId(line?.properties.id),
+      startWaypointId: start.id,
+      endWaypointId: end.id,
+      transportMode: asTransportMode(line?.properties.transportMode),
+      path,
+      distance:
+        asNumber(line?.properties.distance) ??
+        turf.length(turf.lineString(path), { units: 'meters' }),
+      duration: asNumber(line?.properties.duration),
+      animationDuration: asNumber(line?.properties.animationDuration),
+      easing: asEasing(line?.properties.easing),
+    });
+  }
+
+  const now = new Date();
+  return {
+    id: generateId(),
+    name: asString((data as { name?: unknown }).name) ?? fallbackName,
+    waypoints,
+    segments,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
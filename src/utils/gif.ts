@@ -0,0 +1,160 @@
+import { Palette } from './quantize';
+
+/**
+ * Animated GIF writer (GIF89a)
+ *
+ * Every frame carries its own color table, so colors adapt as the map
+ * moves. Frames are LZW-compressed as they are added; only the encoded
+ * bytes are kept.
+ */
+
+export interface GifWriter {
+  // delay in centiseconds
+  addFrame: (indices: Uint8Array, palette: Palette, delay: number) => void;
+  finish: () => Blob;
+}
+
+class ByteBuffer {
+  private bytes = new Uint8Array(1 << 16);
+  length = 0;
+
+  private reserve(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  push(byte: number) {
+    this.reserve(1);
+    this.bytes[this.length++] = byte;
+  }
+
+  pushAll(bytes: ArrayLike<number>) {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  pushWord(value: number) {
+    this.push(value & 0xff);
+    this.push((value >> 8) & 0xff);
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+const ascii = (text: string) => Array.from(text, (c) => c.charCodeAt(0));
+
+/**
+ * LZW image data: minimum code size, then 255-byte sub-blocks
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number, out: ByteBuffer) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const block = new ByteBuffer();
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode >= 4096) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      // The decoder widens codes one entry behind the encoder
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bits & 0xff);
+
+  out.push(minCodeSize);
+  const data = block.toBytes();
+  for (let offset = 0; offset < data.length; offset += 255) {
+    const chunk = data.subarray(offset, offset + 255);
+    out.push(chunk.length);
+    out.pushAll(chunk);
+  }
+  out.push(0);
+}
+
+/**
+ * @param loopCount Times played (0 = forever)
+ */
+export function createGifWriter(width: number, height: number, loopCount: number): GifWriter {
+  const parts: BlobPart[] = [];
+  const header = new ByteBuffer();
+  header.pushAll(ascii('GIF89a'));
+  header.pushWord(width);
+  header.pushWord(height);
+  header.pushAll([0x00, 0, 0]); // No global color table
+
+  if (loopCount !== 1) {
+    // NETSCAPE2.0 counts repeats after the first play
+    header.pushAll([0x21, 0xff, 0x0b, ...ascii('NETSCAPE2.0'), 0x03, 0x01]);
+    header.pushWord(loopCount === 0 ? 0 : loopCount - 1);
+    header.push(0);
+  }
+  parts.push(header.toBytes());
+
+  return {
+    addFrame: (indices, palette, delay) => {
+      const colors = palette.length / 3;
+      const tableBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, colors))));
+      const frame = new ByteBuffer();
+
+      // Graphic control: delay, disposal "do not dispose"
+      frame.pushAll([0x21, 0xf9, 0x04, 0x04]);
+      frame.pushWord(delay);
+      frame.pushAll([0, 0]);
+
+      // Image descriptor with a local color table
+      frame.push(0x2c);
+      frame.pushWord(0);
+      frame.pushWord(0);
+      frame.pushWord(width);
+      frame.pushWord(height);
+      frame.push(0x80 | (tableBits - 1));
+      const table = new Uint8Array(3 << tableBits);
+      table.set(palette);
+      frame.pushAll(table);
+
+      lzwEncode(indices, Math.max(2, tableBits), frame);
+      parts.push(frame.toBytes());
+    },
+    finish: () => new Blob([...parts, new Uint8Array([0x3b])], { type: 'image/gif' }),
+  };
+}
@@ -0,0 +1,136 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { Route } from '@/types';
+import { parseGpx, serializeGpx } from './gpx';
+
+const route: Route = {
+  id: 'route-1',
+  name: 'Ruta & vuelta',
+  waypoints: [
+    { id: 'a', coordinates: [0, 0], label: 'Salida', order: 0, elevation: 600, time: '2024-01-01T10:00:00.000Z' },
+    { id: 'b', coordinates: [1, 0], label: 'Estación', order: 1 },
+    { id: 'c', coordinates: [1, 1], label: 'Aeropuerto', order: 2 },
+    { id: 'd', coordinates: [5, 5], label: 'Llegada', order: 3 },
+  ],
+  segments: [
+    { id: 's1', startWaypointId: 'a', endWaypointId: 'b', transportMode: 'car', path: [[0, 0], [0.5, 0], [1, 0]] },
+    { id: 's2', startWaypointId: 'b', endWaypointId: 'c', transportMode: 'train', path: [[1, 0], [1, 1]] },
+    { id: 's3', startWaypointId: 'c', endWaypointId: 'd', transportMode: 'plane', path: [[1, 1], [3, 3], [5, 5]] },
+  ],
+  createdAt: new Date('2024-01-01T10:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T10:00:00.000Z'),
+};
+
+describe('GPX round-trip', () => {
+  const parsed = parseGpx(serializeGpx(route));
+
+  it('keeps name, waypoints and their order', () => {
+    expect(parsed.name).toBe('Ruta & vuelta');
+    expect(parsed.waypoints.map((wp) => wp.label)).toEqual(['Salida', 'Estación', 'Aeropuerto', 'Llegada']);
+    expect(parsed.waypoints.map((wp) => wp.coordinates)).toEqual(route.waypoints.map((wp) => wp.coordinates));
+    expect(parsed.waypoints[0]).toMatchObject({ elevation: 600, time: '2024-01-01T10:00:00.000Z' });
+  });
+
+  it('keeps segment paths and transport modes', () => {
+    expect(parsed.segments.map((s) => s.transportMode)).toEqual(['car', 'train', 'plane']);
+    expect(parsed.segments.map((s) => s.path)).toEqual(route.segments.map((s) => s.path));
+    parsed.segments.forEach((segment, i) => {
+      expect(segment.startWaypointId).toBe(parsed.waypoints[i].id);
+      expect(segment.endWaypointId).toBe(parsed.waypoints[i + 1].id);
+    });
+  });
+
+  it('keeps the waypoint order of loops', () => {
+    // The track passes the start twice, so only ra:order tells the stops apart
+    const loop: Route = {
+      ...route,
+      waypoints: [
+        { id: 'a', coordinates: [0, 0], label: 'Salida', order: 0 },
+        { id: 'b', coordinates: [1, 0], label: 'Puerto', order: 1 },
+        { id: 'c', coordinates: [1, 1], label: 'Faro', order: 2 },
+        { id: 'd', coordinates: [0, 0], label: 'Llegada', order: 3 },
+      ],
+      segments: [
+        { id: 's1', startWaypointId: 'a', endWaypointId: 'b', transportMode: 'car', path: [[0, 0], [1, 0]] },
+        { id: 's2', startWaypointId: 'b', endWaypointId: 'c', transportMode: 'car', path: [[1, 0], [1, 1]] },
+        { id: 's3', startWaypointId: 'c', endWaypointId: 'd', transportMode: 'car', path: [[1, 1], [0, 1], [0, 0]] },
+      ],
+    };
+    const back = parseGpx(serializeGpx(loop));
+    expect(back.waypoints.map((wp) => wp.label)).toEqual(['Salida', 'Puerto', 'Faro', 'Llegada']);
+    expect(back.segments.map((s) => s.path)).toEqual(loop.segments.map((s) => s.path));
+  });
+});
+
+describe('parseGpx', () => {
+  const track = `<?xml version="1.0"?>
+<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><name>Paseo</name><type>train</type><trkseg>
+    <trkpt lat="40" lon="-3"><ele>600</ele><time>2024-01-01T10:00:00Z</time></trkpt>
+    <trkpt lat="40.5" lon="-3.5"><time>2024-01-01T10:30:00Z</time></trkpt>
+    <trkpt lat="41" lon="-4"><time>2024-01-01T11:00:00Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+  it('turns a bare track into one segment', () => {
+    const parsed = parseGpx(track);
+    expect(parsed.name).toBe('Paseo');
+    expect(parsed.waypoints).toHaveLength(2);
+    expect(parsed.waypoints[0]).toMatchObject({ coordinates: [-3, 40], elevation: 600 });
+    expect(parsed.segments).toHaveLength(1);
+    expect(parsed.segments[0]).toMatchObject({ transportMode: 'train', duration: 3600 });
+    expect(parsed.segments[0].path).toEqual([[-3, 40], [-3.5, 40.5], [-4, 41]]);
+  });
+
+  it('cuts the track at named waypoints', () => {
+    const parsed = parseGpx(track.replace('<trk>', '<wpt lat="40.5" lon="-3.5"><name>Mitad</name></wpt><trk>'));
+    expect(parsed.waypoints.map((wp) => wp.label)).toEqual([undefined, 'Mitad', undefined]);
+    expect(parsed.segments.map((s) => s.path.length)).toEqual([2, 2]);
+  });
+
+  it('joins route points with straight segments', () => {
+    const parsed = parseGpx(`<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1"><rte>
+      <rtept lat="40" lon="-3"><name>A</name></rtept>
+      <rtept lat="41" lon="-4"><name>B</name></rtept>
+      <rtept lat="42" lon="-5"><name>C</name></rtept>
+    </rte></gpx>`);
+    expect(parsed.waypoints.map((wp) => wp.label)).toEqual(['A', 'B', 'C']);
+    expect(parsed.segments.map((s) => s.path)).toEqual([
+      [[-3, 40], [-4, 41]],
+      [[-4, 41], [-5, 42]],
+    ]);
+  });
+
+  it('merges standalone waypoints into the route points', () => {
+    const parsed = parseGpx(`<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+      <wpt lat="42" lon="-5"><name>Llegada</name></wpt>
+      <wpt lat="40.5" lon="-3.4"><name>Mirador</name></wpt>
+      <wpt lat="41.6" lon="-4.5"><name>Fuente</name></wpt>
+      <wpt lat="41.3" lon="-4.3"><name>Puente</name></wpt>
+      <rte>
+        <rtept lat="40" lon="-3"><name>A</name></rtept>
+        <rtept lat="41" lon="-4"></rtept>
+        <rtept lat="42" lon="-5"><name>C</name></rtept>
+      </rte></gpx>`);
+    expect(parsed.waypoints.map((wp) => wp.label)).toEqual(['A', 'Mirador', undefined, 'Puente', 'Fuente', 'C']);
+    expect(parsed.waypoints[1].coordinates).toEqual([-3.4, 40.5]);
+    expect(parsed.segments).toHaveLength(5);
+  });
+
+  it('names route points after the waypoints on them', () => {
+    const parsed = parseGpx(`<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+      <wpt lat="41" lon="-4"><name>B</name></wpt>
+      <rte>
+        <rtept lat="40" lon="-3"><name>A</name></rtept>
+        <rtept lat="41" lon="-4"></rtept>
+        <rtept lat="42" lon="-5"><name>C</name></rtept>
+      </rte></gpx>`);
+    expect(parsed.waypoints.map((wp) => wp.label)).toEqual(['A', 'B', 'C']);
+  });
+
+  it('rejects documents that are not GPX', () => {
+    expect(() => parseGpx('<kml/>')).toThrow('missing <gpx>');
+    expect(() => parseGpx('<gpx')).toThrow('not well-formed');
+    expect(() => parseGpx('<gpx version="1.1"/>')).toThrow('no waypoints');
+  });
+});
@@ -0,0 +1,423 @@
+import * as turf from '@turf/turf';
+import { Coordinates, Route, RouteSegment, TransportMode, Waypoint } from '@/types';
+import { TRANSPORT_MODES } from '@/config/transport';
+import { generateId } from './id';
+import { xmlElement } from './xml';
+
+/**
+ * GPX import/export
+ *
+ * Maps a GPX 1.0/1.1 document to a Route:
+ * - <wpt> and <rtept> become waypoints (with both, each <wpt> labels
+ *   the route point it sits on or becomes a stop on the leg it is nearest)
+ * - <trkseg> geometry becomes RouteSegment paths
+ *
+ * Segment boundaries are inferred as follows:
+ * - Named points + tracks: each named point is snapped to the nearest
+ *   track vertex and the track is cut there
+ * - Named points only: straight segments between consecutive points
+ * - Tracks only: every <trkseg> becomes one segment
+ *
+ * Export writes GPX 1.1 with one <wpt> per waypoint and one <trk> per
+ * segment. Transport modes and waypoint order travel in a private
+ * extension namespace so files exported here import back intact (order
+ * matters for loops, where the track passes a waypoint more than once).
+ */
+
+export const GPX_EXTENSION_NS = 'urn:route-animator:gpx:1';
+
+interface GpxPoint {
+  coordinates: Coordinates;
+  name?: string;
+  elevation?: number;
+  time?: string;
+  // <extensions><ra:order> on waypoints exported by this app
+  order?: number;
+  // Only set on track points, inherited from the parent <trk>
+  transportMode?: TransportMode;
+}
+
+interface GpxTrackLine {
+  name?: string;
+  transportMode?: TransportMode;
+  points: GpxPoint[];
+}
+
+// Position of a waypoint along the concatenated track geometry
+interface TrackAnchor {
+  point: GpxPoint;
+  index: number;
+}
+
+function childText(el: Element, tag: string): string | undefined {
+  for (const child of Array.from(el.children)) {
+    if (child.localName === tag) {
+      const text = child.textContent?.trim();
+      return text || undefined;
+    }
+  }
+  return undefined;
+}
+
+function byTag(parent: Document | Element, tag: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', tag));
+}
+
+function isTransportMode(value: string | undefined): value is TransportMode {
+  return !!value && (TRANSPORT_MODES as string[]).includes(value);
+}
+
+// Reads <extensions><ra:transportMode>, falling back to the standard <type>
+function parseTransportMode(trk: Element): TransportMode | undefined {
+  const fromExtension = byTag(trk, 'transportMode')[0]?.textContent?.trim();
+  if (isTransportMode(fromExtension)) return fromExtension;
+
+  const type = childText(trk, 'type')?.toLowerCase();
+  return isTransportMode(type) ? type : undefined;
+}
+
+function parsePoint(el: Element): GpxPoint | null {
+  const lat = parseFloat(el.getAttribute('lat') ?? '');
+  const lon = parseFloat(el.getAttribute('lon') ?? '');
+  if (!Number.isFinite(lat) || !Number.isFinite(lon)) return null;
+
+  const ele = parseFloat(childText(el, 'ele') ?? '');
+  const time = childText(el, 'time');
+  const order = parseFloat(el.getElementsByTagNameNS(GPX_EXTENSION_NS, 'order')[0]?.textContent ?? '');
+
+  return {
+    coordinates: [lon, lat],
+    name: childText(el, 'name'),
+    elevation: Number.isFinite(ele) ? ele : undefined,
+    time: time && !isNaN(Date.parse(time)) ? time : undefined,
+    order: Number.isFinite(order) ? order : undefined,
+  };
+}
+
+function parsePoints(elements: Element[]): GpxPoint[] {
+  return elements
+    .map(parsePoint)
+    .filter((p): p is GpxPoint => p !== null);
+}
+
+function squaredDistance(a: Coordinates, b: Coordinates): number {
+  const dx = a[0] - b[0];
+  const dy = a[1] - b[1];
+  return dx * dx + dy * dy;
+}
+
+function nearestIndex(track: GpxPoint[], target: Coordinates, fromIndex = 0): number {
+  let best = fromIndex;
+  let bestDist = Infinity;
+  for (let i = fromIndex; i < track.length; i++) {
+    const d = squaredDistance(track[i].coordinates, target);
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+function toWaypoint(point: GpxPoint, order: number): Waypoint {
+  return {
+    id: generateId(),
+    coordinates: point.coordinates,
+    label: point.name,
+    order,
+    elevation: point.elevation,
+    time: point.time,
+  };
+}
+
+function pathDistance(path: Coordinates[]): number | undefined {
+  if (path.length < 2) return undefined;
+  return turf.length(turf.lineString(path), { units: 'meters' });
+}
+
+function timeDifference(start?: string, end?: string): number | undefined {
+  if (!start || !end) return undefined;
+  const seconds = (Date.parse(end) - Date.parse(start)) / 1000;
+  return seconds > 0 ? seconds : undefined;
+}
+
+function buildSegment(
+  start: Waypoint,
+  end: Waypoint,
+  path: Coordinates[],
+  transportMode: TransportMode = 'car'
+): RouteSegment {
+  const fullPath = path.length >= 2 ? path : [start.coordinates, end.coordinates];
+  return {
+    id: generateId(),
+    startWaypointId: start.id,
+    endWaypointId: end.id,
+    transportMode,
+    path: fullPath,
+    distance: pathDistance(fullPath),
+    duration: timeDifference(start.time, end.time),
+  };
+}
+
+/**
+ * Adds standalone waypoints to the route points, in route order.
+ * A waypoint on a route point only lends it its name; any other is
+ * inserted in the leg where it adds the least detour.
+ */
+function mergeWaypoints(routePoints: GpxPoint[], waypoints: GpxPoint[]): GpxPoint[] {
+  const merged = routePoints.map((point) => ({ ...point }));
+  const stops: { point: GpxPoint; leg: number; along: number }[] = [];
+
+  for (const waypoint of waypoints) {
+    const onRoute = merged.find((point) => squaredDistance(point.coordinates, waypoint.coordinates) === 0);
+    if (onRoute) {
+      onRoute.name ??= waypoint.name;
+      continue;
+    }
+
+    let leg = routePoints.length - 1;
+    let bestDetour = Infinity;
+    for (let i = 0; i < routePoints.length - 1; i++) {
+      const a = routePoints[i].coordinates;
+      const b = routePoints[i + 1].coordinates;
+      const detour =
+        Math.sqrt(squaredDistance(a, waypoint.coordinates)) +
+        Math.sqrt(squaredDistance(waypoint.coordinates, b)) -
+        Math.sqrt(squaredDistance(a, b));
+      if (detour < bestDetour) {
+        bestDetour = detour;
+        leg = i;
+      }
+    }
+    const along = squaredDistance(routePoints[leg].coordinates, waypoint.coordinates);
+    stops.push({ point: waypoint, leg, along });
+  }
+
+  // Insert from the last leg back so earlier indices stay valid
+  stops.sort((a, b) => b.leg - a.leg || b.along - a.along);
+  for (const stop of stops) {
+    merged.splice(stop.leg + 1, 0, stop.point);
+  }
+  return merged;
+}
+
+/**
+ * Cuts the concatenated track at the named points.
+ * Route points and waypoints with ra:order keep their order; other
+ * standalone waypoints are ordered by where they fall along the track.
+ */
+function anchorsOnTrack(track: GpxPoint[], named: GpxPoint[], keepOrder: boolean): TrackAnchor[] {
+  let anchors: TrackAnchor[];
+
+  if (keepOrder) {
+    let cursor = 0;
+    anchors = named.map((point) => {
+      cursor = nearestIndex(track, point.coordinates, cursor);
+      return { point, index: cursor };
+    });
+  } else {
+    anchors = named
+      .map((point) => ({ point, index: nearestIndex(track, point.coordinates) }))
+      .sort((a, b) => a.index - b.index);
+  }
+
+  // Make sure the whole recorded track is covered
+  if (anchors.length === 0 || anchors[0].index > 0) {
+    anchors.unshift({ point: track[0], index: 0 });
+  }
+  const lastIndex = track.length - 1;
+  if (anchors[anchors.length - 1].index < lastIndex) {
+    anchors.push({ point: track[lastIndex], index: lastIndex });
+  }
+
+  return anchors;
+}
+
+function routeFromTrackAnchors(track: GpxPoint[], anchors: TrackAnchor[]) {
+  const waypoints = anchors.map((anchor, order) =>
+    toWaypoint(
+      {
+        ...anchor.point,
+        // Named points may lack time/elevation; borrow them from the track
+        elevation: anchor.point.elevation ?? track[anchor.index].elevation,
+        time: anchor.point.time ?? track[anchor.index].time,
+      },
+      order
+    )
+  );
+
+  const segments: RouteSegment[] = [];
+  for (let i = 0; i < anchors.length - 1; i++) {
+    const from = anchors[i].index;
+    const to = anchors[i + 1].index;
+    const inner = track.slice(from + 1, to).map((p) => p.coordinates);
+    // Adjacent <trk> elements usually repeat the junction point
+    const path = [waypoints[i].coordinates, ...inner, waypoints[i + 1].coordinates].filter(
+      (coord, j, all) => j === 0 || squaredDistance(coord, all[j - 1]) > 0
+    );
+    // The leg takes the mode of the track it starts on
+    const mode = track[Math.min(from + 1, to)].transportMode;
+    segments.push(buildSegment(waypoints[i], waypoints[i + 1], path, mode));
+  }
+
+  return { waypoints, segments };
+}
+
+function routeFromTrackLines(lines: GpxTrackLine[]) {
+  // One waypoint at the start of every line, plus the final end point
+  const anchorPoints: GpxPoint[] = lines.map((line) => ({
+    ...line.points[0],
+    name: line.points[0].name ?? line.name,
+  }));
+  const lastLine = lines[lines.length - 1];
+  anchorPoints.push(lastLine.points[lastLine.points.length - 1]);
+
+  const waypoints = anchorPoints.map(toWaypoint);
+
+  const segments = lines.map((line, i) => {
+    const path = line.points.map((p) => p.coordinates);
+    // Bridge recording gaps so consecutive segments stay connected
+    const nextStart = waypoints[i + 1].coordinates;
+    const lastCoord = path[path.length - 1];
+    if (lastCoord[0] !== nextStart[0] || lastCoord[1] !== nextStart[1]) {
+      path.push(nextStart);
+    }
+    return buildSegment(waypoints[i], waypoints[i + 1], path, line.transportMode);
+  });
+
+  return { waypoints, segments };
+}
+
+function routeFromPoints(points: GpxPoint[]) {
+  const waypoints = points.map(toWaypoint);
+  const segments: RouteSegment[] = [];
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    segments.push(
+      buildSegment(waypoints[i], waypoints[i + 1], [waypoints[i].coordinates, waypoints[i + 1].coordinates])
+    );
+  }
+  return { waypoints, segments };
+}
+
+/**
+ * Parse a GPX document into a Route ready for `loadRoute`
+ * Throws if the document is not valid GPX or has no usable points
+ */
+export function parseGpx(text: string, fallbackName = 'Ruta importada'): Route {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid GPX: the file is not well-formed XML');
+  }
+  if (doc.documentElement.localName !== 'gpx') {
+    throw new Error('Invalid GPX: missing <gpx> root element');
+  }
+
+  const metadata = byTag(doc, 'metadata')[0];
+  const firstTrack = byTag(doc, 'trk')[0];
+  const name =
+    (metadata && childText(metadata, 'name')) ||
+    (firstTrack && childText(firstTrack, 'name')) ||
+    fallbackName;
+
+  // Track geometry: one line per <trkseg>, across all <trk> elements
+  const lines: GpxTrackLine[] = [];
+  for (const trk of byTag(doc, 'trk')) {
+    const trackName = childText(trk, 'name');
+    const transportMode = parseTransportMode(trk);
+    for (const trkseg of byTag(trk, 'trkseg')) {
+      const points = parsePoints(byTag(trkseg, 'trkpt')).map((p) => ({ ...p, transportMode }));
+      if (points.length >= 2) {
+        lines.push({ name: trackName, transportMode, points });
+      }
+    }
+  }
+
+  const routePoints = parsePoints(byTag(doc, 'rtept'));
+  const waypointPoints = parsePoints(byTag(doc, 'wpt'));
+  // Waypoints exported here carry their order; other files have none
+  const ordered = waypointPoints.length > 0 && waypointPoints.every((p) => p.order !== undefined);
+  if (ordered) {
+    waypointPoints.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  }
+  // With a route, standalone waypoints become stops on it
+  const named = routePoints.length > 0 ? mergeWaypoints(routePoints, waypointPoints) : waypointPoints;
+
+  let result: { waypoints: Waypoint[]; segments: RouteSegment[] };
+
+  if (lines.length > 0 && named.length > 0) {
+    const track = lines.flatMap((line) => line.points);
+    const anchors = anchorsOnTrack(track, named, routePoints.length > 0 || ordered);
+    result = routeFromTrackAnchors(track, anchors);
+  } else if (lines.length > 0) {
+    result = routeFromTrackLines(lines);
+  } else if (named.length > 0) {
+    result = routeFromPoints(named);
+  } else {
+    throw new Error('Invalid GPX: no waypoints, route points or track points found');
+  }
+
+  const now = new Date();
+  return {
+    id: generateId(),
+    name,
+    waypoints: result.waypoints,
+    segments: result.segments,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+function gpxPoint(tag: string, coordinates: Coordinates, children: string): string {
+  const [lon, lat] = coordinates;
+  const attributes = `lat="${lat}" lon="${lon}"`;
+  return children ? `<${tag} ${attributes}>${children}</${tag}>` : `<${tag} ${attributes}/>`;
+}
+
+/**
+ * Serialize a Route as GPX 1.1
+ */
+export function serializeGpx(route: Route): string {
+  const waypoints = [...route.waypoints].sort((a, b) => a.order - b.order);
+  const labelOf = (id: string) => {
+    const index = waypoints.findIndex((wp) => wp.id === id);
+    return waypoints[index]?.label || `Punto ${index + 1}`;
+  };
+
+  const wpts = waypoints.map((wp) =>
+    gpxPoint(
+      'wpt',
+      wp.coordinates,
+      xmlElement('ele', wp.elevation) +
+        xmlElement('time', wp.time) +
+        xmlElement('name', wp.label) +
+        `<extensions>${xmlElement('ra:order', wp.order)}</extensions>`
+    )
+  );
+
+  const trks = route.segments.map((segment, index) => {
+    const name = `${labelOf(segment.startWaypointId)} → ${labelOf(segment.endWaypointId)}`;
+    const points = segment.path.map((coord) => gpxPoint('trkpt', coord, '')).join('\n      ');
+    return [
+      '<trk>',
+      `  ${xmlElement('name', name)}`,
+      `  ${xmlElement('number', index + 1)}`,
+      `  ${xmlElement('type', segment.transportMode)}`,
+      `  <extensions>${xmlElement('ra:transportMode', segment.transportMode)}</extensions>`,
+      '  <trkseg>',
+      `    ${points}`,
+      '  </trkseg>',
+      '</trk>',
+    ].join('\n  ');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Route Animator" xmlns="http://www.topografix.com/GPX/1/1" xmlns:ra="${GPX_EXTENSION_NS}">`,
+    `  <metadata>${xmlElement('name', route.name)}${xmlElement('time', new Date(route.updatedAt).toISOString())}</metadata>`,
+    ...wpts.map((wpt) => `  ${wpt}`),
+    ...trks.map((trk) => `  ${trk}`),
+    '</gpx>',
+    '',
+  ].join('\n');
+}
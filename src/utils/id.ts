@@ -0,0 +1,4 @@
+/**
+ * Short random identifier for waypoints, segments and routes
+ */
+export const generateId = () => Math.random().toString(36).substring(2, 11);
@@ -0,0 +1,17 @@
+export * from './id';
+export * from './gpx';
+export * from './kml';
+export * from './xml';
+export * from './download';
+export * from './geojson';
+export * from './geodesic';
+export * from './path';
+export * from './metrics';
+export * from './format';
+export * from './timing';
+export * from './easing';
+export * from './keyframes';
+export * from './camera';
+export * from './frame';
+export * from './routeSchema';
+export * from './routeLibrary';
@@ -0,0 +1,38 @@
+import { Keyframe, LabelKeyframe, Route } from '@/types';
+
+/**
+ * Timeline keyframes
+ *
+ * Keyframes are anchored to a time in seconds, not to a segment, so
+ * retiming segments leaves camera moves and titles where they were put.
+ * Keyframes beyond the end of the timeline are kept (the route may get
+ * longer again) but never reached.
+ */
+
+// Seconds a label takes to fade in and out
+const LABEL_FADE = 0.4;
+
+export function sortKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+export interface VisibleLabel {
+  keyframe: LabelKeyframe;
+  opacity: number; // 0-1, fades at both ends
+}
+
+/**
+ * Labels on screen at `time`
+ */
+export function getVisibleLabels(route: Route, time: number): VisibleLabel[] {
+  return (route.keyframes ?? [])
+    .filter((kf): kf is LabelKeyframe => kf.type === 'label')
+    .filter((kf) => time >= kf.time && time <= kf.time + kf.duration)
+    .map((keyframe) => {
+      const fade = Math.min(LABEL_FADE, keyframe.duration / 2);
+      const fromStart = time - keyframe.time;
+      const toEnd = keyframe.time + keyframe.duration - time;
+      const opacity = fade > 0 ? Math.min(1, fromStart / fade, toEnd / fade) : 1;
+      return { keyframe, opacity };
+    });
+}
@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { Route } from '@/types';
+import { serializeKml } from './kml';
+
+const route: Route = {
+  id: 'route-1',
+  name: 'Costa & Sierra',
+  waypoints: [
+    { id: 'b', coordinates: [-4.42, 36.72], label: 'Málaga', order: 1 },
+    { id: 'a', coordinates: [-3.6, 37.18], label: 'Granada', order: 0, elevation: 738 },
+  ],
+  segments: [
+    {
+      id: 's1',
+      startWaypointId: 'a',
+      endWaypointId: 'b',
+      transportMode: 'train',
+      path: [[-3.6, 37.18], [-4.0, 36.9], [-4.42, 36.72]],
+      distance: 128000,
+    },
+  ],
+  createdAt: new Date('2024-01-01T10:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T10:00:00.000Z'),
+};
+
+// No KML importer yet: read the export back with a plain XML parser
+function parseKml(route: Route) {
+  const doc = new DOMParser().parseFromString(serializeKml(route), 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  const placemarks = Array.from(doc.getElementsByTagName('Placemark'));
+  const coordinatesOf = (placemark: Element) =>
+    placemark
+      .getElementsByTagName('coordinates')[0]
+      .textContent!.trim()
+      .split(/\s+/)
+      .map((tuple) => tuple.split(',').slice(0, 2).map(Number));
+  const data = (placemark: Element) =>
+    Object.fromEntries(
+      Array.from(placemark.getElementsByTagName('Data')).map((el) => [el.getAttribute('name'), el.textContent])
+    );
+  return { doc, placemarks, coordinatesOf, data };
+}
+
+describe('serializeKml', () => {
+  it('writes a well-formed document with escaped names', () => {
+    const { doc } = parseKml(route);
+    expect(doc.getElementsByTagName('name')[0].textContent).toBe('Costa & Sierra');
+  });
+
+  it('writes waypoints in order, then segments, with their coordinates', () => {
+    const { placemarks, coordinatesOf, data } = parseKml(route);
+    expect(placemarks).toHaveLength(3);
+    expect(placemarks.map((p) => p.getElementsByTagName('name')[0].textContent)).toEqual([
+      'Granada',
+      'Málaga',
+      'Granada → Málaga',
+    ]);
+    expect(coordinatesOf(placemarks[0])).toEqual([[-3.6, 37.18]]);
+    expect(data(placemarks[0])).toMatchObject({ order: '0', elevation: '738' });
+    expect(coordinatesOf(placemarks[2])).toEqual(route.segments[0].path);
+    expect(data(placemarks[2])).toMatchObject({ transportMode: 'train', distance: '128000' });
+  });
+
+  it('styles segments by transport mode', () => {
+    const { doc, placemarks } = parseKml(route);
+    expect(placemarks[2].getElementsByTagName('styleUrl')[0].textContent).toBe('#transport-train');
+    expect(doc.querySelector('Style[id="transport-train"] color')?.textContent).toMatch(/^ff[0-9a-f]{6}$/);
+  });
+});
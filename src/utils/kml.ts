@@ -0,0 +1,100 @@
+import { Coordinates, Route } from '@/types';
+import { TRANSPORT_CONFIGS, TRANSPORT_MODES } from '@/config/transport';
+import { escapeXml, xmlElement } from './xml';
+
+/**
+ * KML export (Google Earth)
+ *
+ * - One shared <Style> per transport mode, colored from TRANSPORT_CONFIGS
+ * - One Point placemark per waypoint
+ * - One LineString placemark per segment, with the transport mode,
+ *   distance and duration kept in <ExtendedData>
+ */
+
+// KML colors are aabbggrr; TRANSPORT_CONFIGS uses #rrggbb
+function toKmlColor(hex: string, alpha = 'ff'): string {
+  const value = hex.replace('#', '');
+  const r = value.substring(0, 2);
+  const g = value.substring(2, 4);
+  const b = value.substring(4, 6);
+  return `${alpha}${b}${g}${r}`.toLowerCase();
+}
+
+function kmlCoordinates(coords: Coordinates[]): string {
+  return coords.map(([lng, lat]) => `${lng},${lat},0`).join(' ');
+}
+
+function extendedData(data: Record<string, string | number | undefined>): string {
+  const entries = Object.entries(data)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => `<Data name="${name}">${xmlElement('value', value)}</Data>`);
+  return entries.length > 0 ? `<ExtendedData>${entries.join('')}</ExtendedData>` : '';
+}
+
+/**
+ * Serialize a Route as a KML 2.2 document
+ */
+export function serializeKml(route: Route): string {
+  const waypoints = [...route.waypoints].sort((a, b) => a.order - b.order);
+  const labelOf = (id: string) => {
+    const index = waypoints.findIndex((wp) => wp.id === id);
+    return waypoints[index]?.label || `Punto ${index + 1}`;
+  };
+
+  const styles = TRANSPORT_MODES.map((mode) => {
+    const config = TRANSPORT_CONFIGS[mode];
+    return [
+      `<Style id="transport-${mode}">`,
+      `  <LineStyle><color>${toKmlColor(config.color)}</color><width>${config.lineWidth}</width></LineStyle>`,
+      '</Style>',
+    ].join('\n    ');
+  });
+
+  const waypointPlacemarks = waypoints.map((wp, index) =>
+    [
+      '<Placemark>',
+      `  ${xmlElement('name', wp.label || `Punto ${index + 1}`)}`,
+      `  ${extendedData({ order: wp.order, elevation: wp.elevation, time: wp.time })}`,
+      `  <Point><coordinates>${kmlCoordinates([wp.coordinates])}</coordinates></Point>`,
+      '</Placemark>',
+    ].join('\n      ')
+  );
+
+  const segmentPlacemarks = route.segments.map((segment, index) => {
+    const config = TRANSPORT_CONFIGS[segment.transportMode];
+    const name = `${labelOf(segment.startWaypointId)} → ${labelOf(segment.endWaypointId)}`;
+    return [
+      '<Placemark>',
+      `  ${xmlElement('name', name)}`,
+      `  ${xmlElement('description', `${config.icon} ${config.label}`)}`,
+      `  <styleUrl>#transport-${segment.transportMode}</styleUrl>`,
+      `  ${extendedData({
+        transportMode: segment.transportMode,
+        order: index,
+        distance: segment.distance,
+        duration: segment.duration,
+      })}`,
+      `  <LineString><tessellate>1</tessellate><coordinates>${kmlCoordinates(segment.path)}</coordinates></LineString>`,
+      '</Placemark>',
+    ].join('\n      ');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(route.name)}</name>`,
+    ...styles.map((style) => `    ${style}`),
+    '    <Folder>',
+    '      <name>Puntos</name>',
+    ...waypointPlacemarks.map((pm) => `      ${pm}`),
+    '    </Folder>',
+    '    <Folder>',
+    '      <name>Segmentos</name>',
+    ...segmentPlacemarks.map((pm) => `      ${pm}`),
+    '    </Folder>',
+    '  </Document>',
+    '</kml>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,60 @@
+import * as turf from '@turf/turf';
+import { Coordinates, Route, RouteSegment, TransportMode } from '@/types';
+import { TRANSPORT_CONFIGS } from '@/config/transport';
+
+/**
+ * Segment distance (meters) and duration (seconds)
+ *
+ * Routed segments keep the values reported by the routing provider.
+ * Everything else (manual edits, straight lines, flights) is measured
+ * along the path with turf and timed with the mode's average speed.
+ */
+
+export interface SegmentMetrics {
+  distance: number;
+  duration: number;
+}
+
+export function pathDistance(path: Coordinates[]): number {
+  if (path.length < 2) return 0;
+  return turf.length(turf.lineString(path), { units: 'kilometers' }) * 1000;
+}
+
+export function estimateDuration(distance: number, mode: TransportMode): number {
+  const speed = TRANSPORT_CONFIGS[mode].averageSpeed; // km/h
+  return (distance / 1000 / speed) * 3600;
+}
+
+/**
+ * Return the segment with distance/duration filled in
+ * Values given in `known` (e.g. from the router) win over computed ones
+ */
+export function withSegmentMetrics(
+  segment: RouteSegment,
+  known: Partial<SegmentMetrics> = {}
+): RouteSegment {
+  const distance = known.distance ?? pathDistance(segment.path);
+  const duration = known.duration ?? estimateDuration(distance, segment.transportMode);
+  return { ...segment, distance, duration };
+}
+
+/**
+ * Stored metrics, computing any that are missing (older saved routes)
+ */
+export function getSegmentMetrics(segment: RouteSegment): SegmentMetrics {
+  if (segment.distance !== undefined && segment.duration !== undefined) {
+    return { distance: segment.distance, duration: segment.duration };
+  }
+  const { distance, duration } = withSegmentMetrics(segment, segment);
+  return { distance: distance!, duration: duration! };
+}
+
+export function getRouteTotals(route: Route): SegmentMetrics {
+  return route.segments.reduce(
+    (totals, segment) => {
+      const { distance, duration } = getSegmentMetrics(segment);
+      return { distance: totals.distance + distance, duration: totals.duration + duration };
+    },
+    { distance: 0, duration: 0 }
+  );
+}
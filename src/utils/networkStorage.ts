@@ -0,0 +1,48 @@
+import { openDatabase, promisify, transactionDone, NETWORKS_STORE } from './database';
+
+/**
+ * Routing networks loaded from local files
+ *
+ * A rail or sea lane GeoJSON picked in the settings is kept in IndexedDB
+ * (keyed by network kind), so it survives reloads without a server to
+ * host it. Only one file per kind is kept.
+ */
+
+export type NetworkKind = 'rail' | 'ferry';
+
+interface StoredNetwork {
+  name: string;
+  collection: GeoJSON.FeatureCollection;
+}
+
+/**
+ * Parse a network file; throws if it is not a GeoJSON FeatureCollection
+ */
+export function parseNetworkFile(text: string): GeoJSON.FeatureCollection {
+  const collection = JSON.parse(text);
+  if (collection?.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('Network is not a GeoJSON FeatureCollection');
+  }
+  return collection;
+}
+
+export async function putStoredNetwork(kind: NetworkKind, name: string, collection: GeoJSON.FeatureCollection): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(NETWORKS_STORE, 'readwrite');
+  tx.objectStore(NETWORKS_STORE).put({ name, collection } satisfies StoredNetwork, kind);
+  await transactionDone(tx);
+}
+
+export async function getStoredNetwork(kind: NetworkKind): Promise<GeoJSON.FeatureCollection | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(NETWORKS_STORE, 'readonly');
+  const stored = await promisify(tx.objectStore(NETWORKS_STORE).get(kind) as IDBRequest<StoredNetwork | undefined>);
+  return stored?.collection ?? null;
+}
+
+export async function deleteStoredNetwork(kind: NetworkKind): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(NETWORKS_STORE, 'readwrite');
+  tx.objectStore(NETWORKS_STORE).delete(kind);
+  await transactionDone(tx);
+}
@@ -0,0 +1,30 @@
+import * as turf from '@turf/turf';
+import { Coordinates } from '@/types';
+import { unwrapLongitudes } from './geodesic';
+
+/**
+ * Smooths a path using bezier spline interpolation
+ * Only applies to paths with more than 2 points
+ *
+ * The result has continuous longitudes (see unwrapLongitudes), so it can
+ * be measured and animated across the antimeridian without jumps.
+ */
+export function smoothPath(coordinates: Coordinates[], transportMode: string): Coordinates[] {
+  const continuous = unwrapLongitudes(coordinates);
+
+  // Don't smooth plane routes (they follow a great circle) or simple 2-point lines
+  if (transportMode === 'plane' || continuous.length <= 2) {
+    return continuous;
+  }
+
+  try {
+    const line = turf.lineString(continuous);
+    // Resolution controls smoothness (higher = more points = smoother)
+    // Sharpness controls how close to original points (lower = smoother curves)
+    const smoothed = turf.bezierSpline(line, { resolution: 10000, sharpness: 0.85 });
+    return smoothed.geometry.coordinates as Coordinates[];
+  } catch {
+    // If smoothing fails, return original
+    return continuous;
+  }
+}
@@ -0,0 +1,203 @@
+import { Dithering } from '@/types';
+
+/**
+ * Color quantization for animated images (GIF/APNG)
+ *
+ * quantize builds a palette with median cut over a 5-bit-per-channel
+ * histogram; applyPalette maps every pixel to a palette index, spreading
+ * the error with an ordered (Bayer) pattern or Floyd–Steinberg.
+ *
+ * Nearest colors are cached per 5-bit color cell, so a frame costs a
+ * few palette searches per distinct color rather than per pixel.
+ */
+
+// RGB triples
+export type Palette = Uint8Array;
+
+const BITS = 5;
+const CELLS = 1 << (BITS * 3);
+// Histogram sample budget per frame (large frames are sampled on a stride)
+const SAMPLE_PIXELS = 250000;
+
+const BAYER_4X4 = [0, 8, 2, 10, 12, 4, 14, 6, 3, 11, 1, 9, 15, 7, 13, 5];
+
+const cellOf = (r: number, g: number, b: number) =>
+  ((r >> (8 - BITS)) << (BITS * 2)) | ((g >> (8 - BITS)) << BITS) | (b >> (8 - BITS));
+
+// Center of a cell, per channel
+const cellChannel = (cell: number, shift: number) =>
+  (((cell >> shift) & ((1 << BITS) - 1)) << (8 - BITS)) + (1 << (7 - BITS));
+
+interface Box {
+  cells: number[];
+  count: number;
+}
+
+/**
+ * Palette of up to `maxColors` colors for an RGBA image
+ */
+export function quantize(rgba: Uint8ClampedArray, maxColors: number): Palette {
+  const histogram = new Uint32Array(CELLS);
+  const pixels = rgba.length / 4;
+  const stride = Math.max(1, Math.floor(pixels / SAMPLE_PIXELS));
+  for (let i = 0; i < pixels; i += stride) {
+    const o = i * 4;
+    histogram[cellOf(rgba[o], rgba[o + 1], rgba[o + 2])]++;
+  }
+
+  const cells: number[] = [];
+  let total = 0;
+  for (let cell = 0; cell < CELLS; cell++) {
+    if (histogram[cell] > 0) {
+      cells.push(cell);
+      total += histogram[cell];
+    }
+  }
+
+  const shifts = [BITS * 2, BITS, 0];
+  const range = (box: Box, shift: number) => {
+    let min = 255;
+    let max = 0;
+    for (const cell of box.cells) {
+      const v = cellChannel(cell, shift);
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    return max - min;
+  };
+
+  // Split the box with the widest channel range until the palette is full
+  const boxes: Box[] = [{ cells, count: total }];
+  while (boxes.length < maxColors) {
+    let best = -1;
+    let bestShift = 0;
+    let bestScore = 0;
+    boxes.forEach((box, i) => {
+      if (box.cells.length < 2) return;
+      shifts.forEach((shift) => {
+        const score = range(box, shift) * Math.sqrt(box.count);
+        if (score > bestScore) {
+          bestScore = score;
+          best = i;
+          bestShift = shift;
+        }
+      });
+    });
+    if (best === -1) break;
+
+    const box = boxes[best];
+    box.cells.sort((a, b) => cellChannel(a, bestShift) - cellChannel(b, bestShift));
+    let seen = 0;
+    let split = 1;
+    for (; split < box.cells.length - 1; split++) {
+      seen += histogram[box.cells[split - 1]];
+      if (seen >= box.count / 2) break;
+    }
+    const left = box.cells.slice(0, split);
+    const right = box.cells.slice(split);
+    const leftCount = left.reduce((sum, cell) => sum + histogram[cell], 0);
+    boxes.splice(best, 1, { cells: left, count: leftCount }, { cells: right, count: box.count - leftCount });
+  }
+
+  // Each palette color is the weighted average of its box
+  const palette = new Uint8Array(Math.max(1, boxes.length) * 3);
+  boxes.forEach((box, i) => {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (const cell of box.cells) {
+      const weight = histogram[cell];
+      r += cellChannel(cell, BITS * 2) * weight;
+      g += cellChannel(cell, BITS) * weight;
+      b += cellChannel(cell, 0) * weight;
+    }
+    const count = box.count || 1;
+    palette[i * 3] = Math.round(r / count);
+    palette[i * 3 + 1] = Math.round(g / count);
+    palette[i * 3 + 2] = Math.round(b / count);
+  });
+  return palette;
+}
+
+function createNearest(palette: Palette) {
+  const cache = new Int16Array(CELLS).fill(-1);
+  const size = palette.length / 3;
+  return (r: number, g: number, b: number): number => {
+    const cell = cellOf(r, g, b);
+    let index = cache[cell];
+    if (index >= 0) return index;
+
+    let bestDistance = Infinity;
+    for (let i = 0; i < size; i++) {
+      const dr = palette[i * 3] - r;
+      const dg = palette[i * 3 + 1] - g;
+      const db = palette[i * 3 + 2] - b;
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        index = i;
+      }
+    }
+    cache[cell] = index;
+    return index;
+  };
+}
+
+const clamp = (v: number) => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+/**
+ * Palette index of every pixel
+ */
+export function applyPalette(
+  rgba: Uint8ClampedArray,
+  width: number,
+  height: number,
+  palette: Palette,
+  dithering: Dithering
+): Uint8Array {
+  const nearest = createNearest(palette);
+  const indices = new Uint8Array(width * height);
+
+  if (dithering === 'floyd-steinberg') {
+    // Error carried to the current and next row (RGB per column, 1px margin)
+    let current = new Float32Array((width + 2) * 3);
+    let next = new Float32Array((width + 2) * 3);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const o = (y * width + x) * 4;
+        const e = (x + 1) * 3;
+        const r = clamp(rgba[o] + current[e]);
+        const g = clamp(rgba[o + 1] + current[e + 1]);
+        const b = clamp(rgba[o + 2] + current[e + 2]);
+        const index = nearest(r, g, b);
+        indices[y * width + x] = index;
+
+        for (let c = 0; c < 3; c++) {
+          const error = (c === 0 ? r : c === 1 ? g : b) - palette[index * 3 + c];
+          current[e + 3 + c] += (error * 7) / 16;
+          next[e - 3 + c] += (error * 3) / 16;
+          next[e + c] += (error * 5) / 16;
+          next[e + 3 + c] += error / 16;
+        }
+      }
+      [current, next] = [next, current];
+      next.fill(0);
+    }
+    return indices;
+  }
+
+  // Ordered dithering shifts colors by about one palette step
+  const spread = dithering === 'ordered' ? 256 / Math.cbrt(palette.length / 3) : 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      const offset = spread * ((BAYER_4X4[(y % 4) * 4 + (x % 4)] + 0.5) / 16 - 0.5);
+      indices[y * width + x] = nearest(
+        clamp(rgba[o] + offset),
+        clamp(rgba[o + 1] + offset),
+        clamp(rgba[o + 2] + offset)
+      );
+    }
+  }
+  return indices;
+}
@@ -0,0 +1,124 @@
+import { LibraryEntry, Route } from '@/types';
+import { parseRouteFile, serializeRoute } from './routeSchema';
+import {
+  openDatabase,
+  promisify,
+  transactionDone,
+  ENTRIES_STORE,
+  ROUTES_STORE,
+} from './database';
+
+/**
+ * IndexedDB persistence for the route library
+ *
+ * Two object stores keep listing cheap:
+ * - `entries`: small metadata records (name, thumbnail, counts, dates)
+ * - `routes`: the full serialized route files, read only when opened
+ *
+ * Routes are stored in the versioned file format from routeSchema, so
+ * library entries saved by older builds are migrated when opened.
+ */
+
+interface StoredEntry {
+  id: string;
+  name: string;
+  thumbnail?: string;
+  waypointCount: number;
+  updatedAt: string;
+}
+
+interface StoredRoute {
+  id: string;
+  file: string;
+}
+
+function toLibraryEntry(stored: StoredEntry): LibraryEntry {
+  return { ...stored, updatedAt: new Date(stored.updatedAt) };
+}
+
+/**
+ * List library entries, most recently modified first
+ */
+export async function listLibraryEntries(): Promise<LibraryEntry[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(ENTRIES_STORE, 'readonly');
+  const stored = await promisify(tx.objectStore(ENTRIES_STORE).getAll() as IDBRequest<StoredEntry[]>);
+  return stored
+    .map(toLibraryEntry)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+/**
+ * Insert or replace a route (keyed by route.id)
+ * Keeps the previous thumbnail when no new one is given
+ */
+export async function putLibraryRoute(route: Route, thumbnail?: string): Promise<LibraryEntry> {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRIES_STORE, ROUTES_STORE], 'readwrite');
+  const entries = tx.objectStore(ENTRIES_STORE);
+
+  const previous = await promisify(entries.get(route.id) as IDBRequest<StoredEntry | undefined>);
+  const entry: StoredEntry = {
+    id: route.id,
+    name: route.name,
+    thumbnail: thumbnail ?? previous?.thumbnail,
+    waypointCount: route.waypoints.length,
+    updatedAt: new Date(route.updatedAt).toISOString(),
+  };
+
+  entries.put(entry);
+  tx.objectStore(ROUTES_STORE).put({ id: route.id, file: serializeRoute(route) } satisfies StoredRoute);
+  await transactionDone(tx);
+
+  return toLibraryEntry(entry);
+}
+
+/**
+ * Load a full route from the library
+ * Throws RouteValidationError if the stored file no longer validates
+ */
+export async function getLibraryRoute(id: string): Promise<Route | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(ROUTES_STORE, 'readonly');
+  const stored = await promisify(tx.objectStore(ROUTES_STORE).get(id) as IDBRequest<StoredRoute | undefined>);
+  return stored ? parseRouteFile(stored.file) : null;
+}
+
+export async function deleteLibraryRoute(id: string): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRIES_STORE, ROUTES_STORE], 'readwrite');
+  tx.objectStore(ENTRIES_STORE).delete(id);
+  tx.objectStore(ROUTES_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/**
+ * Capture a small JPEG of the map canvas for library thumbnails
+ * Relies on preserveDrawingBuffer being enabled on the map
+ */
+export function captureMapThumbnail(width = 160, height = 100): string | undefined {
+  const mapCanvas = document.querySelector<HTMLCanvasElement>('#map-container canvas');
+  if (!mapCanvas || mapCanvas.width === 0 || mapCanvas.height === 0) return undefined;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+
+  // Center-crop to the thumbnail aspect ratio
+  const scale = Math.max(width / mapCanvas.width, height / mapCanvas.height);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+  ctx.drawImage(
+    mapCanvas,
+    (mapCanvas.width - cropWidth) / 2, (mapCanvas.height - cropHeight) / 2, cropWidth, cropHeight,
+    0, 0, width, height
+  );
+
+  try {
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Route } from '@/types';
+import {
+  ROUTE_SCHEMA_VERSION,
+  RouteValidationError,
+  migrateRouteFile,
+  parseRouteFile,
+  serializeRoute,
+  validateRouteFile,
+} from './routeSchema';
+
+const route: Route = {
+  id: 'route-1',
+  name: 'Madrid → Barcelona',
+  waypoints: [
+    { id: 'a', coordinates: [-3.7038, 40.4168], label: 'Madrid', order: 0, dwell: 1 },
+    { id: 'b', coordinates: [2.1734, 41.3851], label: 'Barcelona', order: 1 },
+  ],
+  segments: [
+    {
+      id: 's1',
+      startWaypointId: 'a',
+      endWaypointId: 'b',
+      transportMode: 'train',
+      path: [[-3.7038, 40.4168], [-0.8891, 41.6488], [2.1734, 41.3851]],
+      distance: 505000,
+      animationDuration: 4,
+      easing: 'linear',
+    },
+  ],
+  createdAt: new Date('2024-01-01T10:00:00.000Z'),
+  updatedAt: new Date('2024-01-02T10:00:00.000Z'),
+};
+
+function issuesOf(input: unknown): string[] {
+  try {
+    parseRouteFile(input);
+  } catch (error) {
+    if (error instanceof RouteValidationError) return error.issues.map((issue) => issue.path);
+    throw error;
+  }
+  return [];
+}
+
+describe('serializeRoute / parseRouteFile', () => {
+  it('round-trips a route', () => {
+    const text = serializeRoute(route);
+    expect(JSON.parse(text).schemaVersion).toBe(ROUTE_SCHEMA_VERSION);
+    expect(parseRouteFile(text)).toEqual(route);
+  });
+
+  it('drops altitude from coordinates', () => {
+    const file = JSON.parse(serializeRoute(route));
+    file.waypoints[0].coordinates = [-3.7038, 40.4168, 650];
+    file.segments[0].path[0] = [-3.7038, 40.4168, 650];
+    const parsed = parseRouteFile(file);
+    expect(parsed.waypoints[0].coordinates).toEqual([-3.7038, 40.4168]);
+    expect(parsed.segments[0].path[0]).toEqual([-3.7038, 40.4168]);
+  });
+});
+
+describe('migrateRouteFile', () => {
+  // What JSON.stringify(route) produced before files were versioned
+  const unversioned = {
+    id: 'old',
+    waypoints: [
+      { id: 'a', coordinates: [0, 0] },
+      { id: 'b', coordinates: [1, 1] },
+    ],
+    segments: [{ id: 's1', startWaypointId: 'a', endWaypointId: 'b', transportMode: 'car', path: [] }],
+  };
+
+  it('upgrades unversioned files to the current version', () => {
+    const migrated = migrateRouteFile(unversioned);
+    expect(migrated.schemaVersion).toBe(ROUTE_SCHEMA_VERSION);
+    expect(migrated.name).toBe('Ruta');
+    expect(typeof migrated.createdAt).toBe('string');
+  });
+
+  it('numbers waypoints and fills missing segment paths', () => {
+    const parsed = parseRouteFile(unversioned);
+    expect(parsed.waypoints.map((wp) => wp.order)).toEqual([0, 1]);
+    expect(parsed.segments[0].path).toEqual([[0, 0], [1, 1]]);
+  });
+
+  it('rejects files from a newer version', () => {
+    expect(issuesOf({ ...unversioned, schemaVersion: ROUTE_SCHEMA_VERSION + 1 })).toEqual(['schemaVersion']);
+  });
+});
+
+describe('validateRouteFile', () => {
+  const file = () => JSON.parse(serializeRoute(route));
+
+  it('accepts a valid file', () => {
+    expect(validateRouteFile(file())).toEqual([]);
+  });
+
+  it('reports every issue with its path', () => {
+    const data = file();
+    data.waypoints[0].coordinates = [200, 0];
+    data.segments[0].transportMode = 'rocket';
+    data.segments[0].endWaypointId = 'missing';
+    const paths = validateRouteFile(data).map((issue) => issue.path);
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        'waypoints[0].coordinates',
+        'segments[0].transportMode',
+        'segments[0].endWaypointId',
+      ])
+    );
+  });
+
+  it('rejects input that is not a route object', () => {
+    expect(issuesOf('not json')).toEqual(['(root)']);
+    expect(issuesOf([])).toEqual(['(root)']);
+    expect(issuesOf({ schemaVersion: 1 })).toContain('waypoints');
+  });
+});
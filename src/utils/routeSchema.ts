@@ -0,0 +1,347 @@
+import { Coordinates, Route } from '@/types';
+import { TRANSPORT_MODES } from '@/config/transport';
+import { EASINGS } from '@/config/animation';
+
+/**
+ * Versioned route file format
+ *
+ * Saved routes carry a `schemaVersion`. Loading runs the file through the
+ * migration chain up to ROUTE_SCHEMA_VERSION and then through a strict
+ * validator, so a malformed file is rejected with readable per-field
+ * errors instead of crashing the animation later on.
+ *
+ * Changing the Route/RouteSegment/Waypoint shape:
+ * 1. Bump ROUTE_SCHEMA_VERSION
+ * 2. Add a migration from the previous version to MIGRATIONS
+ * 3. Update validateRouteFile
+ * New optional fields (e.g. keyframes, dwell times) only need step 3:
+ * older files are still valid without them.
+ *
+ * Files written before versioning existed have no `schemaVersion` and
+ * are treated as version 0.
+ */
+
+export const ROUTE_SCHEMA_VERSION = 1;
+
+// JSON shape of a saved route (dates as ISO strings)
+export type RouteFile = Omit<Route, 'createdAt' | 'updatedAt'> & {
+  schemaVersion: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export interface RouteValidationIssue {
+  path: string;
+  message: string;
+}
+
+export class RouteValidationError extends Error {
+  issues: RouteValidationIssue[];
+
+  constructor(issues: RouteValidationIssue[]) {
+    super(
+      `Invalid route file:\n${issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n')}`
+    );
+    this.name = 'RouteValidationError';
+    this.issues = issues;
+  }
+}
+
+type Json = Record<string, unknown>;
+type Migration = (data: Json) => Json;
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// ---------------------------------------------------------------------------
+// Migrations: MIGRATIONS[n] upgrades a version n file to version n + 1
+// ---------------------------------------------------------------------------
+
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 (unversioned JSON.stringify(route)) -> v1
+  0: (data) => {
+    const waypoints = Array.isArray(data.waypoints) ? data.waypoints : [];
+    const segments = Array.isArray(data.segments) ? data.segments : [];
+    const now = new Date().toISOString();
+
+    const migratedWaypoints = waypoints.map((wp, index) =>
+      isObject(wp) && typeof wp.order !== 'number' ? { ...wp, order: index } : wp
+    );
+
+    // Early builds could save segments before their path was computed
+    const migratedSegments = segments.map((seg) => {
+      if (!isObject(seg) || (Array.isArray(seg.path) && seg.path.length >= 2)) return seg;
+      const start = migratedWaypoints.find((wp) => isObject(wp) && wp.id === seg.startWaypointId);
+      const end = migratedWaypoints.find((wp) => isObject(wp) && wp.id === seg.endWaypointId);
+      if (!isObject(start) || !isObject(end)) return seg;
+      return { ...seg, path: [start.coordinates, end.coordinates] };
+    });
+
+    return {
+      ...data,
+      schemaVersion: 1,
+      name: typeof data.name === 'string' ? data.name : 'Ruta',
+      waypoints: migratedWaypoints,
+      segments: migratedSegments,
+      createdAt: typeof data.createdAt === 'string' ? data.createdAt : now,
+      updatedAt: typeof data.updatedAt === 'string' ? data.updatedAt : now,
+    };
+  },
+};
+
+export function migrateRouteFile(data: Json): Json {
+  let current = data;
+  let version = typeof current.schemaVersion === 'number' ? current.schemaVersion : 0;
+
+  if (version > ROUTE_SCHEMA_VERSION) {
+    throw new RouteValidationError([
+      {
+        path: 'schemaVersion',
+        message: `file was saved by a newer version (${version}); this build supports up to ${ROUTE_SCHEMA_VERSION}`,
+      },
+    ]);
+  }
+
+  while (version < ROUTE_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new RouteValidationError([
+        { path: 'schemaVersion', message: `no migration available from version ${version}` },
+      ]);
+    }
+    current = migrate(current);
+    version += 1;
+  }
+
+  return current;
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isCoordinates(value: unknown): value is Coordinates {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number' &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]) &&
+    value[0] >= -180 &&
+    value[0] <= 180 &&
+    value[1] >= -90 &&
+    value[1] <= 90
+  );
+}
+
+function isDateString(value: unknown): boolean {
+  return typeof value === 'string' && !isNaN(Date.parse(value));
+}
+
+/**
+ * Strictly validate a migrated route file
+ * Returns every issue found, not just the first one
+ */
+export function validateRouteFile(data: unknown): RouteValidationIssue[] {
+  const issues: RouteValidationIssue[] = [];
+  const fail = (path: string, message: string) => issues.push({ path, message });
+
+  if (!isObject(data)) {
+    fail('(root)', 'expected a JSON object');
+    return issues;
+  }
+
+  if (data.schemaVersion !== ROUTE_SCHEMA_VERSION) {
+    fail('schemaVersion', `expected ${ROUTE_SCHEMA_VERSION}`);
+  }
+  if (typeof data.id !== 'string' || data.id.length === 0) fail('id', 'expected a non-empty string');
+  if (typeof data.name !== 'string') fail('name', 'expected a string');
+  if (!isDateString(data.createdAt)) fail('createdAt', 'expected an ISO date string');
+  if (!isDateString(data.updatedAt)) fail('updatedAt', 'expected an ISO date string');
+
+  const waypointIds = new Set<string>();
+
+  if (!Array.isArray(data.waypoints)) {
+    fail('waypoints', 'expected an array');
+  } else {
+    data.waypoints.forEach((wp, i) => {
+      const at = `waypoints[${i}]`;
+      if (!isObject(wp)) {
+        fail(at, 'expected an object');
+        return;
+      }
+      if (typeof wp.id !== 'string' || wp.id.length === 0) {
+        fail(`${at}.id`, 'expected a non-empty string');
+      } else if (waypointIds.has(wp.id)) {
+        fail(`${at}.id`, `duplicate id "${wp.id}"`);
+      } else {
+        waypointIds.add(wp.id);
+      }
+      if (!isCoordinates(wp.coordinates)) {
+        fail(`${at}.coordinates`, 'expected [longitude, latitude] within valid ranges');
+      }
+      if (typeof wp.order !== 'number' || !Number.isInteger(wp.order)) {
+        fail(`${at}.order`, 'expected an integer');
+      }
+      if (wp.label !== undefined && typeof wp.label !== 'string') {
+        fail(`${at}.label`, 'expected a string');
+      }
+      if (wp.elevation !== undefined && !Number.isFinite(wp.elevation)) {
+        fail(`${at}.elevation`, 'expected a number');
+      }
+      if (wp.time !== undefined && !isDateString(wp.time)) {
+        fail(`${at}.time`, 'expected an ISO date string');
+      }
+      if (wp.dwell !== undefined && (typeof wp.dwell !== 'number' || !Number.isFinite(wp.dwell) || wp.dwell < 0)) {
+        fail(`${at}.dwell`, 'expected a non-negative number');
+      }
+    });
+  }
+
+  if (!Array.isArray(data.segments)) {
+    fail('segments', 'expected an array');
+  } else {
+    const waypointCount = Array.isArray(data.waypoints) ? data.waypoints.length : 0;
+    if (data.segments.length !== Math.max(0, waypointCount - 1)) {
+      fail('segments', `expected ${Math.max(0, waypointCount - 1)} segments for ${waypointCount} waypoints`);
+    }
+
+    data.segments.forEach((seg, i) => {
+      const at = `segments[${i}]`;
+      if (!isObject(seg)) {
+        fail(at, 'expected an object');
+        return;
+      }
+      if (typeof seg.id !== 'string' || seg.id.length === 0) {
+        fail(`${at}.id`, 'expected a non-empty string');
+      }
+      for (const key of ['startWaypointId', 'endWaypointId'] as const) {
+        if (typeof seg[key] !== 'string' || !waypointIds.has(seg[key] as string)) {
+          fail(`${at}.${key}`, 'must reference an existing waypoint');
+        }
+      }
+      if (typeof seg.transportMode !== 'string' || !(TRANSPORT_MODES as string[]).includes(seg.transportMode)) {
+        fail(`${at}.transportMode`, `expected one of ${TRANSPORT_MODES.join(', ')}`);
+      }
+      if (!Array.isArray(seg.path) || seg.path.length < 2) {
+        fail(`${at}.path`, 'expected at least 2 coordinates');
+      } else {
+        const badIndex = seg.path.findIndex((coord) => !isCoordinates(coord));
+        if (badIndex !== -1) {
+          fail(`${at}.path[${badIndex}]`, 'expected [longitude, latitude] within valid ranges');
+        }
+      }
+      if (seg.easing !== undefined && !(EASINGS as unknown[]).includes(seg.easing)) {
+        fail(`${at}.easing`, `expected one of ${EASINGS.join(', ')}`);
+      }
+      for (const key of ['distance', 'duration', 'animationDuration'] as const) {
+        const value = seg[key];
+        if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value) || value < 0)) {
+          fail(`${at}.${key}`, 'expected a non-negative number');
+        }
+      }
+    });
+  }
+
+  if (data.keyframes !== undefined) {
+    if (!Array.isArray(data.keyframes)) {
+      fail('keyframes', 'expected an array');
+    } else {
+      data.keyframes.forEach((kf, i) => validateKeyframe(kf, `keyframes[${i}]`, fail));
+    }
+  }
+
+  return issues;
+}
+
+function isNonNegative(value: unknown): boolean {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+function validateKeyframe(kf: unknown, at: string, fail: (path: string, message: string) => void) {
+  if (!isObject(kf)) {
+    fail(at, 'expected an object');
+    return;
+  }
+  if (typeof kf.id !== 'string' || kf.id.length === 0) fail(`${at}.id`, 'expected a non-empty string');
+  if (!isNonNegative(kf.time)) fail(`${at}.time`, 'expected a non-negative number');
+
+  if (kf.type === 'camera') {
+    const camera = kf.camera;
+    if (!isObject(camera)) {
+      fail(`${at}.camera`, 'expected an object');
+      return;
+    }
+    if (!isCoordinates(camera.center)) {
+      fail(`${at}.camera.center`, 'expected [longitude, latitude] within valid ranges');
+    }
+    for (const key of ['zoom', 'bearing', 'pitch'] as const) {
+      if (typeof camera[key] !== 'number' || !Number.isFinite(camera[key])) {
+        fail(`${at}.camera.${key}`, 'expected a number');
+      }
+    }
+    if (kf.followVehicle !== undefined && typeof kf.followVehicle !== 'boolean') {
+      fail(`${at}.followVehicle`, 'expected a boolean');
+    }
+  } else if (kf.type === 'label') {
+    if (typeof kf.text !== 'string') fail(`${at}.text`, 'expected a string');
+    if (!isNonNegative(kf.duration)) fail(`${at}.duration`, 'expected a non-negative number');
+  } else {
+    fail(`${at}.type`, 'expected "camera" or "label"');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public entry points
+// ---------------------------------------------------------------------------
+
+export function serializeRoute(route: Route): string {
+  const file: RouteFile = {
+    ...route,
+    schemaVersion: ROUTE_SCHEMA_VERSION,
+    createdAt: new Date(route.createdAt).toISOString(),
+    updatedAt: new Date(route.updatedAt).toISOString(),
+  };
+  return JSON.stringify(file);
+}
+
+/**
+ * Parse, migrate and validate a saved route
+ * Throws RouteValidationError with every problem found
+ */
+export function parseRouteFile(input: unknown): Route {
+  let data: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      data = JSON.parse(input);
+    } catch {
+      throw new RouteValidationError([{ path: '(root)', message: 'file is not valid JSON' }]);
+    }
+  }
+
+  if (!isObject(data)) {
+    throw new RouteValidationError([{ path: '(root)', message: 'expected a JSON object' }]);
+  }
+
+  const migrated = migrateRouteFile(data);
+  const issues = validateRouteFile(migrated);
+  if (issues.length > 0) {
+    throw new RouteValidationError(issues);
+  }
+
+  const file = migrated as RouteFile;
+  const { schemaVersion: _schemaVersion, ...route } = file;
+  return {
+    ...route,
+    // Drop altitude or extra values so paths match the Coordinates type
+    waypoints: route.waypoints.map((wp) => ({ ...wp, coordinates: [wp.coordinates[0], wp.coordinates[1]] })),
+    segments: route.segments.map((seg) => ({
+      ...seg,
+      path: seg.path.map((coord) => [coord[0], coord[1]] as Coordinates),
+    })),
+    createdAt: new Date(file.createdAt),
+    updatedAt: new Date(file.updatedAt),
+  };
+}
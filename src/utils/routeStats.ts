@@ -0,0 +1,107 @@
+import * as turf from '@turf/turf';
+import { Coordinates, Route, RouteSegment, TransportMode } from '@/types';
+import { TRANSPORT_CONFIGS, TRANSPORT_MODES } from '@/config/transport';
+import { getSegmentMetrics } from './metrics';
+
+/**
+ * Route statistics (pure, derived from the route)
+ *
+ * Network-backed figures (countries crossed, elevation) live in
+ * services/ and are combined with these in useRouteStats.
+ */
+
+export interface ModeStats {
+  mode: TransportMode;
+  segments: number;
+  distance: number; // meters
+  duration: number; // seconds
+  co2: number; // kg CO2e
+}
+
+export interface LegStats {
+  segment: RouteSegment;
+  from: string;
+  to: string;
+  distance: number;
+}
+
+export interface RouteStats {
+  distance: number;
+  duration: number;
+  co2: number;
+  // Intermediate waypoints (start and end are not stops)
+  stops: number;
+  longestLeg: LegStats | null;
+  byMode: ModeStats[];
+}
+
+export function computeRouteStats(route: Route): RouteStats {
+  const byMode = new Map<TransportMode, ModeStats>();
+  let longestLeg: LegStats | null = null;
+
+  const labelOf = (waypointId: string) => {
+    const index = route.waypoints.findIndex((wp) => wp.id === waypointId);
+    return route.waypoints[index]?.label || `Punto ${index + 1}`;
+  };
+
+  for (const segment of route.segments) {
+    const { distance, duration } = getSegmentMetrics(segment);
+    const stats = byMode.get(segment.transportMode) ?? {
+      mode: segment.transportMode,
+      segments: 0,
+      distance: 0,
+      duration: 0,
+      co2: 0,
+    };
+
+    stats.segments += 1;
+    stats.distance += distance;
+    stats.duration += duration;
+    stats.co2 += (distance / 1000) * TRANSPORT_CONFIGS[segment.transportMode].co2PerKm / 1000;
+    byMode.set(segment.transportMode, stats);
+
+    if (!longestLeg || distance > longestLeg.distance) {
+      longestLeg = {
+        segment,
+        from: labelOf(segment.startWaypointId),
+        to: labelOf(segment.endWaypointId),
+        distance,
+      };
+    }
+  }
+
+  // Keep TRANSPORT_MODES order so the breakdown reads consistently
+  const modes = TRANSPORT_MODES.flatMap((mode) => byMode.get(mode) ?? []);
+
+  return {
+    distance: modes.reduce((sum, stats) => sum + stats.distance, 0),
+    duration: modes.reduce((sum, stats) => sum + stats.duration, 0),
+    co2: modes.reduce((sum, stats) => sum + stats.co2, 0),
+    stops: Math.max(0, route.waypoints.length - 2),
+    longestLeg,
+    byMode: modes,
+  };
+}
+
+export interface PathSample {
+  coordinates: Coordinates;
+  // Distance from the start of the path, in meters
+  distance: number;
+}
+
+/**
+ * Evenly spaced points along a path, always including both ends
+ */
+export function samplePath(path: Coordinates[], count: number): PathSample[] {
+  if (path.length < 2) return [];
+
+  const line = turf.lineString(path);
+  const length = turf.length(line, { units: 'kilometers' });
+  const steps = Math.max(1, count - 1);
+
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const km = (length * i) / steps;
+    const point = turf.along(line, km, { units: 'kilometers' });
+    return { coordinates: point.geometry.coordinates as Coordinates, distance: km * 1000 };
+  });
+}
@@ -0,0 +1,29 @@
+import { openDatabase, promisify, transactionDone, SESSION_STORE } from './database';
+
+/**
+ * IndexedDB-backed key-value store with the same shape as Zustand's
+ * StateStorage, used by autosave. Large route paths would quickly hit
+ * the ~5 MB localStorage quota, IndexedDB does not have that problem.
+ */
+export const indexedDbSessionStorage = {
+  getItem: async (name: string): Promise<string | null> => {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSION_STORE, 'readonly');
+    const value = await promisify(tx.objectStore(SESSION_STORE).get(name) as IDBRequest<string | undefined>);
+    return value ?? null;
+  },
+
+  setItem: async (name: string, value: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    tx.objectStore(SESSION_STORE).put(value, name);
+    await transactionDone(tx);
+  },
+
+  removeItem: async (name: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(SESSION_STORE, 'readwrite');
+    tx.objectStore(SESSION_STORE).delete(name);
+    await transactionDone(tx);
+  },
+};
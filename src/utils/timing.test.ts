@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { Route, RouteSegment } from '@/types';
+import { getAnimationTimeline, getSegmentDurations, locateProgress, locateTime } from './timing';
+
+function segment(id: string, start: string, end: string, distance: number, extra: Partial<RouteSegment> = {}): RouteSegment {
+  return { id, startWaypointId: start, endWaypointId: end, transportMode: 'car', path: [[0, 0], [1, 0]], distance, ...extra };
+}
+
+const route: Route = {
+  id: 'route-1',
+  name: 'Timing',
+  waypoints: [
+    { id: 'a', coordinates: [0, 0], order: 0, dwell: 1 },
+    { id: 'b', coordinates: [1, 0], order: 1, dwell: 2 },
+    { id: 'c', coordinates: [2, 0], order: 2 },
+    { id: 'd', coordinates: [3, 0], order: 3 },
+  ],
+  segments: [
+    segment('s1', 'a', 'b', 1000),
+    segment('s2', 'b', 'c', 3000),
+    segment('s3', 'c', 'd', 5000, { animationDuration: 4 }),
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+};
+
+describe('getSegmentDurations', () => {
+  it('shares the duration equally or by distance, keeping overrides', () => {
+    expect(getSegmentDurations(route, { duration: 10, timingModel: 'equal' })).toEqual([5, 5, 4]);
+    expect(getSegmentDurations(route, { duration: 10, timingModel: 'distance' })).toEqual([2.5, 7.5, 4]);
+  });
+
+  it('falls back to equal shares when nothing is measurable', () => {
+    const flat = { ...route, segments: route.segments.map((s) => ({ ...s, distance: 0, path: [] })) };
+    expect(getSegmentDurations(flat, { duration: 9, timingModel: 'distance' }).slice(0, 2)).toEqual([4.5, 4.5]);
+  });
+});
+
+describe('getAnimationTimeline', () => {
+  const timeline = getAnimationTimeline(route, { duration: 10, timingModel: 'equal' });
+
+  it('interleaves dwells and segments', () => {
+    expect(timeline.entries).toEqual([
+      { kind: 'dwell', index: 0, start: 0, end: 1 },
+      { kind: 'segment', index: 0, start: 1, end: 6 },
+      { kind: 'dwell', index: 1, start: 6, end: 8 },
+      { kind: 'segment', index: 1, start: 8, end: 13 },
+      { kind: 'segment', index: 2, start: 13, end: 17 },
+    ]);
+    expect(timeline.totalDuration).toBe(17);
+  });
+
+  it('is cached per route and settings', () => {
+    expect(getAnimationTimeline(route, { duration: 10, timingModel: 'equal' })).toBe(timeline);
+    expect(getAnimationTimeline(route, { duration: 20, timingModel: 'equal' }).totalDuration).toBe(27);
+  });
+});
+
+describe('locateTime', () => {
+  const timeline = getAnimationTimeline(route, { duration: 10, timingModel: 'equal' });
+
+  it('holds the vehicle during dwells', () => {
+    expect(locateTime(timeline, 0.5)).toEqual({ segmentIndex: 0, segmentProgress: 0 });
+    expect(locateTime(timeline, 7)).toEqual({ segmentIndex: 0, segmentProgress: 1 });
+  });
+
+  it('locates times within segments', () => {
+    expect(locateTime(timeline, 3.5)).toEqual({ segmentIndex: 0, segmentProgress: 0.5 });
+    expect(locateTime(timeline, 15)).toEqual({ segmentIndex: 2, segmentProgress: 0.5 });
+    expect(locateTime(timeline, 100)).toEqual({ segmentIndex: 2, segmentProgress: 1 });
+  });
+
+  it('maps overall progress onto the timeline', () => {
+    expect(locateProgress(route, { duration: 10, timingModel: 'equal' }, 1)).toEqual({
+      segmentIndex: 2,
+      segmentProgress: 1,
+    });
+    expect(locateProgress(route, { duration: 10, timingModel: 'equal' }, 8 / 17)).toEqual({
+      segmentIndex: 1,
+      segmentProgress: 0,
+    });
+  });
+});
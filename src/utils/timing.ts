@@ -0,0 +1,145 @@
+import { AnimationState, Route, RouteSegment, TimingModel } from '@/types';
+import { TRANSPORT_CONFIGS } from '@/config/transport';
+import { getSegmentMetrics } from './metrics';
+
+/**
+ * Animation timing
+ *
+ * The animation clock runs on a timeline in seconds:
+ * - A waypoint with a dwell time holds the vehicle there (the first
+ *   waypoint pauses before departure, the last one after arrival)
+ * - A segment with an animationDuration override takes exactly that long
+ * - The remaining segments share `animation.duration` according to the
+ *   timing model
+ *
+ * Overall progress (0-1) is a fraction of the timeline's total duration.
+ * The mapping is pure: the same route, settings and progress always give
+ * the same segment and segment progress, so playback and scrubbing land
+ * on identical positions.
+ */
+
+export type TimingSettings = Pick<AnimationState, 'duration' | 'timingModel'>;
+
+export interface TimelineEntry {
+  kind: 'dwell' | 'segment';
+  index: number; // Waypoint index for dwells, segment index for segments
+  start: number; // Seconds
+  end: number;
+}
+
+export interface AnimationTimeline {
+  entries: TimelineEntry[];
+  // Seconds given to each segment (by index)
+  segmentDurations: number[];
+  totalDuration: number;
+}
+
+export interface SegmentPosition {
+  segmentIndex: number;
+  segmentProgress: number; // 0-1 within the segment
+}
+
+function segmentWeight(segment: RouteSegment, model: TimingModel): number {
+  if (model === 'equal') return 1;
+
+  const { distance, duration } = getSegmentMetrics(segment);
+  switch (model) {
+    case 'distance':
+      return distance;
+    case 'duration':
+      return duration;
+    case 'speed':
+      return distance / TRANSPORT_CONFIGS[segment.transportMode].speed;
+  }
+}
+
+/**
+ * Seconds each segment takes: overrides as given, the rest share
+ * `duration` by weight (equally when none of them has a measurable length)
+ */
+export function getSegmentDurations(route: Route, { duration, timingModel }: TimingSettings): number[] {
+  const automatic = route.segments.filter((segment) => segment.animationDuration === undefined);
+  let weights = automatic.map((segment) => Math.max(0, segmentWeight(segment, timingModel)));
+  let total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (!(total > 0)) {
+    weights = automatic.map(() => 1);
+    total = weights.length;
+  }
+
+  let automaticIndex = 0;
+  return route.segments.map((segment) =>
+    segment.animationDuration !== undefined
+      ? segment.animationDuration
+      : (duration * weights[automaticIndex++]) / total
+  );
+}
+
+// Routes are immutable, so any edit produces a new route and a fresh timeline
+const timelineCache = new WeakMap<Route, { key: string; timeline: AnimationTimeline }>();
+
+export function getAnimationTimeline(route: Route, settings: TimingSettings): AnimationTimeline {
+  const key = `${settings.duration}:${settings.timingModel}`;
+  const cached = timelineCache.get(route);
+  if (cached?.key === key) return cached.timeline;
+
+  const segmentDurations = getSegmentDurations(route, settings);
+  const entries: TimelineEntry[] = [];
+  let time = 0;
+
+  const push = (kind: TimelineEntry['kind'], index: number, length: number) => {
+    if (length <= 0) return;
+    entries.push({ kind, index, start: time, end: time + length });
+    time += length;
+  };
+
+  route.waypoints.forEach((waypoint, i) => {
+    push('dwell', i, waypoint.dwell ?? 0);
+    if (i < route.segments.length) push('segment', i, segmentDurations[i]);
+  });
+
+  const timeline = { entries, segmentDurations, totalDuration: time };
+  timelineCache.set(route, { key, timeline });
+  return timeline;
+}
+
+/**
+ * Segment and segment progress at a time (seconds) on the timeline
+ */
+export function locateTime(timeline: AnimationTimeline, time: number): SegmentPosition {
+  const { entries, segmentDurations } = timeline;
+  if (segmentDurations.length === 0) return { segmentIndex: 0, segmentProgress: 0 };
+
+  // Last entry that has started (entries with zero length are never added)
+  let entry: TimelineEntry | undefined;
+  for (const candidate of entries) {
+    if (candidate.start > time) break;
+    entry = candidate;
+  }
+
+  if (!entry) {
+    // Nothing timed (every segment and dwell is zero length)
+    return time > 0
+      ? { segmentIndex: segmentDurations.length - 1, segmentProgress: 1 }
+      : { segmentIndex: 0, segmentProgress: 0 };
+  }
+
+  if (entry.kind === 'segment') {
+    const segmentProgress = Math.min(1, (time - entry.start) / (entry.end - entry.start));
+    return { segmentIndex: entry.index, segmentProgress };
+  }
+
+  // Dwelling at a waypoint: at the start of the first segment, otherwise
+  // at the end of the segment that arrives there
+  return entry.index === 0
+    ? { segmentIndex: 0, segmentProgress: 0 }
+    : { segmentIndex: entry.index - 1, segmentProgress: 1 };
+}
+
+/**
+ * Segment and segment progress for an overall progress value (0-1)
+ */
+export function locateProgress(route: Route, settings: TimingSettings, progress: number): SegmentPosition {
+  const timeline = getAnimationTimeline(route, settings);
+  const clamped = Math.max(0, Math.min(1, progress));
+  return locateTime(timeline, clamped * timeline.totalDuration);
+}
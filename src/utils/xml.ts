@@ -0,0 +1,21 @@
+/**
+ * Minimal helpers for writing XML documents by hand
+ */
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+export function escapeXml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => XML_ENTITIES[char]);
+}
+
+// Renders `<tag>value</tag>`, or nothing when value is missing
+export function xmlElement(tag: string, value: string | number | undefined): string {
+  if (value === undefined || value === '') return '';
+  return `<${tag}>${escapeXml(String(value))}</${tag}>`;
+}
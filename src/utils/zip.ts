@@ -0,0 +1,85 @@
+import { crc32 } from './crc32';
+import { ExportError } from './exportError';
+
+/**
+ * ZIP archive writer
+ *
+ * Entries are stored without compression: the files that go in (PNG
+ * frames) are compressed already. Entry data stays as Blobs, which the
+ * browser can keep on disk, so large archives don't need to fit in
+ * memory. No ZIP64: archives are limited to 4 GB and 65535 entries.
+ */
+
+export interface ZipWriter {
+  addFile: (name: string, data: Blob | string) => Promise<void>;
+  finish: () => Blob;
+}
+
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+const UTF8_FLAG = 0x0800;
+
+// MS-DOS date and time, as ZIP headers store them
+function dosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return [time, day];
+}
+
+export function createZipWriter(): ZipWriter {
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array[] = [];
+  const [time, day] = dosDateTime(new Date());
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  return {
+    addFile: async (name, data) => {
+      const blob = typeof data === 'string' ? new Blob([data]) : data;
+      const bytes = new Uint8Array(await blob.arrayBuffer());
+      const fileName = encoder.encode(name);
+      const crc = crc32(bytes);
+
+      if (directory.length >= MAX_ENTRIES || offset + 30 + fileName.length + bytes.length > MAX_SIZE) {
+        throw new ExportError('too-large', 'ZIP archive too large (4 GB / 65535 files)');
+      }
+
+      const header = new Uint8Array(30 + fileName.length);
+      const view = new DataView(header.buffer);
+      view.setUint32(0, 0x04034b50, true);
+      view.setUint16(4, 20, true); // version needed: 2.0
+      view.setUint16(6, UTF8_FLAG, true);
+      view.setUint16(8, 0, true); // stored
+      view.setUint16(10, time, true);
+      view.setUint16(12, day, true);
+      view.setUint32(14, crc, true);
+      view.setUint32(18, bytes.length, true);
+      view.setUint32(22, bytes.length, true);
+      view.setUint16(26, fileName.length, true);
+      header.set(fileName, 30);
+
+      const entry = new Uint8Array(46 + fileName.length);
+      const entryView = new DataView(entry.buffer);
+      entryView.setUint32(0, 0x02014b50, true);
+      entryView.setUint16(4, 20, true); // made by: 2.0
+      entry.set(header.subarray(4, 30), 6); // same fields as the local header
+      entryView.setUint32(42, offset, true);
+      entry.set(fileName, 46);
+
+      parts.push(header, blob);
+      directory.push(entry);
+      offset += header.length + bytes.length;
+    },
+    finish: () => {
+      const directorySize = directory.reduce((size, entry) => size + entry.length, 0);
+      const end = new Uint8Array(22);
+      const view = new DataView(end.buffer);
+      view.setUint32(0, 0x06054b50, true);
+      view.setUint16(8, directory.length, true);
+      view.setUint16(10, directory.length, true);
+      view.setUint32(12, directorySize, true);
+      view.setUint32(16, offset, true);
+      return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+    },
+  };
+}
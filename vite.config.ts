@@ -13,5 +13,20 @@ export default defineConfig({
   // Optimize Mapbox GL JS bundle
   optimizeDeps: {
     include: ['mapbox-gl'],
+    // ffmpeg.wasm starts its own worker and must not be pre-bundled
+    exclude: ['@ffmpeg/ffmpeg'],
+  },
+  build: {
+    rollupOptions: {
+      output: {
+        // Keep the vendors out of the app chunk so they cache across releases
+        manualChunks: {
+          mapbox: ['mapbox-gl'],
+          react: ['react', 'react-dom', 'zustand'],
+        },
+      },
+    },
+    // mapbox-gl alone is ~1.7 MB minified and cannot be split further
+    chunkSizeWarningLimit: 2000,
   },
 })